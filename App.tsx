@@ -1,64 +1,142 @@
-
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage, Type, FunctionDeclaration } from '@google/genai';
-import { SessionStatus } from './types';
-import { decode, encode, decodeAudioData, blobToBase64 } from './utils/audio';
+import React, { useState, useRef, useEffect } from 'react';
+import { SessionStatus, HazardSeverity, TranscriptionMessage, LocationReport, LocationToolResult, SosTrigger, SosPayload, GuardianProfile } from './types';
+import HistoryView from './components/HistoryView';
+import PlacesView from './components/PlacesView';
+import ContactsView from './components/ContactsView';
+import CaregiverView from './components/CaregiverView';
+import DiagnosticsView from './components/DiagnosticsView';
+import LanguageView from './components/LanguageView';
+import ProfilesView from './components/ProfilesView';
+import { useGuardianSession } from './hooks/useGuardianSession';
+import { LocaleContext } from './hooks/useLocale';
+import { usePowerManagement } from './hooks/usePowerManagement';
+import { CaregiverSharing, RelayLink, RelayLinkState, loadCaregiverSharing, saveCaregiverSharing, relaySocketUrl } from './utils/caregiverRelay';
+import { shareSessionWithCaregivers } from './utils/caregiverSharing';
+import { download } from './utils/download';
+import { loadEarconsEnabled, saveEarconsEnabled } from './utils/earcons';
+import { LiveGuardianSession, isRunning } from './utils/guardianSession';
+import { createDefaultTools } from './utils/guardianTools';
+import { describeHazard, HAZARD_RESPONSES } from './utils/hazards';
+import { createHistorySession, endHistorySession, appendHistoryMessage } from './utils/historyStore';
+import { Locale, LOCALES, getMessages, detectLocale, loadLocaleOverride, saveLocaleOverride, resolveLocale, applyDocumentLocale } from './utils/i18n';
+import { ConnectLive, createGenAIConnect } from './utils/liveTransport';
+import { createDefaultLocationProvider, locate, describeLocation } from './utils/location';
+import { watchGeofences } from './utils/places';
+import { loadActiveProfile, setActiveProfile, profileDisplayName } from './utils/profiles';
+import { createReplayConnect, parseRecording } from './utils/sessionReplay';
+import { SNAPSHOT_MODES, SnapshotMode } from './utils/snapshot';
+import { loadContacts, dispatchSos, createDefaultTransports, HazardEscalation, SosHandoff } from './utils/sos';
+import { speak, setSpeechLanguage } from './utils/speech';
+import { parseVoiceCommand, VoiceCommand } from './utils/voiceCommands';
+import { createVoiceRecognizer } from './utils/voiceRecognizer';
 
 const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
 
-const SYSTEM_INSTRUCTION = `You are DEJA VU, an AUTONOMOUS Visual Guardian for the blind. 
-
-CRITICAL DIRECTIVE: PROACTIVE NARRATION.
-- DO NOT WAIT for the user to speak. 
-- START narrating immediately as soon as you see the first frame.
-- You are the user's eyes. Your job is to describe the world as it changes in front of the camera.
-
-ACTIVITY DETECTION & DANGER PROTOCOL:
-1. ALWAYS-ON OBSERVATION: Describe every person, animal, and significant object you see.
-2. MOTION SENSITIVITY: If anything enters the frame (a car, a person, a dog), announce it INSTANTLY.
-3. DANGER WARNINGS: 
-   - If a person is RUNNING toward the user, SHOUT a warning: "DANGER: Someone is running at you!"
-   - If a person has a harmful object, alert them immediately.
-   - If a dog is approaching quickly, say: "WARNING: A dog is coming toward you fast."
-4. NARRATION STYLE: 
-   - Be concise: "Person 5 feet ahead," "Door on right," "Stairs descending."
-   - If the scene is quiet, provide a brief update every 15-20 seconds to confirm you are still watching (e.g., "Path is still clear").
-
-If you detect a threat, interrupt yourself and start with "WARNING:" or "DANGER:". Your tone should be urgent for threats but calm for general narration.`;
-
-const locationTool: FunctionDeclaration = {
-  name: 'get_location_address',
-  description: 'Gets the users current street address and precise GPS coordinates.',
-  parameters: { type: Type.OBJECT, properties: {}, required: [] },
+const locationProvider = createDefaultLocationProvider();
+
+// ?record downloads the session as JSONL when it stops; ?replay=<url> plays a
+// recording back in place of the Live API.
+const sessionParams = new URLSearchParams(window.location.search);
+const RECORD_SESSION = sessionParams.has('record');
+const REPLAY_URL = sessionParams.get('replay');
+
+const createConnect = async (): Promise<ConnectLive> => {
+  if (REPLAY_URL) {
+    try {
+      const res = await fetch(REPLAY_URL);
+      if (!res.ok) throw new Error(`Replay fetch failed: ${res.status}`);
+      return createReplayConnect(parseRecording(await res.text()));
+    } catch (e) {
+      console.error("Replay unavailable:", e);
+      throw new Error('Replay unavailable.');
+    }
+  }
+  if (!process.env.API_KEY) throw new Error('No API key.');
+  return createGenAIConnect(process.env.API_KEY, MODEL_NAME);
+};
+
+// Each "be quieter" scales narration volume by this much, down to the floor.
+const QUIETER_STEP = 0.6;
+const MIN_VOLUME = 0.15;
+
+const SOS_COUNTDOWN_SECONDS = 10;
+const SOS_LONG_PRESS_MS = 2000;
+// The click that ends a long press arrives just after the pointer lifts; only that one is swallowed.
+const LONG_PRESS_CLICK_GRACE_MS = 600;
+const SOS_TRANSCRIPT_TURNS = 10;
+const SOS_LOCATION_TIMEOUT_MS = 6000;
+
+const DIAGNOSTICS_TAPS = 5;
+const DIAGNOSTICS_TAP_WINDOW_MS = 2000;
+
+const sosTransports = createDefaultTransports();
+
+const CAUTION_BANNER_CLASSES = {
+  yellow: 'bg-yellow-400 text-black',
+  orange: 'bg-orange-500 text-black',
+  red: 'bg-red-600 text-white',
 };
 
 export default function App() {
-  const [status, setStatus] = useState<SessionStatus>(SessionStatus.IDLE);
-  const [error, setError] = useState<string | null>(null);
-  const [announcement, setAnnouncement] = useState<string>("");
-  const [isThreatDetected, setIsThreatDetected] = useState(false);
-  const [lastNarration, setLastNarration] = useState<string>("");
-
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const inputAudioCtxRef = useRef<AudioContext | null>(null);
-  const outputAudioCtxRef = useRef<AudioContext | null>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const frameIntervalRef = useRef<number | null>(null);
-  const isShuttingDown = useRef(false);
+  const [panel, setPanel] = useState<'history' | 'places' | 'contacts' | 'profiles' | 'caregiver' | 'language' | 'diagnostics' | null>(null);
+  const [localeOverride, setLocaleOverride] = useState<Locale | null>(loadLocaleOverride);
+  const [profile, setProfile] = useState<GuardianProfile>(loadActiveProfile);
+  const [earconsEnabled, setEarconsEnabled] = useState(loadEarconsEnabled);
+  const [sosCountdown, setSosCountdown] = useState<number | null>(null);
+  const [sosHandoffs, setSosHandoffs] = useState<SosHandoff[]>([]);
+  const [sharing, setSharing] = useState<CaregiverSharing>(loadCaregiverSharing);
+  const [relayState, setRelayState] = useState<RelayLinkState>('closed');
+  const [caregivers, setCaregivers] = useState(0);
+
+  const lastModelTurnRef = useRef("");
+  const lastLocationRef = useRef<LocationReport | null>(null);
+  const recentTurnsRef = useRef<TranscriptionMessage[]>([]);
+  const historySessionRef = useRef<Promise<string | null> | null>(null);
+  const escalationRef = useRef(new HazardEscalation());
+  const sosTimerRef = useRef<number | null>(null);
+  const longPressTimerRef = useRef<number | null>(null);
+  const longPressFiredRef = useRef(false);
+  const suppressClickUntilRef = useRef(0);
+  const diagnosticsTapsRef = useRef<number[]>([]);
+  const voiceCommandRef = useRef<(command: VoiceCommand) => void>(() => {});
+  const sosTriggerRef = useRef<(trigger: SosTrigger) => void>(() => {});
+
+  const fetchAddress = async (): Promise<LocationToolResult> => {
+    const result = await locate(locationProvider);
+    if (!('error' in result)) lastLocationRef.current = result;
+    return result;
+  };
+
+  const locale = localeOverride ?? detectLocale();
+  const messages = getMessages(locale);
+  const m = messages.app;
+
+  const { session, status, error, announcement, hazard, narration: lastNarration } = useGuardianSession(() => new LiveGuardianSession({
+    connect: createConnect,
+    profile: loadActiveProfile(),
+    locale: resolveLocale(),
+    tools: createDefaultTools(fetchAddress),
+    earcons: loadEarconsEnabled(),
+    record: RECORD_SESSION,
+  }));
+
+  const isThreatDetected = !!hazard && HAZARD_RESPONSES[hazard.severity].fullScreen;
+  const running = isRunning(status);
+
+  usePowerManagement(session, status);
+
+  // Runs before the intro below so that it is already spoken in the right language.
+  useEffect(() => {
+    applyDocumentLocale(locale);
+    setSpeechLanguage(LOCALES[locale].language);
+    session.setLocale(locale);
+  }, [locale, session]);
 
   useEffect(() => {
-    const message = "DEJA VU Guardian active. I am watching for threats, dogs, and people. Tap to start.";
-    setAnnouncement(message);
+    const message = m.intro;
+    session.announce(message, false);
     
-    const speakInstruction = () => {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(message);
-      utterance.rate = 0.95;
-      window.speechSynthesis.speak(utterance);
-    };
+    const speakInstruction = () => speak(message);
     
     speakInstruction();
     
@@ -75,247 +153,420 @@ export default function App() {
     };
   }, []);
 
-  const fetchAddress = (): Promise<any> => {
-    return new Promise((resolve) => {
-      if (!navigator.geolocation) {
-        resolve({ error: "Geolocation not supported" });
-        return;
-      }
-      navigator.geolocation.getCurrentPosition(
-        async (pos) => {
-          try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 5000);
-            const res = await fetch(
-              `https://nominatim.openstreetmap.org/reverse?lat=${pos.coords.latitude}&lon=${pos.coords.longitude}&format=json`,
-              { signal: controller.signal }
-            );
-            clearTimeout(timeoutId);
-            const data = await res.json();
-            resolve({ address: data.display_name || "Unknown location" });
-          } catch (e) { 
-            resolve({ note: "Location found but address service timed out." }); 
-          }
-        },
-        (err) => resolve({ error: "Location access denied." }),
-        { enableHighAccuracy: true, timeout: 8000 }
-      );
+  useEffect(() => {
+    const unsubscribe = [
+      session.on('turn', (message) => {
+        if (message.type === 'model') lastModelTurnRef.current = message.text;
+        recentTurnsRef.current = [...recentTurnsRef.current, message].slice(-SOS_TRANSCRIPT_TURNS);
+        historySessionRef.current
+          ?.then(id => id && appendHistoryMessage(id, message))
+          .catch(e => console.warn("History write failed.", e));
+      }),
+      session.on('hazard', (report) => {
+        if (escalationRef.current.record(report)) sosTriggerRef.current('hazard');
+      }),
+      session.on('recording', (jsonl) => {
+        download(`deja-vu-session-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`, jsonl, 'application/x-ndjson');
+      }),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [session]);
+
+  // History and arrival alerts follow the guardian through reconnects and reduced mode.
+  useEffect(() => {
+    if (!running) return;
+    const historySession = createHistorySession().catch((e) => {
+      console.warn("History unavailable.", e);
+      return null;
+    });
+    historySessionRef.current = historySession;
+    const stopGeofences = watchGeofences((place) => {
+      const message = session.messages.app.arriving(place.label);
+      session.announce(message, false);
+      if (!session.sendText(`Tell the user, briefly: "${message}"`)) speak(message);
     });
+    return () => {
+      stopGeofences();
+      historySession.then(id => id && endHistorySession(id)).catch(() => {});
+      historySessionRef.current = null;
+      escalationRef.current.reset();
+    };
+  }, [running, session]);
+
+  // Caregiver sharing is strictly opt-in and runs whether or not the guardian is on,
+  // so a caregiver can see that it is off.
+  useEffect(() => {
+    if (!sharing.enabled) return;
+    const link = new RelayLink(relaySocketUrl(sharing.relayUrl, 'guardian', sharing.code, sharing.key));
+    const stopSharing = shareSessionWithCaregivers(session, link, fetchAddress);
+    const unsubscribe = [
+      link.on('state', setRelayState),
+      link.on('message', (message) => { if (message.type === 'presence') setCaregivers(message.caregivers); }),
+    ];
+    link.open();
+    return () => {
+      stopSharing();
+      unsubscribe.forEach(off => off());
+      link.close();
+      setRelayState('closed');
+      setCaregivers(0);
+    };
+  }, [sharing.enabled, sharing.relayUrl, sharing.code, sharing.key, session]);
+
+  const updateSharing = (next: CaregiverSharing) => {
+    saveCaregiverSharing(next);
+    setSharing(next);
+    if (next.enabled !== sharing.enabled) confirm(next.enabled ? m.sharingOn : m.sharingOff);
+    else if (next.code !== sharing.code) confirm(m.newCode);
   };
 
-  const stopSession = useCallback(() => {
-    isShuttingDown.current = true;
-    if (frameIntervalRef.current) window.clearInterval(frameIntervalRef.current);
-    
-    if (sessionPromiseRef.current) {
-      sessionPromiseRef.current.then(s => {
-        try { s.close(); } catch (e) {}
-      }).catch(() => {});
-      sessionPromiseRef.current = null;
-    }
+  const startSession = () => session.start();
+  const stopSession = () => session.stop();
 
-    sourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
-    sourcesRef.current.clear();
+  const confirm = (message: string) => session.announce(message);
 
-    if (inputAudioCtxRef.current?.state !== 'closed') inputAudioCtxRef.current?.close();
-    if (outputAudioCtxRef.current?.state !== 'closed') outputAudioCtxRef.current?.close();
-    
-    if (videoRef.current?.srcObject) {
-      (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
-      videoRef.current.srcObject = null;
-    }
-    
-    inputAudioCtxRef.current = null;
-    outputAudioCtxRef.current = null;
-    setStatus(SessionStatus.IDLE);
-    setIsThreatDetected(false);
-    nextStartTimeRef.current = 0;
-    setAnnouncement("Guardian offline.");
-    setTimeout(() => { isShuttingDown.current = false; }, 500);
-  }, []);
+  const toggleEarcons = () => {
+    const next = !earconsEnabled;
+    session.setEarconsEnabled(next);
+    saveEarconsEnabled(next);
+    setEarconsEnabled(next);
+    confirm(next ? m.tonesOn : m.tonesOff);
+  };
+
+  const changeLocale = (next: Locale | null) => {
+    saveLocaleOverride(next);
+    setLocaleOverride(next);
+    const resolved = next ?? detectLocale();
+    // Switch straight away rather than waiting for the effect, so the confirmation is in the new language.
+    setSpeechLanguage(LOCALES[resolved].language);
+    session.setLocale(resolved);
+    session.announce(getMessages(resolved).app.languageChanged(LOCALES[resolved].name));
+  };
+
+  const switchProfile = (next: GuardianProfile) => {
+    setActiveProfile(next.id);
+    setProfile(next);
+    session.setProfile(next);
+  };
 
-  const startSession = async () => {
+  const sendSos = async (trigger: SosTrigger) => {
+    const timeout = new Promise<null>(resolve => setTimeout(() => resolve(null), SOS_LOCATION_TIMEOUT_MS));
+    const fresh = await Promise.race([fetchAddress(), timeout]);
+    const payload: SosPayload = {
+      trigger,
+      triggeredAt: Date.now(),
+      location: fresh && !('error' in fresh) ? fresh : lastLocationRef.current,
+      transcript: recentTurnsRef.current,
+      snapshot: session.captureFrame(0.7),
+    };
     try {
-      window.speechSynthesis.cancel();
-      setError(null);
-      setStatus(SessionStatus.CONNECTING);
-      setAnnouncement("Activating autonomous threat detection.");
-
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: { ideal: 'environment' }, width: { ideal: 1280 } }, 
-        audio: true 
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        await videoRef.current.play().catch(console.warn);
+      const contacts = loadContacts();
+      const { delivered, handoffs } = await dispatchSos(payload, contacts, sosTransports);
+      // SMS, mail and the share sheet only prepare a message; say so rather than claiming it went.
+      setSosHandoffs(handoffs);
+      if (handoffs.length) confirm(delivered > 0 ? m.helpSentMoreReady : m.helpReady);
+      else confirm(delivered > 0 ? m.helpSent : m.helpFailed);
+    } catch (e) {
+      console.error("SOS failed:", e);
+      confirm(m.helpFailed);
+    }
+  };
+
+  // Runs from a tap, which browsers require before opening another app or the share sheet.
+  const openSosHandoff = () => {
+    const [next, ...rest] = sosHandoffs;
+    setSosHandoffs(rest);
+    next?.open().catch((e) => {
+      console.warn(`SOS via ${next.channel} failed:`, e);
+      confirm(m.helpFailed);
+    });
+  };
+
+  const triggerSos = (trigger: SosTrigger) => {
+    if (sosTimerRef.current) return;
+    let remaining = SOS_COUNTDOWN_SECONDS;
+    setSosCountdown(remaining);
+    if ("vibrate" in navigator) navigator.vibrate([500, 200, 500]);
+    confirm(m.sosCountdown(remaining));
+    sosTimerRef.current = window.setInterval(() => {
+      remaining--;
+      setSosCountdown(remaining);
+      if (remaining > 0) {
+        if (remaining <= 5) speak(String(remaining), 1.1);
+        return;
       }
+      window.clearInterval(sosTimerRef.current!);
+      sosTimerRef.current = null;
+      setSosCountdown(null);
+      confirm(m.sendingHelp);
+      sendSos(trigger);
+    }, 1000);
+  };
+  sosTriggerRef.current = triggerSos;
 
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      inputAudioCtxRef.current = inputCtx;
-      outputAudioCtxRef.current = outputCtx;
-      const outputNode = outputCtx.createGain();
-      outputNode.connect(outputCtx.destination);
-
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Charon' } } },
-          systemInstruction: SYSTEM_INSTRUCTION,
-          outputAudioTranscription: {}, 
-          tools: [{ functionDeclarations: [locationTool] }]
-        },
-        callbacks: {
-          onopen: () => {
-            if (isShuttingDown.current) return;
-            setStatus(SessionStatus.ACTIVE);
-            setAnnouncement("DEJA VU is active. I am narrating your world autonomously.");
-            const source = inputCtx.createMediaStreamSource(stream);
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            processor.onaudioprocess = (e) => {
-              if (isShuttingDown.current) return;
-              const data = e.inputBuffer.getChannelData(0);
-              const int16 = new Int16Array(data.length);
-              for (let i = 0; i < data.length; i++) int16[i] = data[i] * 32768;
-              sessionPromise.then(s => s.sendRealtimeInput({ 
-                media: { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' } 
-              })).catch(() => {});
-            };
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-
-            frameIntervalRef.current = window.setInterval(() => {
-              if (isShuttingDown.current) return;
-              const v = videoRef.current;
-              const c = canvasRef.current;
-              if (v && c && v.readyState >= 2) {
-                const ctx = c.getContext('2d');
-                // Use a standard analysis resolution
-                c.width = 640; 
-                c.height = (v.videoHeight / v.videoWidth) * 640;
-                ctx?.drawImage(v, 0, 0, c.width, c.height);
-                c.toBlob(async (b) => {
-                  if (b && !isShuttingDown.current) {
-                    const b64 = await blobToBase64(b);
-                    sessionPromise.then(s => s.sendRealtimeInput({ 
-                      media: { data: b64, mimeType: 'image/jpeg' } 
-                    })).catch(() => {});
-                  }
-                }, 'image/jpeg', 0.8);
-              }
-            }, 600); // Faster sampling for better activity/motion detection
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            if (isShuttingDown.current) return;
-
-            if (msg.toolCall) {
-              for (const fc of msg.toolCall.functionCalls) {
-                if (fc.name === 'get_location_address') {
-                  const result = await fetchAddress();
-                  sessionPromise.then(s => s.sendToolResponse({
-                    functionResponses: { id: fc.id, name: fc.name, response: { result } }
-                  })).catch(() => {});
-                }
-              }
-            }
-
-            if (msg.serverContent?.outputTranscription) {
-              const text = msg.serverContent.outputTranscription.text;
-              setLastNarration(text);
-              const textLower = text.toLowerCase();
-              const criticalKeywords = [
-                "warning", "danger", "knife", "approaching", "running", "intent", 
-                "alert", "weapon", "fast", "urgent", "dog", "car", "gun", 
-                "threatening", "stop", "get back", "someone coming", "charging"
-              ];
-              if (criticalKeywords.some(word => textLower.includes(word))) {
-                setIsThreatDetected(true);
-                if ("vibrate" in navigator) navigator.vibrate([300, 100, 300]);
-                setTimeout(() => setIsThreatDetected(false), 5000);
-              }
-            }
-
-            const audio = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audio && outputAudioCtxRef.current && !isShuttingDown.current) {
-              const ctx = outputAudioCtxRef.current;
-              if (ctx.state === 'suspended') await ctx.resume();
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              try {
-                const buf = await decodeAudioData(decode(audio), ctx, 24000, 1);
-                const src = ctx.createBufferSource();
-                src.buffer = buf;
-                src.connect(outputNode);
-                src.addEventListener('ended', () => sourcesRef.current.delete(src));
-                src.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += buf.duration;
-                sourcesRef.current.add(src);
-              } catch (e) {
-                console.warn("Audio decode skipped.");
-              }
-            }
-
-            if (msg.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (e) => { 
-            if (isShuttingDown.current) return;
-            console.error("Live Error:", e);
-            setError('Guardian down.'); 
-            setAnnouncement("System error. Tap to reboot eyes.");
-            stopSession(); 
-          },
-          onclose: () => {
-            if (!isShuttingDown.current) setStatus(SessionStatus.IDLE);
-          }
+  const cancelSos = () => {
+    if (!sosTimerRef.current) return;
+    window.clearInterval(sosTimerRef.current);
+    sosTimerRef.current = null;
+    setSosCountdown(null);
+    confirm(m.sosCancelled);
+  };
+
+  const startLongPress = () => {
+    longPressFiredRef.current = false;
+    suppressClickUntilRef.current = 0;
+    longPressTimerRef.current = window.setTimeout(() => {
+      longPressFiredRef.current = true;
+      triggerSos('long-press');
+    }, SOS_LONG_PRESS_MS);
+  };
+
+  const endLongPress = () => {
+    if (longPressTimerRef.current) window.clearTimeout(longPressTimerRef.current);
+    longPressTimerRef.current = null;
+    if (longPressFiredRef.current) suppressClickUntilRef.current = Date.now() + LONG_PRESS_CLICK_GRACE_MS;
+    longPressFiredRef.current = false;
+  };
+
+  const tapDiagnosticsCorner = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const now = Date.now();
+    const taps = [...diagnosticsTapsRef.current, now].filter(t => now - t < DIAGNOSTICS_TAP_WINDOW_MS);
+    diagnosticsTapsRef.current = taps.length >= DIAGNOSTICS_TAPS ? [] : taps;
+    if (taps.length >= DIAGNOSTICS_TAPS) setPanel('diagnostics');
+  };
+
+  voiceCommandRef.current = (command: VoiceCommand) => {
+    if (command === 'sos') {
+      triggerSos('voice');
+      return;
+    }
+    if (command === 'cancel') {
+      cancelSos();
+      return;
+    }
+    if (command === 'start') {
+      if (status === SessionStatus.IDLE || status === SessionStatus.ERROR) startSession();
+      return;
+    }
+    if (!running) return;
+
+    switch (command) {
+      case 'stop':
+        stopSession();
+        speak(messages.session.offline);
+        break;
+      case 'pause':
+        session.setNarrationPaused(true);
+        confirm(m.paused);
+        break;
+      case 'resume':
+        session.setNarrationPaused(false);
+        confirm(m.resumed);
+        break;
+      case 'quieter':
+        session.setNarrationVolume(Math.max(MIN_VOLUME, session.narrationVolume * QUIETER_STEP));
+        confirm(m.quieter);
+        break;
+      case 'repeat': {
+        const text = lastModelTurnRef.current || lastNarration;
+        confirm(text || m.nothingToRepeat);
+        break;
+      }
+      case 'where-am-i':
+        if (!session.sendText('The user asked "where am I?". Call get_location_address and tell them their location.')) {
+          fetchAddress().then(result => confirm('error' in result ? m.locationUnavailable : describeLocation(result, m.coordinates)));
         }
-      });
-      sessionPromiseRef.current = sessionPromise;
-    } catch (err: any) {
-      setError('Check permissions.');
-      setAnnouncement("Permission required for camera and audio.");
-      setStatus(SessionStatus.IDLE);
+        break;
+      case 'read-text':
+      case 'currency':
+      case 'colour':
+      case 'describe':
+        session.askAboutSnapshot(command);
+        break;
     }
   };
 
+  useEffect(() => {
+    const recognizer = createVoiceRecognizer((utterance) => {
+      const command = parseVoiceCommand(utterance, messages.voiceCommands);
+      if (command) voiceCommandRef.current(command);
+    }, LOCALES[locale].language);
+    if (!recognizer) return;
+    recognizer.start();
+    return () => recognizer.stop();
+  }, [locale]);
+
+  const profileName = profileDisplayName(profile, messages.profiles.builtInNames);
+
   return (
+    <LocaleContext.Provider value={{ locale, messages }}>
     <div className={`h-screen w-screen bg-black overflow-hidden select-none flex flex-col transition-colors duration-500 ${isThreatDetected ? 'bg-red-950' : 'bg-black'}`}>
-      <video ref={videoRef} autoPlay playsInline muted className={`fixed inset-0 w-full h-full object-cover transition-opacity duration-1000 pointer-events-none ${status === SessionStatus.ACTIVE ? 'opacity-50' : 'opacity-0'}`} />
-      <canvas ref={canvasRef} className="hidden" />
+      <video ref={session.attachVideo} autoPlay playsInline muted className={`fixed inset-0 w-full h-full object-cover transition-opacity duration-1000 pointer-events-none ${running ? 'opacity-50' : 'opacity-0'}`} />
 
       {/* EMERGENCY VISUAL FEEDBACK */}
       {isThreatDetected && (
-        <div className="fixed inset-0 z-50 pointer-events-none flex flex-col items-center justify-center border-[40px] border-red-600 animate-pulse">
+        <div className={`fixed inset-0 z-50 pointer-events-none flex flex-col items-center justify-center border-red-600 animate-pulse ${hazard.severity === HazardSeverity.CRITICAL ? 'border-[60px]' : 'border-[40px]'}`}>
           <div className="bg-red-600 text-white px-10 py-5 rounded-full shadow-[0_0_150px_rgba(220,38,38,1)] text-center">
-            <h3 className="text-5xl font-black uppercase tracking-tighter italic mb-2">THREAT ALERT</h3>
-            <p className="text-xl font-bold uppercase tracking-widest opacity-90">Listen to Audio Guidance</p>
+            <h3 className="text-5xl font-black uppercase tracking-tighter italic mb-2">{hazard.severity === HazardSeverity.CRITICAL ? m.danger : m.threatAlert}</h3>
+            <p className="text-xl font-bold uppercase tracking-widest opacity-90">{hazard.source === 'tool' ? describeHazard(hazard, messages.hazards) : m.listenForGuidance}</p>
           </div>
         </div>
       )}
 
+      {/* CAUTION BANNER for lower-severity hazards */}
+      {hazard && !isThreatDetected && (
+        <div className={`fixed top-0 inset-x-0 z-40 pointer-events-none py-4 text-center text-2xl font-black uppercase tracking-widest ${CAUTION_BANNER_CLASSES[HAZARD_RESPONSES[hazard.severity].color]}`}>
+          {m.caution} · {describeHazard(hazard, messages.hazards)}
+        </div>
+      )}
+
       {/* SCANNING OVERLAY */}
       {status === SessionStatus.ACTIVE && !isThreatDetected && (
         <div className="fixed inset-0 z-0 pointer-events-none">
             <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[95vw] h-[95vw] border-[3px] border-yellow-400/20 rounded-full animate-ping" />
             <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[70vw] h-[70vw] border-[1px] border-yellow-400/40 rounded-full animate-[ping_2.5s_infinite]" />
             {/* Rapid Scanning Line */}
-            <div className="absolute w-full h-[4px] bg-yellow-400/20 top-0 left-0 animate-[bounce_1.5s_infinite] shadow-[0_0_15px_rgba(250,204,21,0.5)]" />
+            <div className="absolute w-full h-[4px] bg-yellow-400/20 top-0 start-0 animate-[bounce_1.5s_infinite] shadow-[0_0_15px_rgba(250,204,21,0.5)]" />
+        </div>
+      )}
+
+      {panel === 'history' && <HistoryView onClose={() => setPanel(null)} />}
+
+      {panel === 'places' && <PlacesView onClose={() => setPanel(null)} />}
+      {panel === 'contacts' && <ContactsView onClose={() => setPanel(null)} />}
+      {panel === 'profiles' && <ProfilesView activeId={profile.id} onActivate={switchProfile} onClose={() => setPanel(null)} />}
+      {panel === 'caregiver' && (
+        <CaregiverView sharing={sharing} linkState={relayState} caregivers={caregivers} onChange={updateSharing} onClose={() => setPanel(null)} />
+      )}
+      {panel === 'language' && <LanguageView override={localeOverride} onChange={changeLocale} onClose={() => setPanel(null)} />}
+      {panel === 'diagnostics' && <DiagnosticsView session={session} onClose={() => setPanel(null)} />}
+
+      {sosCountdown !== null && (
+        <button
+          onClick={cancelSos}
+          className="fixed inset-0 z-[70] w-full bg-red-700 text-white flex flex-col items-center justify-center space-y-6"
+          aria-label={m.sosCountdownLabel(sosCountdown)}
+        >
+          <span className="text-5xl font-black uppercase tracking-tighter italic">{m.sosIn}</span>
+          <span className="text-[10rem] font-black leading-none">{sosCountdown}</span>
+          <span className="text-3xl font-black uppercase tracking-widest">{m.tapToCancel}</span>
+        </button>
+      )}
+
+      {sosCountdown === null && sosHandoffs.length > 0 && (
+        <div className="fixed inset-0 z-[70] bg-red-700 text-white flex flex-col">
+          <button onClick={openSosHandoff} className="flex-1 w-full flex flex-col items-center justify-center space-y-6" aria-label={m.handoffLabel}>
+            <span className="text-5xl font-black uppercase tracking-tighter italic">{m.messageReady}</span>
+            <span className="text-3xl font-black uppercase tracking-widest">{m.tapToOpen}</span>
+          </button>
+          <button onClick={() => setSosHandoffs([])} className="m-6 px-6 py-4 rounded-2xl bg-black/40 font-black uppercase tracking-widest text-lg">
+            {m.dismiss}
+          </button>
+        </div>
+      )}
+
+      {!panel && status !== SessionStatus.CONNECTING && (
+        <div className="fixed top-6 end-6 z-20 flex gap-3">
+          <button
+            onClick={() => setPanel('profiles')}
+            className="px-6 py-4 rounded-2xl bg-zinc-800 text-white font-black uppercase tracking-widest text-lg"
+            aria-label={m.profileButton(profileName)}
+          >
+            {profileName}
+          </button>
+          <button
+            onClick={toggleEarcons}
+            aria-pressed={earconsEnabled}
+            className="px-6 py-4 rounded-2xl bg-zinc-800 text-white font-black uppercase tracking-widest text-lg"
+            aria-label={m.tonesLabel}
+          >
+            {m.tones(earconsEnabled)}
+          </button>
+          <button
+            onClick={() => setPanel('caregiver')}
+            className={`px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg ${sharing.enabled ? 'bg-yellow-400 text-black' : 'bg-zinc-800 text-white'}`}
+            aria-label={sharing.enabled ? m.careOnLabel : m.careOffLabel}
+          >
+            {m.care}
+          </button>
+          {(status === SessionStatus.IDLE || status === SessionStatus.ERROR) && (
+            <>
+              <button
+                onClick={() => setPanel('contacts')}
+                className="px-6 py-4 rounded-2xl bg-zinc-800 text-white font-black uppercase tracking-widest text-lg"
+                aria-label={m.sosLabel}
+              >
+                {m.sos}
+              </button>
+              <button
+                onClick={() => setPanel('places')}
+                className="px-6 py-4 rounded-2xl bg-zinc-800 text-white font-black uppercase tracking-widest text-lg"
+                aria-label={m.placesLabel}
+              >
+                {m.places}
+              </button>
+              <button
+                onClick={() => setPanel('history')}
+                className="px-6 py-4 rounded-2xl bg-zinc-800 text-white font-black uppercase tracking-widest text-lg"
+                aria-label={m.historyLabel}
+              >
+                {m.history}
+              </button>
+              <button
+                onClick={() => setPanel('language')}
+                className="px-6 py-4 rounded-2xl bg-zinc-800 text-white font-black uppercase tracking-widest text-lg"
+                aria-label={m.languageLabel(LOCALES[locale].name)}
+              >
+                {LOCALES[locale].name}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {!panel && status === SessionStatus.ACTIVE && (
+        <div className="fixed bottom-6 inset-x-6 z-20 grid grid-cols-4 gap-3" role="group" aria-label={m.photoQuestions}>
+          {(Object.keys(SNAPSHOT_MODES) as SnapshotMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => session.askAboutSnapshot(mode)}
+              className="py-5 rounded-2xl bg-yellow-400 text-black font-black uppercase tracking-wider text-base"
+              aria-label={m.photoLabel(messages.snapshot[mode].label)}
+            >
+              {messages.snapshot[mode].label}
+            </button>
+          ))}
         </div>
       )}
 
+      {/* Hidden developer gesture: five quick taps in the top corner (top-left, or top-right in Arabic) open diagnostics. */}
+      {!panel && <div aria-hidden="true" onClick={tapDiagnosticsCorner} className="fixed top-0 start-0 z-30 w-16 h-16" />}
+
       <div className="sr-only" aria-live="assertive">
         {announcement}
       </div>
 
       <button
-        onClick={() => (status === SessionStatus.ACTIVE ? stopSession() : startSession())}
+        onClick={() => {
+          // A long press has already started an SOS; don't also toggle the guardian.
+          if (Date.now() < suppressClickUntilRef.current) {
+            suppressClickUntilRef.current = 0;
+            return;
+          }
+          running ? stopSession() : startSession();
+        }}
+        onPointerDown={startLongPress}
+        onPointerUp={endLongPress}
+        onPointerLeave={endLongPress}
+        onPointerCancel={endLongPress}
         className={`flex-1 w-full flex flex-col items-center justify-center p-8 transition-all duration-500 active:bg-zinc-900 ${status === SessionStatus.ACTIVE ? 'bg-transparent' : 'bg-zinc-950'}`}
-        aria-label={status === SessionStatus.ACTIVE ? "Guardian Eye is Active. Narrating world. Tap screen to stop." : "Tap the screen to activate Autonomous Visual Guardian."}
+        aria-label={
+          status === SessionStatus.ACTIVE ? m.mainButton.active :
+          status === SessionStatus.RECONNECTING ? m.mainButton.reconnecting :
+          status === SessionStatus.DEGRADED ? m.mainButton.degraded :
+          m.mainButton.idle
+        }
       >
         <div className="text-center space-y-10 z-10 w-full max-w-lg">
           {(status === SessionStatus.IDLE || status === SessionStatus.ERROR) && (
@@ -324,11 +575,11 @@ export default function App() {
                  <svg xmlns="http://www.w3.org/2000/svg" className="h-32 w-32 text-black" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
                  </svg>
-                 <span className="text-black font-black text-sm uppercase tracking-[0.4em] font-mono mt-2">ARM GUARDIAN</span>
+                 <span className="text-black font-black text-sm uppercase tracking-[0.4em] font-mono mt-2">{m.arm}</span>
               </div>
               <div className="space-y-4">
                 <h1 className="text-8xl font-black text-yellow-400 uppercase tracking-tighter italic leading-none">DEJA VU</h1>
-                <p className="text-2xl text-zinc-500 font-bold uppercase tracking-[0.6em]">{error || "AUTONOMOUS VISION"}</p>
+                <p className="text-2xl text-zinc-500 font-bold uppercase tracking-[0.6em]">{error || m.tagline}</p>
               </div>
             </>
           )}
@@ -336,7 +587,24 @@ export default function App() {
           {status === SessionStatus.CONNECTING && (
             <div className="space-y-8">
               <div className="w-40 h-40 mx-auto border-[20px] border-t-yellow-400 border-zinc-800 rounded-full animate-spin shadow-[0_0_80px_rgba(250,204,21,0.3)]" />
-              <h2 className="text-5xl font-black text-white uppercase animate-pulse tracking-[0.2em]">EYE OPENING...</h2>
+              <h2 className="text-5xl font-black text-white uppercase animate-pulse tracking-[0.2em]">{m.opening}</h2>
+            </div>
+          )}
+
+          {status === SessionStatus.DEGRADED && (
+            <div className="space-y-8">
+              <div className="w-40 h-40 mx-auto rounded-full border-[12px] border-orange-400 animate-pulse shadow-[0_0_80px_rgba(251,146,60,0.4)]" />
+              <h2 className="text-6xl font-black text-orange-400 uppercase tracking-tighter italic">{m.reducedMode}</h2>
+              <p className="text-xl text-white/80 font-bold uppercase tracking-widest">{m.reducedModeDetail}</p>
+              <p className="text-zinc-500 font-bold tracking-[0.4em] uppercase text-sm">{m.tapToClose}</p>
+            </div>
+          )}
+
+          {status === SessionStatus.RECONNECTING && (
+            <div className="space-y-8">
+              <div className="w-40 h-40 mx-auto border-[20px] border-t-orange-400 border-zinc-800 rounded-full animate-spin shadow-[0_0_80px_rgba(251,146,60,0.3)]" />
+              <h2 className="text-5xl font-black text-white uppercase animate-pulse tracking-[0.2em]">{m.reconnecting}</h2>
+              <p className="text-zinc-500 font-bold tracking-[0.4em] uppercase text-sm">{m.tapToClose}</p>
             </div>
           )}
 
@@ -344,7 +612,7 @@ export default function App() {
             <>
               <div className="relative h-80 flex items-center justify-center">
                 <div className={`absolute inset-0 border-4 transition-all duration-300 rounded-3xl animate-pulse ${isThreatDetected ? 'border-red-600 scale-125 shadow-[0_0_120px_rgba(220,38,38,0.7)]' : 'border-white/10'}`} />
-                <div className="flex space-x-7 items-end h-64">
+                <div className="flex gap-7 items-end h-64">
                    <div className={`w-16 rounded-full animate-[bounce_0.6s_infinite_0ms] h-32 ${isThreatDetected ? 'bg-red-600' : 'bg-yellow-400/90'}`} />
                    <div className={`w-16 rounded-full animate-[bounce_0.6s_infinite_100ms] h-60 ${isThreatDetected ? 'bg-red-600 shadow-[0_0_80px_rgba(220,38,38,1)]' : 'bg-yellow-400 shadow-[0_0_60px_rgba(250,204,21,0.7)]'}`} />
                    <div className={`w-16 rounded-full animate-[bounce_0.6s_infinite_200ms] h-40 ${isThreatDetected ? 'bg-red-600' : 'bg-yellow-400/90'}`} />
@@ -352,7 +620,7 @@ export default function App() {
               </div>
               <div className="space-y-6">
                 <div className={`inline-block px-12 py-4 font-black uppercase tracking-widest rounded-full animate-pulse transition-all ${isThreatDetected ? 'bg-white text-red-600 scale-125' : 'bg-yellow-400 text-black'}`}>
-                  {isThreatDetected ? 'THREAT DETECTED' : 'NARRATING LIVE'}
+                  {isThreatDetected ? m.threatDetected : m.narratingLive}
                 </div>
                 {lastNarration && (
                   <div className={`p-6 rounded-2xl border transition-all duration-300 ${isThreatDetected ? 'bg-red-600/30 border-red-500' : 'bg-white/5 border-white/10'} max-h-36 overflow-hidden backdrop-blur-xl`}>
@@ -360,14 +628,15 @@ export default function App() {
                   </div>
                 )}
                 <h2 className={`text-7xl font-black uppercase tracking-tighter italic drop-shadow-2xl transition-colors ${isThreatDetected ? 'text-red-500' : 'text-white'}`}>
-                  {isThreatDetected ? 'ALERT' : 'ACTIVE'}
+                  {isThreatDetected ? m.alertHeading : m.activeHeading}
                 </h2>
-                <p className="text-zinc-500 font-bold tracking-[0.4em] uppercase text-sm">Tap screen to close eye</p>
+                <p className="text-zinc-500 font-bold tracking-[0.4em] uppercase text-sm">{m.tapToClose}</p>
               </div>
             </>
           )}
         </div>
       </button>
     </div>
+    </LocaleContext.Provider>
   );
 }
@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { SessionStatus, HazardReport, LocationReport, TranscriptionMessage } from '../types';
+import { DEFAULT_RELAY_URL, RelayLink, RelayLinkState, normalizePairingCode, relaySocketUrl } from '../utils/caregiverRelay';
+import { describeHazard, HAZARD_RESPONSES } from '../utils/hazards';
+import { LOCALES, getMessages, resolveLocale, applyDocumentLocale } from '../utils/i18n';
+
+const MAX_TURNS = 50;
+const MAX_HAZARDS = 20;
+
+const HAZARD_TEXT_CLASSES = {
+  yellow: 'text-yellow-400',
+  orange: 'text-orange-400',
+  red: 'text-red-500',
+};
+
+// The link drops anything malformed, but a newer guardian could still send a severity this page doesn't know.
+const hazardTextClass = (h: HazardReport) => HAZARD_TEXT_CLASSES[HAZARD_RESPONSES[h.severity]?.color] ?? 'text-zinc-300';
+
+/** The caregiver's side: pairs with a guardian by code and follows it live, in the caregiver's own language. */
+export default function CaregiverDashboard() {
+  const [locale] = useState(resolveLocale);
+  const messages = getMessages(locale);
+  const m = messages.dashboard;
+  const time = (at: number) => new Date(at).toLocaleTimeString(LOCALES[locale].language);
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+  const [codeInput, setCodeInput] = useState("");
+  const [link, setLink] = useState<RelayLink | null>(null);
+  const [linkState, setLinkState] = useState<RelayLinkState>('closed');
+  const [guardianOnline, setGuardianOnline] = useState(false);
+  const [status, setStatus] = useState<{ status: SessionStatus; at: number } | null>(null);
+  const [location, setLocation] = useState<LocationReport | null>(null);
+  const [hazards, setHazards] = useState<HazardReport[]>([]);
+  const [turns, setTurns] = useState<TranscriptionMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [notice, setNotice] = useState("");
+
+  useEffect(() => {
+    applyDocumentLocale(locale);
+  }, [locale]);
+
+  useEffect(() => {
+    if (!link) return;
+    const unsubscribe = [
+      link.on('state', setLinkState),
+      link.on('message', (message) => {
+        switch (message.type) {
+          case 'presence':
+            setGuardianOnline(message.guardian);
+            break;
+          case 'status':
+            setStatus({ status: message.status, at: message.at });
+            break;
+          case 'location':
+            setLocation(message.location);
+            break;
+          case 'hazard':
+            setHazards(prev => [message.report, ...prev].slice(0, MAX_HAZARDS));
+            break;
+          case 'turn':
+            setTurns(prev => [...prev, message.message].slice(-MAX_TURNS));
+            break;
+        }
+      }),
+    ];
+    link.open();
+    return () => {
+      unsubscribe.forEach(off => off());
+      link.close();
+    };
+  }, [link]);
+
+  const connect = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizePairingCode(codeInput);
+    if (!code) {
+      setNotice(m.badCode);
+      return;
+    }
+    try {
+      setLink(new RelayLink(relaySocketUrl(relayUrl.trim(), 'caregiver', code)));
+      setCodeInput(code);
+      setNotice("");
+    } catch (err) {
+      setNotice(m.badRelay);
+    }
+  };
+
+  const disconnect = () => {
+    setLink(null);
+    setLinkState('closed');
+    setGuardianOnline(false);
+    setStatus(null);
+    setLocation(null);
+    setHazards([]);
+    setTurns([]);
+  };
+
+  const sendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || !link) return;
+    if (link.send({ type: 'say', text })) {
+      setNotice(guardianOnline ? m.sent(text) : m.sentUnheard);
+      setDraft("");
+    } else {
+      setNotice(m.notConnected);
+    }
+  };
+
+  const buttonClass = "px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg";
+  const fieldClass = "w-full p-4 rounded-2xl bg-white/10 border border-white/20 text-2xl";
+  const cardClass = "p-5 rounded-2xl bg-white/5 border border-white/10 space-y-2";
+
+  if (!link) {
+    return (
+      <main className="min-h-screen bg-zinc-950 text-white p-6">
+        <form onSubmit={connect} className="max-w-xl mx-auto space-y-4">
+          <h1 className="text-5xl font-black uppercase tracking-tighter italic text-yellow-400">DEJA VU Caregiver</h1>
+          <p className="text-lg text-zinc-400">{m.intro}</p>
+          <label htmlFor="pairing-code" className="block text-xl font-bold">{m.pairingCode}</label>
+          <input
+            id="pairing-code"
+            value={codeInput}
+            onChange={e => setCodeInput(e.target.value)}
+            autoComplete="off"
+            autoCapitalize="characters"
+            placeholder="ABCD-2345"
+            dir="ltr"
+            className={`${fieldClass} font-mono uppercase tracking-widest`}
+          />
+          <label htmlFor="relay-address" className="block text-xl font-bold">{m.relayAddress}</label>
+          <input id="relay-address" value={relayUrl} onChange={e => setRelayUrl(e.target.value)} type="url" dir="ltr" className={fieldClass} />
+          <button type="submit" className={`${buttonClass} w-full bg-yellow-400 text-black`}>{m.connect}</button>
+          <p role="status" className="text-xl text-zinc-300 min-h-[1.75rem]">{notice}</p>
+        </form>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-zinc-950 text-white p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-black uppercase tracking-tighter italic text-yellow-400">DEJA VU Caregiver</h1>
+            <p dir="ltr" className="text-zinc-400 font-mono tracking-widest text-start">{codeInput}</p>
+          </div>
+          <button onClick={disconnect} className={`${buttonClass} bg-zinc-800`}>{m.disconnect}</button>
+        </div>
+
+        <section className={cardClass} aria-live="polite">
+          <p className="text-zinc-400 uppercase tracking-widest font-bold">{m.linkStates[linkState]}</p>
+          <p className="text-3xl font-black">
+            {!guardianOnline ? m.guardianOffline : status ? m.status[status.status] : m.waitingForStatus}
+          </p>
+          {guardianOnline && status && <p className="text-zinc-400">{m.since(time(status.at))}</p>}
+        </section>
+
+        <section className={cardClass}>
+          <h2 className="text-2xl font-black uppercase">{m.location}</h2>
+          {location ? (
+            <>
+              <p className="text-xl">{location.address ?? `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`}</p>
+              <p className="text-zinc-400">
+                {m.accuracy(location.accuracyMeters)}
+                {location.speedMps !== null && m.moving(location.speedMps.toFixed(1))}
+                {location.cached && m.fromCache}
+              </p>
+              <a
+                href={`https://www.openstreetmap.org/?mlat=${location.latitude}&mlon=${location.longitude}#map=18/${location.latitude}/${location.longitude}`}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-block text-yellow-400 underline text-lg font-bold"
+              >
+                {m.openMap}
+              </a>
+            </>
+          ) : (
+            <p className="text-zinc-400">{m.noLocation}</p>
+          )}
+        </section>
+
+        <section className={cardClass}>
+          <h2 className="text-2xl font-black uppercase">{m.hazards}</h2>
+          {hazards.length === 0 ? (
+            <p className="text-zinc-400">{m.noHazards}</p>
+          ) : (
+            <ul className="space-y-1">
+              {hazards.map((h, i) => (
+                <li key={`${h.timestamp}-${i}`} className={`text-lg font-bold ${hazardTextClass(h)}`}>
+                  {time(h.timestamp)} · {describeHazard(h, messages.hazards)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <form onSubmit={sendMessage} className={cardClass}>
+          <label htmlFor="caregiver-message" className="block text-2xl font-black uppercase">{m.speak}</label>
+          <textarea id="caregiver-message" value={draft} onChange={e => setDraft(e.target.value)} rows={2} maxLength={500} className={fieldClass} />
+          <button type="submit" disabled={!draft.trim()} className={`${buttonClass} bg-yellow-400 text-black disabled:opacity-40`}>{m.send}</button>
+          <p role="status" className="text-lg text-zinc-300 min-h-[1.75rem]">{notice}</p>
+        </form>
+
+        <section className={cardClass}>
+          <h2 className="text-2xl font-black uppercase">{m.narration}</h2>
+          {turns.length === 0 ? (
+            <p className="text-zinc-400">{m.noNarration}</p>
+          ) : (
+            <ol className="space-y-2">
+              {turns.map((t, i) => (
+                <li key={`${t.timestamp}-${i}`} className="text-lg">
+                  <span className="text-zinc-500 font-mono">{time(t.timestamp)}</span>{' '}
+                  <span className="font-bold">{t.type === 'model' ? m.guardian : m.user}:</span> {t.text}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { CaregiverSharing, RelayLinkState, generatePairingCode, generateGuardianKey } from '../utils/caregiverRelay';
+
+interface CaregiverViewProps {
+  sharing: CaregiverSharing;
+  linkState: RelayLinkState;
+  caregivers: number;
+  onChange: (sharing: CaregiverSharing) => void;
+  onClose: () => void;
+}
+
+// The code is spelled out character by character so a screen reader reads it clearly.
+const spellCode = (code: string) => code.split('').filter(c => c !== '-').join(' ');
+
+export default function CaregiverView({ sharing, linkState, caregivers, onChange, onClose }: CaregiverViewProps) {
+  const m = useLocale().messages.caregiver;
+  const [relayUrl, setRelayUrl] = useState(sharing.relayUrl);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
+  const toggle = () => onChange({ ...sharing, relayUrl: relayUrl.trim() || sharing.relayUrl, enabled: !sharing.enabled });
+  const newCode = () => onChange({ ...sharing, code: generatePairingCode(), key: generateGuardianKey() });
+
+  const buttonClass = "px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg";
+  const fieldClass = "w-full p-4 rounded-2xl bg-white/10 border border-white/20 text-2xl";
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="caregiver-heading" className="fixed inset-0 z-[60] bg-zinc-950 text-white overflow-y-auto p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="caregiver-heading" ref={headingRef} tabIndex={-1} className="text-4xl font-black uppercase tracking-tighter italic text-yellow-400">
+            {m.heading}
+          </h2>
+          <button onClick={onClose} className={`${buttonClass} bg-yellow-400 text-black`}>{m.close}</button>
+        </div>
+
+        <p className="text-lg text-zinc-400">{m.explanation}</p>
+
+        <div className="p-5 rounded-2xl bg-white/5 border border-white/10 space-y-2">
+          <p className="text-zinc-400 uppercase tracking-widest font-bold">{m.pairingCode}</p>
+          <p dir="ltr" className="text-5xl font-black font-mono tracking-widest text-start" aria-label={m.pairingCodeLabel(spellCode(sharing.code))}>{sharing.code}</p>
+          <button onClick={newCode} className={`${buttonClass} bg-zinc-800`} aria-label={m.newCodeLabel}>
+            {m.newCode}
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <label htmlFor="relay-url" className="block text-xl font-bold">{m.relayAddress}</label>
+          <input
+            id="relay-url"
+            value={relayUrl}
+            onChange={e => setRelayUrl(e.target.value)}
+            disabled={sharing.enabled}
+            type="url"
+            dir="ltr"
+            className={`${fieldClass} disabled:opacity-40`}
+          />
+        </div>
+
+        <button
+          onClick={toggle}
+          aria-pressed={sharing.enabled}
+          className={`${buttonClass} w-full ${sharing.enabled ? 'bg-red-700' : 'bg-yellow-400 text-black'}`}
+        >
+          {sharing.enabled ? m.stop : m.start}
+        </button>
+
+        <p role="status" className="text-xl text-zinc-300 min-h-[1.75rem]">
+          {m.linkStates[linkState]}
+          {linkState === 'open' && ` · ${m.caregiverCount(caregivers)}`}
+        </p>
+      </div>
+    </div>
+  );
+}
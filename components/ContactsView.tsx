@@ -0,0 +1,98 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { EmergencyChannel, EmergencyContact } from '../types';
+import { useLocale } from '../hooks/useLocale';
+import { loadContacts, saveContacts } from '../utils/sos';
+
+interface ContactsViewProps {
+  onClose: () => void;
+}
+
+export default function ContactsView({ onClose }: ContactsViewProps) {
+  const m = useLocale().messages.contacts;
+  const [contacts, setContacts] = useState<EmergencyContact[]>(loadContacts);
+  const [name, setName] = useState("");
+  const [channel, setChannel] = useState<EmergencyChannel>('sms');
+  const [address, setAddress] = useState("");
+  const [status, setStatus] = useState("");
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
+  const update = (next: EmergencyContact[]) => {
+    saveContacts(next);
+    setContacts(next);
+  };
+
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !address.trim()) return;
+    update([...contacts, { id: crypto.randomUUID(), name: name.trim(), channel, address: address.trim() }]);
+    setStatus(m.added(name.trim()));
+    setName("");
+    setAddress("");
+  };
+
+  const remove = (contact: EmergencyContact) => {
+    update(contacts.filter(c => c.id !== contact.id));
+    setStatus(m.removed(contact.name));
+  };
+
+  const buttonClass = "px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg";
+  const fieldClass = "w-full p-4 rounded-2xl bg-white/10 border border-white/20 text-2xl";
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="contacts-heading" className="fixed inset-0 z-[60] bg-zinc-950 text-white overflow-y-auto p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="contacts-heading" ref={headingRef} tabIndex={-1} className="text-4xl font-black uppercase tracking-tighter italic text-red-500">
+            {m.heading}
+          </h2>
+          <button onClick={onClose} className={`${buttonClass} bg-yellow-400 text-black`}>{m.close}</button>
+        </div>
+
+        <p className="text-lg text-zinc-400">{m.explanation}</p>
+
+        <form onSubmit={add} className="space-y-3">
+          <label htmlFor="contact-name" className="block text-xl font-bold">{m.name}</label>
+          <input id="contact-name" value={name} onChange={e => setName(e.target.value)} className={fieldClass} />
+          <label htmlFor="contact-channel" className="block text-xl font-bold">{m.sendBy}</label>
+          <select id="contact-channel" value={channel} onChange={e => setChannel(e.target.value as EmergencyChannel)} className={fieldClass}>
+            {(Object.keys(m.channels) as EmergencyChannel[]).map(c => <option key={c} value={c}>{m.channels[c]}</option>)}
+          </select>
+          <label htmlFor="contact-address" className="block text-xl font-bold">{m.channels[channel]}</label>
+          <input
+            id="contact-address"
+            value={address}
+            onChange={e => setAddress(e.target.value)}
+            type={channel === 'sms' ? 'tel' : channel === 'email' ? 'email' : 'url'}
+            className={fieldClass}
+          />
+          <button type="submit" disabled={!name.trim() || !address.trim()} className={`${buttonClass} w-full bg-yellow-400 text-black disabled:opacity-40`}>
+            {m.add}
+          </button>
+        </form>
+
+        <p role="status" className="text-xl text-zinc-300 min-h-[1.75rem]">{status}</p>
+
+        {contacts.length === 0 ? (
+          <p className="text-xl text-zinc-400">{m.empty}</p>
+        ) : (
+          <ul className="space-y-3">
+            {contacts.map(c => (
+              <li key={c.id} className="p-5 rounded-2xl bg-white/5 border border-white/10 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-2xl font-bold">{c.name}</p>
+                  <p className="text-zinc-400">{m.channels[c.channel]}: <span dir="ltr">{c.address}</span></p>
+                </div>
+                <button onClick={() => remove(c)} className={`${buttonClass} bg-red-700`} aria-label={m.removeLabel(c.name)}>{m.remove}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { download } from '../utils/download';
+import { LiveGuardianSession } from '../utils/guardianSession';
+import { LOCALES, Messages } from '../utils/i18n';
+import { LatencySummary, MetricsReport } from '../utils/metrics';
+
+interface DiagnosticsViewProps {
+  session: LiveGuardianSession;
+  onClose: () => void;
+}
+
+const REFRESH_MS = 1000;
+
+type Strings = Messages['diagnostics'];
+
+const kb = (m: Strings, bytes: number) => m.kilobytes((bytes / 1024).toFixed(1));
+
+const latency = (m: Strings, s: LatencySummary) =>
+  s.count === 0 ? m.noSamples : m.latency(s.count, s.meanMs, s.p50Ms, s.p95Ms, s.maxMs);
+
+const cost = (m: Strings, c: MetricsReport['cost']) =>
+  !c ? m.costUnset : m.cost(c.estimatedUsd.toFixed(4), c.unpricedTokens);
+
+/** Developer-facing counters for the current session. Opened by tapping the top-left corner five times. */
+export default function DiagnosticsView({ session, onClose }: DiagnosticsViewProps) {
+  const { locale, messages } = useLocale();
+  const m = messages.diagnostics;
+  const language = LOCALES[locale].language;
+  const [report, setReport] = useState<MetricsReport | null>(() => session.metrics?.report() ?? null);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+    const timer = setInterval(() => setReport(session.metrics?.report() ?? null), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [session]);
+
+  const exportReport = () => {
+    const current = session.metrics?.report();
+    if (!current) return;
+    const stamp = current.startedAt.replace(/[:.]/g, '-');
+    const payload = { exportedAt: new Date().toISOString(), userAgent: navigator.userAgent, status: session.status, ...current };
+    download(`deja-vu-diagnostics-${stamp}.json`, JSON.stringify(payload, null, 2), 'application/json');
+  };
+
+  const buttonClass = "px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg";
+  const cardClass = "p-5 rounded-2xl bg-white/5 border border-white/10 space-y-1";
+  const rows = (entries: [string, React.ReactNode][]) => (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-lg">
+      {entries.map(([label, value]) => (
+        <React.Fragment key={label}>
+          <dt className="text-zinc-400">{label}</dt>
+          <dd className="font-mono">{value}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="diagnostics-heading" className="fixed inset-0 z-[60] bg-zinc-950 text-white overflow-y-auto p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="diagnostics-heading" ref={headingRef} tabIndex={-1} className="text-4xl font-black uppercase tracking-tighter italic text-yellow-400">
+            {m.heading}
+          </h2>
+          <button onClick={onClose} className={`${buttonClass} bg-yellow-400 text-black`}>{m.close}</button>
+        </div>
+
+        <p className="text-lg text-zinc-400">
+          {m.privacy}
+        </p>
+
+        {!report ? (
+          <p className="text-xl text-zinc-400">{m.noSession}</p>
+        ) : (
+          <>
+            <button onClick={exportReport} className={`${buttonClass} bg-white/10`}>{m.exportJson}</button>
+
+            <section className={cardClass}>
+              <h3 className="text-2xl font-black uppercase">{m.session}</h3>
+              {rows([
+                [m.started, new Date(report.startedAt).toLocaleString(language)],
+                [m.runningFor, m.seconds(Math.round(report.durationMs / 1000))],
+              ])}
+            </section>
+
+            <section className={cardClass}>
+              <h3 className="text-2xl font-black uppercase">{m.sent}</h3>
+              {rows([
+                [m.frames, `${report.frames.sent} · ${kb(m, report.frames.bytes)}`],
+                [m.dropped, m.droppedDetail(report.frames.dropped.stale, report.frames.dropped.overflow, report.frames.dropped.encode)],
+                [m.audio, `${m.chunks(report.audio.chunksSent)} · ${kb(m, report.audio.bytes)}`],
+                [m.speechEnds, report.audio.streamEnds],
+              ])}
+            </section>
+
+            <section className={cardClass}>
+              <h3 className="text-2xl font-black uppercase">{m.narration}</h3>
+              {rows([
+                [m.frameToAudio, latency(m, report.narration.frameToAudio)],
+                [m.audioChunks, report.narration.audioChunks],
+                [m.decodeFailures, report.narration.decodeFailures],
+              ])}
+            </section>
+
+            <section className={cardClass}>
+              <h3 className="text-2xl font-black uppercase">{m.tools}</h3>
+              {Object.keys(report.tools).length === 0 ? (
+                <p className="text-zinc-400">{m.noTools}</p>
+              ) : (
+                rows(Object.keys(report.tools).map((name): [string, React.ReactNode] => [name, `${latency(m, report.tools[name])} · ${m.failed(report.tools[name].failures)}`]))
+              )}
+            </section>
+
+            <section className={cardClass}>
+              <h3 className="text-2xl font-black uppercase">{m.link}</h3>
+              {rows([
+                [m.connects, report.link.connects],
+                [m.reconnects, m.reconnectsDetail(report.link.reconnects, report.link.reconnectAttempts)],
+                [m.reducedMode, m.times(report.link.reducedModeEntries)],
+              ])}
+              {report.link.errors.length > 0 && (
+                <ol className="pt-2 space-y-1 font-mono text-sm text-red-400">
+                  {report.link.errors.slice(-10).reverse().map((e, i) => (
+                    <li key={`${e.at}-${i}`}>{new Date(e.at).toLocaleTimeString(language)} {e.message}</li>
+                  ))}
+                </ol>
+              )}
+            </section>
+
+            <section className={cardClass}>
+              <h3 className="text-2xl font-black uppercase">{m.tokens}</h3>
+              {rows([
+                [m.prompt, report.tokens.prompt],
+                [m.response, report.tokens.response],
+                [m.toolUse, report.tokens.toolUsePrompt],
+                [m.thoughts, report.tokens.thoughts],
+                [m.total, report.tokens.total],
+                ...Object.entries(report.tokens.byModality.prompt).map(([modality, count]): [string, React.ReactNode] => [m.tokensIn(modality.toLowerCase()), count]),
+                ...Object.entries(report.tokens.byModality.response).map(([modality, count]): [string, React.ReactNode] => [m.tokensOut(modality.toLowerCase()), count]),
+                [m.estimatedCost, cost(m, report.cost)],
+              ])}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
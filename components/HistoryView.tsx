@@ -0,0 +1,103 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { HistorySession, TranscriptionMessage } from '../types';
+import { useLocale } from '../hooks/useLocale';
+import { listHistorySessions, getHistoryMessages, formatHistoryAsJson, formatHistoryAsText } from '../utils/historyStore';
+import { download } from '../utils/download';
+import { LOCALES } from '../utils/i18n';
+import { speak } from '../utils/speech';
+
+interface HistoryViewProps {
+  onClose: () => void;
+}
+
+export default function HistoryView({ onClose }: HistoryViewProps) {
+  const { locale, messages: strings } = useLocale();
+  const h = strings.history;
+  const language = LOCALES[locale].language;
+  const [sessions, setSessions] = useState<HistorySession[] | null>(null);
+  const [selected, setSelected] = useState<HistorySession | null>(null);
+  const [messages, setMessages] = useState<TranscriptionMessage[]>([]);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    listHistorySessions().then(setSessions).catch(() => setSessions([]));
+  }, []);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, [selected]);
+
+  const openSession = async (session: HistorySession) => {
+    setMessages(await getHistoryMessages(session.id).catch(() => []));
+    setSelected(session);
+  };
+
+  const exportSession = (format: 'json' | 'txt') => {
+    if (!selected) return;
+    const stamp = new Date(selected.startedAt).toISOString().replace(/[:.]/g, '-');
+    if (format === 'json') download(`deja-vu-${stamp}.json`, formatHistoryAsJson(selected, messages), 'application/json');
+    else download(`deja-vu-${stamp}.txt`, formatHistoryAsText(selected, messages, h, language), 'text/plain');
+  };
+
+  const describeSession = (s: HistorySession) => h.walkOn(new Date(s.startedAt).toLocaleString(language));
+
+  const buttonClass = "px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg";
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="history-heading" className="fixed inset-0 z-[60] bg-zinc-950 text-white overflow-y-auto p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="history-heading" ref={headingRef} tabIndex={-1} className="text-4xl font-black uppercase tracking-tighter italic text-yellow-400">
+            {selected ? describeSession(selected) : h.heading}
+          </h2>
+          <button onClick={selected ? () => setSelected(null) : onClose} className={`${buttonClass} bg-yellow-400 text-black`}>
+            {selected ? h.back : h.close}
+          </button>
+        </div>
+
+        {!selected && sessions === null && <p className="text-xl text-zinc-400">{h.loading}</p>}
+        {!selected && sessions?.length === 0 && <p className="text-xl text-zinc-400">{h.empty}</p>}
+        {!selected && !!sessions?.length && (
+          <ul className="space-y-3">
+            {sessions.map(s => (
+              <li key={s.id}>
+                <button onClick={() => openSession(s)} className={`${buttonClass} w-full text-start bg-white/5 border border-white/10`}>
+                  {describeSession(s)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selected && (
+          <>
+            <div className="flex flex-wrap gap-3">
+              <button onClick={() => exportSession('json')} className={`${buttonClass} bg-white/10`}>{h.exportJson}</button>
+              <button onClick={() => exportSession('txt')} className={`${buttonClass} bg-white/10`}>{h.exportText}</button>
+            </div>
+            {messages.length === 0 ? (
+              <p className="text-xl text-zinc-400">{h.silentWalk}</p>
+            ) : (
+              <ol className="space-y-4">
+                {messages.map((m, i) => (
+                  <li key={i} className="p-5 rounded-2xl bg-white/5 border border-white/10 space-y-3">
+                    <p className="text-sm font-bold uppercase tracking-widest text-zinc-400">
+                      {m.type === 'model' ? h.guardian : h.you}, {new Date(m.timestamp).toLocaleTimeString(language)}
+                    </p>
+                    <p className="text-2xl font-bold">{m.text}</p>
+                    {m.type === 'model' && (
+                      <button onClick={() => speak(m.text)} className={`${buttonClass} bg-yellow-400 text-black`} aria-label={h.replayLabel(m.text)}>
+                        {h.replay}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
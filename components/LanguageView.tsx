@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { LOCALES, Locale, detectLocale } from '../utils/i18n';
+
+interface LanguageViewProps {
+  /** The language the user picked, or null to follow the device. */
+  override: Locale | null;
+  onChange: (locale: Locale | null) => void;
+  onClose: () => void;
+}
+
+export default function LanguageView({ override, onChange, onClose }: LanguageViewProps) {
+  const { messages } = useLocale();
+  const m = messages.language;
+  const detected = LOCALES[detectLocale()];
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
+  const buttonClass = "px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg";
+  const optionClass = (selected: boolean) =>
+    `${buttonClass} w-full text-start ${selected ? 'bg-yellow-400 text-black' : 'bg-white/10'}`;
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="language-heading" className="fixed inset-0 z-[60] bg-zinc-950 text-white overflow-y-auto p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="language-heading" ref={headingRef} tabIndex={-1} className="text-4xl font-black uppercase tracking-tighter italic text-yellow-400">
+            {m.heading}
+          </h2>
+          <button onClick={onClose} className={`${buttonClass} bg-yellow-400 text-black`}>{m.close}</button>
+        </div>
+
+        <p className="text-lg text-zinc-400">{m.explanation}</p>
+
+        <ul className="space-y-3">
+          <li>
+            <button onClick={() => onChange(null)} aria-pressed={override === null} className={optionClass(override === null)}>
+              {m.automatic(detected.name)}
+            </button>
+          </li>
+          {(Object.keys(LOCALES) as Locale[]).map(code => (
+            <li key={code}>
+              {/* Each name is in its own language, so it is read out that way. */}
+              <button
+                onClick={() => onChange(code)}
+                aria-pressed={override === code}
+                lang={LOCALES[code].language}
+                dir={LOCALES[code].dir}
+                className={optionClass(override === code)}
+              >
+                {LOCALES[code].name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SavedPlace } from '../types';
+import { useLocale } from '../hooks/useLocale';
+import { loadPlaces, addPlace, removePlace, directionsTo, compassPoint } from '../utils/places';
+import { getCurrentFix } from '../utils/location';
+
+interface PlacesViewProps {
+  onClose: () => void;
+}
+
+export default function PlacesView({ onClose }: PlacesViewProps) {
+  const m = useLocale().messages.places;
+  const [places, setPlaces] = useState<SavedPlace[]>(loadPlaces);
+  const [label, setLabel] = useState("");
+  const [status, setStatus] = useState("");
+  const [busy, setBusy] = useState(false);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
+  const saveHere = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim() || busy) return;
+    setBusy(true);
+    setStatus(m.finding);
+    try {
+      const fix = await getCurrentFix();
+      const place = addPlace(label, fix);
+      setPlaces(loadPlaces());
+      setLabel("");
+      setStatus(m.saved(place.label, Math.round(fix.accuracy)));
+    } catch (err) {
+      console.warn("Position unavailable:", err);
+      setStatus(m.noPosition);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const howFar = async (place: SavedPlace) => {
+    try {
+      const d = directionsTo(place, await getCurrentFix());
+      const direction = d.clockHour !== null ? m.atClock(d.clockHour) : compassPoint(d.bearingDegrees, m.compass);
+      setStatus(m.distance(d.place, d.distanceMeters, direction));
+    } catch (err) {
+      console.warn("Position unavailable:", err);
+      setStatus(m.noPosition);
+    }
+  };
+
+  const remove = (place: SavedPlace) => {
+    removePlace(place.id);
+    setPlaces(loadPlaces());
+    setStatus(m.removed(place.label));
+  };
+
+  const buttonClass = "px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg";
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="places-heading" className="fixed inset-0 z-[60] bg-zinc-950 text-white overflow-y-auto p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="places-heading" ref={headingRef} tabIndex={-1} className="text-4xl font-black uppercase tracking-tighter italic text-yellow-400">
+            {m.heading}
+          </h2>
+          <button onClick={onClose} className={`${buttonClass} bg-yellow-400 text-black`}>{m.close}</button>
+        </div>
+
+        <form onSubmit={saveHere} className="space-y-3">
+          <label htmlFor="place-label" className="block text-xl font-bold">{m.nameThisSpot}</label>
+          <input
+            id="place-label"
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder={m.placeholder}
+            className="w-full p-4 rounded-2xl bg-white/10 border border-white/20 text-2xl"
+          />
+          <button type="submit" disabled={busy || !label.trim()} className={`${buttonClass} w-full bg-yellow-400 text-black disabled:opacity-40`}>
+            {m.save}
+          </button>
+        </form>
+
+        <p role="status" className="text-xl text-zinc-300 min-h-[1.75rem]">{status}</p>
+
+        {places.length === 0 ? (
+          <p className="text-xl text-zinc-400">{m.empty}</p>
+        ) : (
+          <ul className="space-y-3">
+            {places.map(p => (
+              <li key={p.id} className="p-5 rounded-2xl bg-white/5 border border-white/10 space-y-3">
+                <p className="text-2xl font-bold">{p.label}</p>
+                <div className="flex flex-wrap gap-3">
+                  <button onClick={() => howFar(p)} className={`${buttonClass} bg-white/10`} aria-label={m.howFarLabel(p.label)}>{m.howFar}</button>
+                  <button onClick={() => remove(p)} className={`${buttonClass} bg-red-700`} aria-label={m.removeLabel(p.label)}>{m.remove}</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { GuardianProfile, NarrationVerbosity } from '../types';
+import { useLocale } from '../hooks/useLocale';
+import { HAZARD_KINDS } from '../utils/hazards';
+import { LOCALES } from '../utils/i18n';
+import { LANGUAGES, VOICES, loadProfiles, saveProfile, deleteProfile, resetProfile, duplicateProfile, profileDisplayName } from '../utils/profiles';
+
+interface ProfilesViewProps {
+  activeId: string;
+  /** Called when the user picks a profile, or saves changes to the active one. */
+  onActivate: (profile: GuardianProfile) => void;
+  onClose: () => void;
+}
+
+export default function ProfilesView({ activeId, onActivate, onClose }: ProfilesViewProps) {
+  const { locale, messages } = useLocale();
+  const m = messages.profiles;
+  const nameOf = (profile: GuardianProfile) => profileDisplayName(profile, m.builtInNames);
+  // Language names in the app's language, e.g. "Spanish" in English and "español" in Spanish.
+  const languageNames = new Intl.DisplayNames([LOCALES[locale].language], { type: 'language' });
+  const [profiles, setProfiles] = useState<GuardianProfile[]>(loadProfiles);
+  const [draft, setDraft] = useState<GuardianProfile | null>(null);
+  const [status, setStatus] = useState("");
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, [draft === null]);
+
+  const edit = <K extends keyof GuardianProfile>(key: K, value: GuardianProfile[K]) => {
+    setDraft(d => (d ? { ...d, [key]: value } : d));
+  };
+
+  const toggleKind = (kind: string) => {
+    if (!draft) return;
+    edit('alarmKinds', draft.alarmKinds.includes(kind) ? draft.alarmKinds.filter(k => k !== kind) : [...draft.alarmKinds, kind]);
+  };
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+    const saved = { ...draft, name: draft.name.trim() };
+    setProfiles(saveProfile(saved));
+    if (saved.id === activeId) onActivate(saved);
+    setDraft(null);
+    setStatus(m.saved(nameOf(saved)));
+  };
+
+  const remove = (profile: GuardianProfile) => {
+    setProfiles(profile.builtIn ? resetProfile(profile.id) : deleteProfile(profile.id));
+    setDraft(null);
+    setStatus(profile.builtIn ? m.wasReset(nameOf(profile)) : m.deleted(nameOf(profile)));
+    if (profile.id === activeId) onActivate(loadProfiles().find(p => p.id === activeId) ?? loadProfiles()[0]);
+  };
+
+  const buttonClass = "px-6 py-4 rounded-2xl font-black uppercase tracking-widest text-lg";
+  const fieldClass = "w-full p-4 rounded-2xl bg-white/10 border border-white/20 text-2xl";
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="profiles-heading" className="fixed inset-0 z-[60] bg-zinc-950 text-white overflow-y-auto p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="profiles-heading" ref={headingRef} tabIndex={-1} className="text-4xl font-black uppercase tracking-tighter italic text-yellow-400">
+            {draft ? m.editHeading(draft.name) : m.heading}
+          </h2>
+          <button onClick={draft ? () => setDraft(null) : onClose} className={`${buttonClass} bg-yellow-400 text-black`}>
+            {draft ? m.back : m.close}
+          </button>
+        </div>
+
+        <p role="status" className="text-xl text-zinc-300 min-h-[1.75rem]">{status}</p>
+
+        {!draft && (
+          <ul className="space-y-3">
+            {profiles.map(p => (
+              <li key={p.id} className="p-5 rounded-2xl bg-white/5 border border-white/10 space-y-3">
+                <button
+                  onClick={() => { onActivate(p); setStatus(m.nowActive(nameOf(p))); }}
+                  aria-pressed={p.id === activeId}
+                  className={`${buttonClass} w-full text-start ${p.id === activeId ? 'bg-yellow-400 text-black' : 'bg-white/10'}`}
+                >
+                  {nameOf(p)}{p.id === activeId ? m.active : ''}
+                </button>
+                <div className="flex flex-wrap gap-3">
+                  {/* Built-ins are edited under their translated name, which becomes theirs once saved. */}
+                  <button onClick={() => setDraft({ ...p, name: nameOf(p) })} className={`${buttonClass} bg-white/10`} aria-label={m.editHeading(nameOf(p))}>{m.edit}</button>
+                  <button onClick={() => setDraft(duplicateProfile(p, m.copyName(nameOf(p))))} className={`${buttonClass} bg-white/10`} aria-label={`${m.copy}: ${nameOf(p)}`}>{m.copy}</button>
+                  <button onClick={() => remove(p)} className={`${buttonClass} bg-red-700`} aria-label={`${p.builtIn ? m.reset : m.delete}: ${nameOf(p)}`}>
+                    {p.builtIn ? m.reset : m.delete}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {draft && (
+          <form onSubmit={save} className="space-y-4">
+            <label htmlFor="profile-name" className="block text-xl font-bold">{m.name}</label>
+            <input id="profile-name" value={draft.name} onChange={e => edit('name', e.target.value)} className={fieldClass} />
+
+            <label htmlFor="profile-verbosity" className="block text-xl font-bold">{m.verbosity}</label>
+            <select id="profile-verbosity" value={draft.verbosity} onChange={e => edit('verbosity', e.target.value as NarrationVerbosity)} className={fieldClass}>
+              {(Object.keys(m.verbosityLevels) as NarrationVerbosity[]).map(v => <option key={v} value={v}>{m.verbosityLevels[v]}</option>)}
+            </select>
+
+            <label htmlFor="profile-quiet" className="block text-xl font-bold">{m.quietUpdates}</label>
+            <input
+              id="profile-quiet"
+              type="number"
+              min={0}
+              max={120}
+              value={draft.quietUpdateSeconds ?? 0}
+              onChange={e => edit('quietUpdateSeconds', Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+              className={fieldClass}
+            />
+
+            <label htmlFor="profile-language" className="block text-xl font-bold">{m.language}</label>
+            <select id="profile-language" value={draft.language} onChange={e => edit('language', e.target.value)} className={fieldClass}>
+              <option value="">{m.sameAsApp}</option>
+              {LANGUAGES.map(l => <option key={l.code} value={l.code}>{languageNames.of(l.code) ?? l.name}</option>)}
+            </select>
+
+            <label htmlFor="profile-voice" className="block text-xl font-bold">{m.voice}</label>
+            <select id="profile-voice" value={draft.voice} onChange={e => edit('voice', e.target.value)} className={fieldClass}>
+              <option value="">{m.defaultVoice}</option>
+              {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+
+            <label htmlFor="profile-rate" className="block text-xl font-bold">{m.speakingRate(draft.speakingRate.toFixed(2))}</label>
+            <input
+              id="profile-rate"
+              type="range"
+              min={0.5}
+              max={1.5}
+              step={0.05}
+              value={draft.speakingRate}
+              onChange={e => edit('speakingRate', Number(e.target.value))}
+              className="w-full"
+            />
+
+            <fieldset className="space-y-2">
+              <legend className="text-xl font-bold mb-2">{m.alarmFor}</legend>
+              {HAZARD_KINDS.map(kind => (
+                <label key={kind} className="flex items-center gap-4 text-2xl capitalize">
+                  <input type="checkbox" checked={draft.alarmKinds.includes(kind)} onChange={() => toggleKind(kind)} className="w-8 h-8" />
+                  {messages.hazards.kinds[kind] ?? kind}
+                </label>
+              ))}
+            </fieldset>
+
+            <label htmlFor="profile-focus" className="block text-xl font-bold">{m.extraInstructions}</label>
+            <textarea id="profile-focus" value={draft.focus} onChange={e => edit('focus', e.target.value)} rows={4} className={fieldClass} />
+
+            <button type="submit" disabled={!draft.name.trim()} className={`${buttonClass} w-full bg-yellow-400 text-black disabled:opacity-40`}>
+              {m.save}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
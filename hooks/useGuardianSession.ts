@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { SessionStatus, HazardReport } from '../types';
+import { LiveGuardianSession } from '../utils/guardianSession';
+
+export interface GuardianSessionState {
+  session: LiveGuardianSession;
+  status: SessionStatus;
+  error: string | null;
+  announcement: string;
+  hazard: HazardReport | null;
+  narration: string;
+}
+
+/**
+ * Creates a guardian session once for the component's lifetime and mirrors its
+ * events into React state. The session is stopped on unmount.
+ */
+export function useGuardianSession(create: () => LiveGuardianSession): GuardianSessionState {
+  const [session] = useState(create);
+  const [status, setStatus] = useState(session.status);
+  const [error, setError] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [hazard, setHazard] = useState<HazardReport | null>(session.alert);
+  const [narration, setNarration] = useState("");
+
+  useEffect(() => {
+    const unsubscribe = [
+      session.on('status', setStatus),
+      session.on('error', setError),
+      session.on('announcement', setAnnouncement),
+      session.on('alert', setHazard),
+      session.on('narration', setNarration),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [session]);
+
+  useEffect(() => () => session.stop(), [session]);
+
+  return { session, status, error, announcement, hazard, narration };
+}
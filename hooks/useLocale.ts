@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+import { Locale, Messages, getMessages } from '../utils/i18n';
+
+export interface LocaleState {
+  locale: Locale;
+  messages: Messages;
+}
+
+export const LocaleContext = createContext<LocaleState>({ locale: 'en', messages: getMessages('en') });
+
+/** The app's current language and its strings, for panels rendered inside `LocaleContext`. */
+export function useLocale(): LocaleState {
+  return useContext(LocaleContext);
+}
@@ -0,0 +1,55 @@
+import { useEffect } from 'react';
+import { SessionStatus } from '../types';
+import { frameIntervalScale, LowBatteryWarner, watchBattery } from '../utils/battery';
+import { LiveGuardianSession, isRunning } from '../utils/guardianSession';
+import { ScreenWakeLock } from '../utils/wakeLock';
+
+/**
+ * Keeps a walk going on a phone: the screen stays on, camera work pauses while
+ * the page is hidden, and frames slow down as the battery runs low.
+ */
+export function usePowerManagement(session: LiveGuardianSession, status: SessionStatus): void {
+  const running = isRunning(status);
+
+  // Held while reconnecting and in reduced mode too: the camera is still looking out for the user.
+  useEffect(() => {
+    if (!running) return;
+    const lock = new ScreenWakeLock();
+    lock.acquire();
+    return () => lock.release();
+  }, [running]);
+
+  useEffect(() => {
+    if (!running) return;
+    const onVisibilityChange = () => {
+      const hidden = document.visibilityState === 'hidden';
+      session.setFramesPaused(hidden);
+      session.announce(hidden ? session.messages.power.hidden : session.messages.power.visible);
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      session.setFramesPaused(false);
+    };
+  }, [running, session]);
+
+  useEffect(() => {
+    if (!running) return;
+    const warner = new LowBatteryWarner();
+    let stopWatching: (() => void) | null = null;
+    let cancelled = false;
+    watchBattery((battery) => {
+      session.setFrameIntervalScale(frameIntervalScale(battery));
+      const warning = warner.check(battery);
+      if (warning) session.announce(session.messages.power.batteryLow(warning.percent, warning.slowed));
+    }).then((stop) => {
+      if (cancelled) stop?.();
+      else stopWatching = stop;
+    });
+    return () => {
+      cancelled = true;
+      stopWatching?.();
+      session.setFrameIntervalScale(1);
+    };
+  }, [running, session]);
+}
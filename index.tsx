@@ -14,3 +14,11 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Caches the app shell so the guardian can be installed and opens without a signal.
+// Production only: in dev the cached worker would serve stale modules over Vite's.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(e => console.warn("Service worker registration failed.", e));
+  });
+}
@@ -0,0 +1,387 @@
+import { HazardSeverity, SessionStatus } from '../types';
+import type { Messages } from './en';
+
+export const ar: Messages = {
+  app: {
+    intro: "حارس DEJA VU جاهز. أراقب المخاطر والكلاب والأشخاص. المس الشاشة للبدء، أو قل ابدأ الحارس.",
+    tagline: "رؤية ذاتية",
+    arm: "تشغيل الحارس",
+    opening: "العين تنفتح...",
+    reducedMode: "الوضع المحدود",
+    reducedModeDetail: "دون اتصال · تحذيرات محلية فقط",
+    reconnecting: "جارٍ إعادة الاتصال...",
+    tapToClose: "المس الشاشة لإغلاق العين",
+    narratingLive: "وصف مباشر",
+    threatDetected: "تم رصد خطر",
+    activeHeading: "نشط",
+    alertHeading: "تنبيه",
+    danger: "خطر",
+    threatAlert: "تنبيه خطر",
+    listenForGuidance: "استمع إلى الإرشاد الصوتي",
+    caution: "انتبه",
+    mainButton: {
+      active: "عين الحارس نشطة وتصف ما حولك. المس الشاشة للإيقاف. اضغط مطولًا لثانيتين لطلب المساعدة.",
+      reconnecting: "الحارس يعيد الاتصال. الكاميرا ما زالت تعمل. المس الشاشة للإيقاف. اضغط مطولًا لثانيتين لطلب المساعدة.",
+      degraded: "وضع القدرات المحدودة. تحذيرات دون اتصال فقط. المس الشاشة للإيقاف. اضغط مطولًا لثانيتين لطلب المساعدة.",
+      idle: "المس الشاشة لتشغيل الحارس البصري الذاتي. اضغط مطولًا لثانيتين لطلب المساعدة.",
+    },
+    sosIn: "استغاثة خلال",
+    tapToCancel: "المس للإلغاء",
+    sosCountdownLabel: (seconds) => `تنبيه طوارئ خلال ${seconds} ثوانٍ. المس للإلغاء.`,
+    profileButton: (name) => `ملف الحارس: ${name}. افتح إعدادات الملف.`,
+    tones: (on) => `النغمات ${on ? 'تعمل' : 'متوقفة'}`,
+    tonesLabel: "نغمات الاتجاه للمخاطر",
+    care: "الرعاية",
+    careOnLabel: "المشاركة مع مقدّم الرعاية مفعّلة. افتح إعدادات مقدّم الرعاية.",
+    careOffLabel: "المشاركة مع مقدّم الرعاية متوقفة. افتح إعدادات مقدّم الرعاية.",
+    sos: "استغاثة",
+    sosLabel: "إدارة جهات اتصال الطوارئ",
+    places: "الأماكن",
+    placesLabel: "إدارة الأماكن المحفوظة",
+    history: "السجل",
+    historyLabel: "افتح سجل الوصف",
+    languageLabel: (name) => `اللغة: ${name}. غيّر اللغة.`,
+    photoQuestions: "أسئلة بالصور",
+    photoLabel: (label) => `${label}: التقط صورة واسأل`,
+    arriving: (place) => `أنت تقترب من ${place}.`,
+    sharingOn: "المشاركة مع مقدّم الرعاية مفعّلة.",
+    sharingOff: "المشاركة مع مقدّم الرعاية متوقفة.",
+    newCode: "تم إنشاء رمز اقتران جديد.",
+    tonesOn: "نغمات الاتجاه تعمل.",
+    tonesOff: "نغمات الاتجاه متوقفة.",
+    helpSent: "تم إرسال طلب المساعدة.",
+    helpFailed: "تعذّر إرسال طلب المساعدة. يُرجى الاتصال لطلب المساعدة.",
+    helpReady: "رسالة طلب المساعدة جاهزة. اضغط على الشاشة لفتحها، ثم اضغط إرسال.",
+    helpSentMoreReady: "تم إرسال طلب المساعدة. هناك رسالة أخرى جاهزة: اضغط على الشاشة لفتحها، ثم اضغط إرسال.",
+    messageReady: "الرسالة جاهزة",
+    tapToOpen: "اضغط للفتح، ثم اضغط إرسال",
+    handoffLabel: "رسالة طلب المساعدة جاهزة. اضغط لفتحها، ثم اضغط إرسال.",
+    dismiss: "تجاهل",
+    sosCountdown: (seconds) => `سيُرسل تنبيه الطوارئ خلال ${seconds} ثوانٍ. قل إلغاء، أو المس الشاشة، للإيقاف.`,
+    sendingHelp: "جارٍ إرسال طلب المساعدة.",
+    sosCancelled: "تم إلغاء تنبيه الطوارئ.",
+    paused: "الوصف متوقف مؤقتًا. قل تابع للمتابعة.",
+    resumed: "استُؤنف الوصف.",
+    quieter: "صوت أخفض.",
+    nothingToRepeat: "لا يوجد ما أكرره بعد.",
+    locationUnavailable: "الموقع غير متاح.",
+    coordinates: (latitude, longitude, accuracy) =>
+      `خط العرض ${latitude}، خط الطول ${longitude}، بدقة تقارب ${accuracy} مترًا.`,
+    languageChanged: (name) => `تم تغيير اللغة إلى ${name}.`,
+  },
+
+  session: {
+    activating: "جارٍ تفعيل الرصد الذاتي للمخاطر.",
+    active: "DEJA VU نشط. أصف لك ما حولك تلقائيًا.",
+    offline: "الحارس متوقف.",
+    reducedMode: "لا أستطيع الوصول إلى خدمة الحارس، لذلك أعمل في وضع القدرات المحدودة. " +
+      "يمكنني فقط التحذير من الظلام المفاجئ، والأشياء الكبيرة المقتربة، والتغيّرات الحادة في الأرض أمامك. " +
+      "سيعود الوصف الكامل تلقائيًا عند عودة الاتصال.",
+    connectionLost: "انقطع الاتصال. جارٍ إعادة الاتصال.",
+    reconnectingAttempt: (attempt) => `انقطع الاتصال. جارٍ إعادة الاتصال، المحاولة ${attempt}.`,
+    backOnline: "عاد الاتصال.",
+    backOnlineWatching: "عاد الاتصال. DEJA VU يراقب من جديد.",
+    fullGuardianBack: "عاد الحارس الكامل. يستمر الوصف.",
+    reconnectGaveUp: "توقفت عن محاولة إعادة الاتصال. تبقى التحذيرات المحلية تعمل. أعد تشغيل الحارس للمحاولة مرة أخرى.",
+    permissionRequired: "يلزم إذن الوصول إلى الكاميرا والميكروفون.",
+    checkPermissions: "تحقّق من الأذونات.",
+    guardianDown: "الحارس معطّل.",
+    guardianUnavailable: "الحارس غير متاح.",
+    snapshotNeedsLink: (label) => `${label} يتطلب أن يكون الحارس متصلًا.`,
+    snapshotFailed: "تعذّر التقاط صورة. يُرجى المحاولة مرة أخرى.",
+    profileActive: (name) => `ملف ${name} نشط.`,
+  },
+
+  snapshot: {
+    'read-text': { label: "قراءة النص", confirmation: "أقرأ النص. ثبّت الهاتف." },
+    'currency': { label: "النقود", confirmation: "أتحقق من النقود. ثبّت الهاتف." },
+    'colour': { label: "اللون", confirmation: "أتحقق من اللون. ثبّت الهاتف." },
+    'describe': { label: "وصف", confirmation: "أصف بالتفصيل. ثبّت الهاتف." },
+  },
+
+  localAlerts: {
+    'darkness': () => "أظلمت الصورة فجأة. قد تكون الكاميرا مغطاة، أو ربما دخلت مكانًا مظلمًا. أبطئ.",
+    'approach': (direction) =>
+      direction === 'front-left' ? "شيء كبير يقترب من يسارك."
+      : direction === 'front-right' ? "شيء كبير يقترب من يمينك."
+      : "شيء كبير يقترب.",
+    'ground-change': () => "تغيّرت الأرض أمامك فجأة. انتبه لوجود درجة أو منحدر.",
+    'reminder': () => "الوضع المحدود. ما زلت أراقب الظلام والأشياء الكبيرة المقتربة والتغيّرات في الأرض.",
+  },
+
+  power: {
+    hidden: "DEJA VU يعمل في الخلفية. فحص الكاميرا متوقف حتى تعود.",
+    visible: "استُؤنف فحص الكاميرا.",
+    batteryLow: (percent, slowed) => slowed
+      ? `البطارية منخفضة، ${percent} بالمئة. سأفحص الكاميرا بوتيرة أقل لتوفير الطاقة.`
+      : `البطارية منخفضة، ${percent} بالمئة.`,
+  },
+
+  caregiver: {
+    message: (text) => `رسالة من مقدّم الرعاية: ${text}`,
+    connected: "اتصل مقدّم رعاية الآن.",
+    disconnected: "لا يوجد مقدّم رعاية متصل الآن.",
+    heading: "المشاركة مع مقدّم الرعاية",
+    close: "إغلاق",
+    explanation: "أثناء تفعيل المشاركة، يستطيع أي شخص لديه رمز الاقتران متابعة حالتك والوصف والمخاطر وموقعك، وإرسال رسائل منطوقة إليك. ستسمع تنبيهًا عندما يتصل أحد.",
+    pairingCode: "رمز الاقتران",
+    pairingCodeLabel: (spelled) => `رمز الاقتران: ${spelled}`,
+    newCode: "رمز جديد",
+    newCodeLabel: "أنشئ رمز اقتران جديدًا. سيُفصل مقدّمو الرعاية الذين يستخدمون الرمز القديم.",
+    relayAddress: "عنوان المُرحِّل",
+    start: "ابدأ المشاركة",
+    stop: "أوقف المشاركة",
+    linkStates: {
+      connecting: "جارٍ الاتصال بالمُرحِّل",
+      open: "متصل بالمُرحِّل",
+      reconnecting: "تعذّر الوصول إلى المُرحِّل، جارٍ إعادة المحاولة",
+      closed: "المشاركة متوقفة",
+    },
+    caregiverCount: (count) =>
+      count === 0 ? "لا يوجد مقدّم رعاية متصل" : count === 1 ? "مقدّم رعاية واحد متصل" : `${count} من مقدّمي الرعاية متصلون`,
+  },
+
+  dashboard: {
+    intro: "اطلب من الشخص الذي ترافقه تفعيل المشاركة مع مقدّم الرعاية وقراءة رمز الاقتران لك.",
+    pairingCode: "رمز الاقتران",
+    relayAddress: "عنوان المُرحِّل",
+    connect: "اتصال",
+    disconnect: "قطع الاتصال",
+    badCode: "لا يبدو هذا رمز اقتران. يتكون من ثمانية أحرف وأرقام، مثل ABCD-2345.",
+    badRelay: "عنوان المُرحِّل ليس رابطًا صالحًا.",
+    status: {
+      [SessionStatus.IDLE]: "الحارس متوقف",
+      [SessionStatus.CONNECTING]: "جارٍ البدء",
+      [SessionStatus.ACTIVE]: "نشط، يصف",
+      [SessionStatus.RECONNECTING]: "جارٍ إعادة الاتصال",
+      [SessionStatus.DEGRADED]: "الوضع المحدود، تحذيرات دون اتصال فقط",
+      [SessionStatus.ERROR]: "خطأ",
+    },
+    linkStates: {
+      connecting: "جارٍ الاتصال بالمُرحِّل…",
+      open: "متصل بالمُرحِّل",
+      reconnecting: "تعذّر الوصول إلى المُرحِّل، جارٍ إعادة المحاولة…",
+      closed: "غير متصل",
+    },
+    guardianOffline: "تطبيق الحارس غير متصل",
+    waitingForStatus: "في انتظار الحالة…",
+    since: (time) => `منذ ${time}`,
+    location: "الموقع",
+    accuracy: (meters) => `بدقة تقارب ${meters} م`,
+    moving: (speed) => ` · يتحرك بسرعة ${speed} م/ث`,
+    fromCache: " · من الذاكرة المؤقتة",
+    openMap: "افتح الخريطة",
+    noLocation: "لا يوجد موقع بعد.",
+    hazards: "المخاطر",
+    noHazards: "لم يُبلَّغ عن شيء.",
+    speak: "تحدّث إلى المستخدم",
+    send: "إرسال",
+    sent: (text) => `أُرسلت: "${text}"`,
+    sentUnheard: "أُرسلت، لكن تطبيق الحارس غير متصل، لذلك لن تُسمع.",
+    notConnected: "غير متصل بالمُرحِّل. حاول مرة أخرى بعد قليل.",
+    narration: "الوصف",
+    noNarration: "لم يُوصف شيء بعد.",
+    guardian: "الحارس",
+    user: "المستخدم",
+  },
+
+  history: {
+    heading: "سجل الوصف",
+    walkOn: (date) => `نزهة في ${date}`,
+    back: "رجوع",
+    close: "إغلاق",
+    loading: "جارٍ التحميل…",
+    empty: "لا توجد نزهات مسجلة بعد.",
+    exportJson: "تصدير JSON",
+    exportText: "تصدير نص",
+    silentWalk: "لم يُقل شيء خلال هذه النزهة.",
+    guardian: "الحارس",
+    you: "أنت",
+    logHeading: (started, ended) => `سجل مشي DEJA VU، بدأ ${started}` + (ended ? `، وانتهى ${ended}` : ''),
+    replay: "إعادة",
+    replayLabel: (text) => `إعادة: ${text}`,
+  },
+
+  places: {
+    heading: "الأماكن المحفوظة",
+    close: "إغلاق",
+    nameThisSpot: "سمِّ هذا المكان",
+    placeholder: "مثلًا موقف الحافلة في الشارع الرئيسي",
+    save: "احفظ الموقع الحالي",
+    finding: "جارٍ تحديد موقعك…",
+    saved: (label, accuracy) => `تم حفظ ${label}، بدقة تقارب ${accuracy} مترًا.`,
+    noPosition: "تعذّر تحديد موقعك.",
+    distance: (place, meters, direction) => `${place} على بعد ${meters} مترًا ${direction}.`,
+    atClock: (hour) => `باتجاه الساعة ${hour}`,
+    compass: ['شمالًا', 'إلى الشمال الشرقي', 'شرقًا', 'إلى الجنوب الشرقي', 'جنوبًا', 'إلى الجنوب الغربي', 'غربًا', 'إلى الشمال الغربي'],
+    removed: (label) => `تمت إزالة ${label}.`,
+    empty: "لا توجد أماكن محفوظة بعد.",
+    howFar: "كم تبعد",
+    howFarLabel: (label) => `كم يبعد ${label}`,
+    remove: "إزالة",
+    removeLabel: (label) => `إزالة ${label}`,
+  },
+
+  contacts: {
+    heading: "جهات اتصال الطوارئ",
+    close: "إغلاق",
+    explanation: "اضغط مطولًا على الشاشة لثانيتين أو قل \"اطلب المساعدة\" لبدء الاستغاثة. إن لم تكن هناك جهات اتصال، تختار أنت مع من تشاركها.",
+    name: "الاسم",
+    sendBy: "الإرسال عبر",
+    channels: { sms: "رسالة نصية", email: "بريد إلكتروني", webhook: "رابط Webhook" },
+    add: "إضافة جهة اتصال",
+    added: (name) => `تمت إضافة ${name}.`,
+    removed: (name) => `تمت إزالة ${name}.`,
+    empty: "لا توجد جهات اتصال للطوارئ بعد.",
+    remove: "إزالة",
+    removeLabel: (name) => `إزالة ${name}`,
+  },
+
+  profiles: {
+    heading: "ملفات الحارس",
+    editHeading: (name) => `تعديل ${name || 'الملف'}`,
+    back: "رجوع",
+    close: "إغلاق",
+    active: " · نشط",
+    nowActive: (name) => `${name} نشط الآن.`,
+    saved: (name) => `تم حفظ ${name}.`,
+    reset: "استعادة",
+    wasReset: (name) => `تمت استعادة ${name}.`,
+    delete: "حذف",
+    deleted: (name) => `تم حذف ${name}.`,
+    edit: "تعديل",
+    copy: "نسخ",
+    copyName: (name) => `${name} (نسخة)`,
+    name: "الاسم",
+    verbosity: "مستوى تفاصيل الوصف",
+    verbosityLevels: { minimal: "أدنى", standard: "عادي", detailed: "مفصّل" },
+    quietUpdates: "تحديث في المشاهد الهادئة كل (ثوانٍ، 0 لعدم التحديث)",
+    language: "اللغة",
+    sameAsApp: "مثل لغة التطبيق",
+    voice: "الصوت",
+    defaultVoice: "الصوت الافتراضي للغة",
+    speakingRate: (rate) => `سرعة الكلام: ${rate}`,
+    alarmFor: "أطلق الإنذار عند",
+    extraInstructions: "تعليمات إضافية",
+    save: "حفظ الملف",
+    builtInNames: {
+      street: "المشي في الشارع",
+      crossing: "عبور الشارع",
+      indoor: "داخل مكان هادئ",
+      reading: "القراءة",
+    },
+  },
+
+  language: {
+    heading: "اللغة",
+    close: "إغلاق",
+    automatic: (name) => `تلقائي (${name})`,
+    explanation: "تحدد لغة الشاشة والرسائل المنطوقة والوصف. الخيار التلقائي يتبع لغة جهازك.",
+  },
+
+  diagnostics: {
+    heading: "التشخيص",
+    close: "إغلاق",
+    privacy: "تبقى هذه الأرقام على هذا الجهاز. لا يُرسَل أي شيء إلى أي مكان إلا إذا صدّرت التقرير وشاركته بنفسك.",
+    noSession: "لا توجد جلسة بعد. شغّل الحارس لجمع الأرقام.",
+    exportJson: "تصدير JSON",
+    session: "الجلسة",
+    started: "البدء",
+    runningFor: "مدة التشغيل",
+    seconds: (seconds) => `${seconds} ث`,
+    kilobytes: (kb) => `${kb} KB`,
+    sent: "المُرسَل",
+    frames: "الإطارات",
+    dropped: "المُسقَط",
+    droppedDetail: (stale, overflow, encode) => `${stale} قديم · ${overflow} فائض · ${encode} ترميز`,
+    audio: "الصوت",
+    chunks: (count) => `${count} مقطع`,
+    speechEnds: "نهايات الكلام",
+    narration: "الوصف",
+    frameToAudio: "من الإطار إلى الصوت",
+    audioChunks: "مقاطع الصوت",
+    decodeFailures: "أخطاء فك الترميز",
+    noSamples: "لا توجد عينات",
+    latency: (count, mean, p50, p95, max) => `${count} · المتوسط ${mean} ms · p50 ${p50} ms · p95 ${p95} ms · الأقصى ${max} ms`,
+    tools: "الأدوات",
+    noTools: "لا توجد استدعاءات أدوات بعد.",
+    failed: (count) => `${count} فشل`,
+    link: "الاتصال",
+    connects: "مرات الاتصال",
+    reconnects: "إعادات الاتصال",
+    reconnectsDetail: (reconnects, attempts) => `${reconnects} من ${attempts} محاولة`,
+    reducedMode: "الوضع المحدود",
+    times: (count) => `${count} مرة`,
+    tokens: "الرموز",
+    prompt: "المدخلات",
+    response: "الاستجابة",
+    toolUse: "استخدام الأدوات",
+    thoughts: "التفكير",
+    total: "الإجمالي",
+    tokensIn: (modality) => `مدخلات · ${modality}`,
+    tokensOut: (modality) => `مخرجات · ${modality}`,
+    estimatedCost: "التكلفة التقديرية",
+    costUnset: "اضبط TOKEN_PRICES للتقدير",
+    cost: (usd, unpriced) => unpriced ? `$${usd} + ${unpriced} رمز بلا سعر` : `$${usd}`,
+  },
+
+  hazards: {
+    kinds: {
+      'vehicle': "مركبة",
+      'bicycle': "دراجة",
+      'person': "شخص",
+      'animal': "حيوان",
+      'obstacle': "عائق",
+      'stairs': "درج",
+      'drop-off': "منحدر حاد",
+      'weapon': "سلاح",
+      'other': "أخرى",
+    },
+    directions: {
+      'left': "يسارًا",
+      'front-left': "أمامًا إلى اليسار",
+      'ahead': "أمامك",
+      'front-right': "أمامًا إلى اليمين",
+      'right': "يمينًا",
+      'behind': "خلفك",
+      'unknown': "",
+    },
+    meters: (meters) => `${meters} م`,
+  },
+
+  warningWords: { warning: "تحذير", danger: "خطر" },
+
+  threatKeywords: [
+    { phrase: 'خطر', severity: HazardSeverity.HIGH },
+    { phrase: 'الخطر', severity: HazardSeverity.HIGH },
+    { phrase: 'سكين', severity: HazardSeverity.CRITICAL },
+    { phrase: 'مسدس', severity: HazardSeverity.CRITICAL },
+    { phrase: 'سلاح', severity: HazardSeverity.CRITICAL },
+    { phrase: 'يركض نحوك', severity: HazardSeverity.HIGH },
+    { phrase: 'تراجع', severity: HazardSeverity.HIGH },
+    { phrase: 'يهدد', severity: HazardSeverity.HIGH },
+    { phrase: 'تحذير', severity: HazardSeverity.MEDIUM },
+    { phrase: 'انتبه', severity: HazardSeverity.MEDIUM },
+    { phrase: 'أحد قادم', severity: HazardSeverity.MEDIUM },
+  ],
+
+  voiceCommands: {
+    phrases: {
+      'start': ['ابدأ الحارس', 'شغل الحارس', 'افتح العين', 'افتح عينيك'],
+      'pause': ['أوقف الوصف', 'أوقف الحارس مؤقتا', 'توقف عن الكلام', 'إيقاف مؤقت'],
+      'resume': ['تابع الوصف', 'استأنف الوصف', 'واصل الكلام', 'تابع'],
+      'where-am-i': ['أين أنا', 'ما هو موقعي', 'ما موقعي'],
+      'read-text': ['اقرأ النص', 'اقرأ هذا', 'اقرأ الملصق'],
+      'currency': ['ما هذه النقود', 'تعرف على النقود', 'ما هذه الورقة النقدية', 'عد النقود'],
+      'colour': ['ما لون هذا', 'تعرف على اللون'],
+      'describe': ['صف بالتفصيل', 'صف هذا', 'صف المشهد', 'ماذا أمامي'],
+      'quieter': ['اخفض الصوت', 'أخفض الصوت', 'بصوت أخفض'],
+      'repeat': ['كرر ذلك', 'قلها مرة أخرى', 'كرر'],
+      'stop': ['أوقف الحارس', 'أغلق العين', 'أطفئ الحارس'],
+      'sos': ['اطلب المساعدة', 'أرسل المساعدة', 'طوارئ', 'النجدة', 'ساعدني'],
+      'cancel': ['إلغاء', 'ألغ', 'ألغ المساعدة', 'ألغ الطوارئ', 'أنا بخير'],
+    },
+    fillers: ['يا', 'حسنا', 'من', 'فضلك', 'لو', 'سمحت', 'deja', 'vu', 'الآن'],
+    wakeWord: 'الحارس',
+  },
+};
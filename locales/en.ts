@@ -0,0 +1,396 @@
+import { EmergencyChannel, HazardDirection, HazardSeverity, NarrationVerbosity, SessionStatus } from '../types';
+import type { RelayLinkState } from '../utils/caregiverRelay';
+import type { LocalAlertKind } from '../utils/localGuardian';
+import type { SnapshotMode } from '../utils/snapshot';
+import type { VoiceCommand } from '../utils/voiceCommands';
+
+// The reference catalogue: every other locale must provide the same keys.
+export const en = {
+  app: {
+    intro: "DEJA VU Guardian active. I am watching for threats, dogs, and people. Tap to start, or say start guardian.",
+    tagline: "Autonomous vision",
+    arm: "Arm guardian",
+    opening: "Eye opening...",
+    reducedMode: "Reduced mode",
+    reducedModeDetail: "Offline · local warnings only",
+    reconnecting: "Reconnecting...",
+    tapToClose: "Tap screen to close eye",
+    narratingLive: "Narrating live",
+    threatDetected: "Threat detected",
+    activeHeading: "Active",
+    alertHeading: "Alert",
+    danger: "Danger",
+    threatAlert: "Threat alert",
+    listenForGuidance: "Listen to audio guidance",
+    caution: "Caution",
+    mainButton: {
+      active: "Guardian Eye is Active. Narrating world. Tap screen to stop. Hold for two seconds to call for help.",
+      reconnecting: "Guardian is reconnecting. Camera is still on. Tap screen to stop. Hold for two seconds to call for help.",
+      degraded: "Reduced-capability mode. Offline warnings only. Tap screen to stop. Hold for two seconds to call for help.",
+      idle: "Tap the screen to activate Autonomous Visual Guardian. Hold for two seconds to call for help.",
+    },
+    sosIn: "SOS in",
+    tapToCancel: "Tap to cancel",
+    sosCountdownLabel: (seconds: number) => `Emergency alert in ${seconds} seconds. Tap to cancel.`,
+    profileButton: (name: string) => `Guardian profile: ${name}. Open profile settings.`,
+    tones: (on: boolean) => `Tones ${on ? 'On' : 'Off'}`,
+    tonesLabel: "Direction tones for hazards",
+    care: "Care",
+    careOnLabel: "Caregiver sharing is on. Open caregiver settings.",
+    careOffLabel: "Caregiver sharing is off. Open caregiver settings.",
+    sos: "SOS",
+    sosLabel: "Manage emergency contacts",
+    places: "Places",
+    placesLabel: "Manage saved places",
+    history: "History",
+    historyLabel: "Open narration history",
+    languageLabel: (name: string) => `Language: ${name}. Change language.`,
+    photoQuestions: "Photo questions",
+    photoLabel: (label: string) => `${label}: take a photo and ask`,
+    arriving: (place: string) => `You are arriving at ${place}.`,
+    sharingOn: "Caregiver sharing on.",
+    sharingOff: "Caregiver sharing off.",
+    newCode: "New pairing code made.",
+    tonesOn: "Direction tones on.",
+    tonesOff: "Direction tones off.",
+    helpSent: "Help request sent.",
+    helpFailed: "Could not send the help request. Please call for help.",
+    helpReady: "Help message ready. Tap the screen to open it, then press send.",
+    helpSentMoreReady: "Help request sent. Another message is ready: tap the screen to open it, then press send.",
+    messageReady: "Message ready",
+    tapToOpen: "Tap to open, then press send",
+    handoffLabel: "Help message ready. Tap to open it, then press send.",
+    dismiss: "Dismiss",
+    sosCountdown: (seconds: number) => `Emergency alert will be sent in ${seconds} seconds. Say cancel, or tap the screen, to stop.`,
+    sendingHelp: "Sending help request.",
+    sosCancelled: "Emergency alert cancelled.",
+    paused: "Narration paused. Say resume to continue.",
+    resumed: "Narration resumed.",
+    quieter: "Quieter.",
+    nothingToRepeat: "Nothing to repeat yet.",
+    locationUnavailable: "Location unavailable.",
+    coordinates: (latitude: string, longitude: string, accuracy: number) =>
+      `Latitude ${latitude}, longitude ${longitude}, accurate to about ${accuracy} metres.`,
+    languageChanged: (name: string) => `Language set to ${name}.`,
+  },
+
+  session: {
+    activating: "Activating autonomous threat detection.",
+    active: "DEJA VU is active. I am narrating your world autonomously.",
+    offline: "Guardian offline.",
+    reducedMode: "I can't reach the guardian service, so I'm running in reduced-capability mode. " +
+      "I can only warn about sudden darkness, large things approaching, and sharp changes in the ground ahead. " +
+      "Full narration will come back automatically when the connection returns.",
+    connectionLost: "Connection lost. Reconnecting.",
+    reconnectingAttempt: (attempt: number) => `Connection lost. Reconnecting, attempt ${attempt}.`,
+    backOnline: "Back online.",
+    backOnlineWatching: "Back online. DEJA VU is watching again.",
+    fullGuardianBack: "Full guardian is back online. Narration resumes.",
+    reconnectGaveUp: "I've stopped trying to reconnect. Local warnings stay on. Restart the guardian to try again.",
+    permissionRequired: "Permission required for camera and audio.",
+    checkPermissions: "Check permissions.",
+    guardianDown: "Guardian down.",
+    guardianUnavailable: "Guardian unavailable.",
+    snapshotNeedsLink: (label: string) => `${label} needs the guardian to be connected.`,
+    snapshotFailed: "Could not take a photo. Please try again.",
+    profileActive: (name: string) => `${name} profile active.`,
+  },
+
+  snapshot: {
+    'read-text': { label: "Read text", confirmation: "Reading text. Hold steady." },
+    'currency': { label: "Money", confirmation: "Checking money. Hold steady." },
+    'colour': { label: "Colour", confirmation: "Checking colour. Hold steady." },
+    'describe': { label: "Describe", confirmation: "Describing in detail. Hold steady." },
+  } as Record<SnapshotMode, { label: string; confirmation: string }>,
+
+  localAlerts: {
+    'darkness': () => "The view went dark suddenly. The camera may be covered, or you may have entered a dark place. Slow down.",
+    'approach': (direction: HazardDirection) =>
+      direction === 'front-left' ? "Something large is approaching on your left."
+      : direction === 'front-right' ? "Something large is approaching on your right."
+      : "Something large is approaching.",
+    'ground-change': () => "The ground ahead changed sharply. Check for a step or drop-off.",
+    'reminder': () => "Reduced mode. Still watching for darkness, large approaching objects and changes in the ground.",
+  } as Record<LocalAlertKind, (direction: HazardDirection) => string>,
+
+  power: {
+    hidden: "DEJA VU is in the background. Camera checks are paused until you come back.",
+    visible: "Camera checks resumed.",
+    batteryLow: (percent: number, slowed: boolean) => slowed
+      ? `Battery low, ${percent} percent. I'm checking the camera less often to save power.`
+      : `Battery low, ${percent} percent.`,
+  },
+
+  caregiver: {
+    message: (text: string) => `Message from your caregiver: ${text}`,
+    connected: "A caregiver is now connected.",
+    disconnected: "No caregiver is connected now.",
+    heading: "Caregiver Sharing",
+    close: "Close",
+    explanation: "While sharing is on, anyone with your pairing code can follow your status, narration, hazards and location, and send you spoken messages. You will hear when someone connects.",
+    pairingCode: "Pairing code",
+    pairingCodeLabel: (spelled: string) => `Pairing code: ${spelled}`,
+    newCode: "New code",
+    newCodeLabel: "Make a new pairing code. Caregivers using the old code are disconnected.",
+    relayAddress: "Relay address",
+    start: "Start sharing",
+    stop: "Stop sharing",
+    linkStates: {
+      connecting: "Connecting to relay",
+      open: "Connected to relay",
+      reconnecting: "Relay unreachable, retrying",
+      closed: "Not sharing",
+    } as Record<RelayLinkState, string>,
+    caregiverCount: (count: number) =>
+      count === 0 ? "no caregivers connected" : count === 1 ? "1 caregiver connected" : `${count} caregivers connected`,
+  },
+
+  dashboard: {
+    intro: "Ask the person you're supporting to turn on caregiver sharing and read you their pairing code.",
+    pairingCode: "Pairing code",
+    relayAddress: "Relay address",
+    connect: "Connect",
+    disconnect: "Disconnect",
+    badCode: "That doesn't look like a pairing code. It has eight letters and numbers, like ABCD-2345.",
+    badRelay: "The relay address isn't a valid URL.",
+    status: {
+      [SessionStatus.IDLE]: "Guardian off",
+      [SessionStatus.CONNECTING]: "Starting",
+      [SessionStatus.ACTIVE]: "Active, narrating",
+      [SessionStatus.RECONNECTING]: "Reconnecting",
+      [SessionStatus.DEGRADED]: "Reduced mode, offline warnings only",
+      [SessionStatus.ERROR]: "Error",
+    } as Record<SessionStatus, string>,
+    linkStates: {
+      connecting: "Connecting to relay…",
+      open: "Connected to relay",
+      reconnecting: "Relay unreachable, retrying…",
+      closed: "Disconnected",
+    } as Record<RelayLinkState, string>,
+    guardianOffline: "Guardian app not connected",
+    waitingForStatus: "Waiting for status…",
+    since: (time: string) => `Since ${time}`,
+    location: "Location",
+    accuracy: (meters: number) => `Accurate to about ${meters} m`,
+    moving: (speed: string) => ` · moving at ${speed} m/s`,
+    fromCache: " · from cache",
+    openMap: "Open map",
+    noLocation: "No location yet.",
+    hazards: "Hazards",
+    noHazards: "None reported.",
+    speak: "Speak to the user",
+    send: "Send",
+    sent: (text: string) => `Sent: "${text}"`,
+    sentUnheard: "Sent, but the guardian app isn't connected, so it won't be heard.",
+    notConnected: "Not connected to the relay. Try again in a moment.",
+    narration: "Narration",
+    noNarration: "Nothing narrated yet.",
+    guardian: "Guardian",
+    user: "User",
+  },
+
+  history: {
+    heading: "Narration History",
+    walkOn: (date: string) => `Walk on ${date}`,
+    back: "Back",
+    close: "Close",
+    loading: "Loading…",
+    empty: "No walks recorded yet.",
+    exportJson: "Export JSON",
+    exportText: "Export Text",
+    silentWalk: "Nothing was said during this walk.",
+    guardian: "Guardian",
+    you: "You",
+    logHeading: (started: string, ended: string | null) => `DEJA VU walk log, started ${started}` + (ended ? `, ended ${ended}` : ''),
+    replay: "Replay",
+    replayLabel: (text: string) => `Replay: ${text}`,
+  },
+
+  places: {
+    heading: "Saved Places",
+    close: "Close",
+    nameThisSpot: "Name this spot",
+    placeholder: "e.g. bus stop on 5th",
+    save: "Save current location",
+    finding: "Finding your position…",
+    saved: (label: string, accuracy: number) => `Saved ${label}, accurate to about ${accuracy} metres.`,
+    noPosition: "Could not get your position.",
+    distance: (place: string, meters: number, direction: string) => `${place} is ${meters} metres ${direction}.`,
+    atClock: (hour: number) => `at ${hour} o'clock`,
+    compass: ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'],
+    removed: (label: string) => `Removed ${label}.`,
+    empty: "No saved places yet.",
+    howFar: "How far",
+    howFarLabel: (label: string) => `How far to ${label}`,
+    remove: "Remove",
+    removeLabel: (label: string) => `Remove ${label}`,
+  },
+
+  contacts: {
+    heading: "Emergency Contacts",
+    close: "Close",
+    explanation: "Hold the screen for two seconds or say \"call for help\" to start an SOS. With no contacts, you choose who to share it with.",
+    name: "Name",
+    sendBy: "Send by",
+    channels: { sms: "Text message", email: "Email", webhook: "Webhook URL" } as Record<EmergencyChannel, string>,
+    add: "Add contact",
+    added: (name: string) => `Added ${name}.`,
+    removed: (name: string) => `Removed ${name}.`,
+    empty: "No emergency contacts yet.",
+    remove: "Remove",
+    removeLabel: (name: string) => `Remove ${name}`,
+  },
+
+  profiles: {
+    heading: "Guardian Profiles",
+    editHeading: (name: string) => `Edit ${name || 'profile'}`,
+    back: "Back",
+    close: "Close",
+    active: " · Active",
+    nowActive: (name: string) => `${name} is now active.`,
+    saved: (name: string) => `Saved ${name}.`,
+    reset: "Reset",
+    wasReset: (name: string) => `Reset ${name}.`,
+    delete: "Delete",
+    deleted: (name: string) => `Deleted ${name}.`,
+    edit: "Edit",
+    copy: "Copy",
+    copyName: (name: string) => `${name} (copy)`,
+    name: "Name",
+    verbosity: "Narration detail",
+    verbosityLevels: { minimal: "Minimal", standard: "Standard", detailed: "Detailed" } as Record<NarrationVerbosity, string>,
+    quietUpdates: "Update in quiet scenes every (seconds, 0 for never)",
+    language: "Language",
+    sameAsApp: "Same as the app",
+    voice: "Voice",
+    defaultVoice: "Default for the language",
+    speakingRate: (rate: string) => `Speaking rate: ${rate}`,
+    alarmFor: "Raise the alarm for",
+    extraInstructions: "Extra instructions",
+    save: "Save profile",
+    builtInNames: {
+      street: "Street walking",
+      crossing: "Street crossing",
+      indoor: "Quiet indoor",
+      reading: "Reading",
+    } as Record<string, string>,
+  },
+
+  language: {
+    heading: "Language",
+    close: "Close",
+    automatic: (name: string) => `Automatic (${name})`,
+    explanation: "Sets the language of the screen, spoken messages and narration. Automatic follows your device.",
+  },
+
+  diagnostics: {
+    heading: "Diagnostics",
+    close: "Close",
+    privacy: "These numbers stay on this device. Nothing is sent anywhere unless you export the report and share it yourself.",
+    noSession: "No session yet. Start the guardian to collect numbers.",
+    exportJson: "Export JSON",
+    session: "Session",
+    started: "Started",
+    runningFor: "Running for",
+    seconds: (seconds: number) => `${seconds} s`,
+    kilobytes: (kb: string) => `${kb} KB`,
+    sent: "Sent",
+    frames: "Frames",
+    dropped: "Dropped",
+    droppedDetail: (stale: number, overflow: number, encode: number) => `${stale} stale · ${overflow} overflow · ${encode} encode`,
+    audio: "Audio",
+    chunks: (count: number) => `${count} chunks`,
+    speechEnds: "Speech ends",
+    narration: "Narration",
+    frameToAudio: "Frame to audio",
+    audioChunks: "Audio chunks",
+    decodeFailures: "Decode failures",
+    noSamples: "no samples",
+    latency: (count: number, mean: number, p50: number, p95: number, max: number) => `${count} · mean ${mean} ms · p50 ${p50} ms · p95 ${p95} ms · max ${max} ms`,
+    tools: "Tools",
+    noTools: "No tool calls yet.",
+    failed: (count: number) => `${count} failed`,
+    link: "Link",
+    connects: "Connects",
+    reconnects: "Reconnects",
+    reconnectsDetail: (reconnects: number, attempts: number) => `${reconnects} of ${attempts} attempts`,
+    reducedMode: "Reduced mode",
+    times: (count: number) => `${count} times`,
+    tokens: "Tokens",
+    prompt: "Prompt",
+    response: "Response",
+    toolUse: "Tool use",
+    thoughts: "Thoughts",
+    total: "Total",
+    tokensIn: (modality: string) => `In · ${modality}`,
+    tokensOut: (modality: string) => `Out · ${modality}`,
+    estimatedCost: "Estimated cost",
+    costUnset: "set TOKEN_PRICES to estimate",
+    cost: (usd: string, unpriced: number) => unpriced ? `$${usd} + ${unpriced} unpriced tokens` : `$${usd}`,
+  },
+
+  hazards: {
+    kinds: {
+      'vehicle': "vehicle",
+      'bicycle': "bicycle",
+      'person': "person",
+      'animal': "animal",
+      'obstacle': "obstacle",
+      'stairs': "stairs",
+      'drop-off': "drop-off",
+      'weapon': "weapon",
+      'other': "other",
+    } as Record<string, string>,
+    directions: {
+      'left': "left",
+      'front-left': "front left",
+      'ahead': "ahead",
+      'front-right': "front right",
+      'right': "right",
+      'behind': "behind",
+      'unknown': "",
+    } as Record<HazardDirection, string>,
+    meters: (meters: number) => `${meters} m`,
+  },
+
+  /** Words the model is told to open a spoken warning with; the keyword fallback listens for them. */
+  warningWords: { warning: "WARNING", danger: "DANGER" },
+
+  // Fallback only: used when the model speaks a warning without calling report_hazard.
+  threatKeywords: [
+    { phrase: 'danger', severity: HazardSeverity.HIGH },
+    { phrase: 'knife', severity: HazardSeverity.CRITICAL },
+    { phrase: 'gun', severity: HazardSeverity.CRITICAL },
+    { phrase: 'weapon', severity: HazardSeverity.CRITICAL },
+    { phrase: 'running at you', severity: HazardSeverity.HIGH },
+    { phrase: 'charging', severity: HazardSeverity.HIGH },
+    { phrase: 'get back', severity: HazardSeverity.HIGH },
+    { phrase: 'stop', severity: HazardSeverity.MEDIUM, notIn: ['bus stop', 'stop sign', 'stop light', 'full stop'] },
+    { phrase: 'threatening', severity: HazardSeverity.HIGH },
+    { phrase: 'warning', severity: HazardSeverity.MEDIUM },
+    { phrase: 'someone coming', severity: HazardSeverity.MEDIUM },
+  ],
+
+  voiceCommands: {
+    phrases: {
+      'start': ['start guardian', 'activate guardian', 'open eye', 'open your eyes'],
+      'pause': ['pause narration', 'pause guardian', 'stop talking', 'pause'],
+      'resume': ['resume narration', 'continue narration', 'keep talking', 'resume'],
+      'where-am-i': ['where am i', 'what is my location', 'what\'s my location'],
+      'read-text': ['read text', 'read the text', 'read this', 'read that', 'read the label'],
+      'currency': ['what money is this', 'identify money', 'identify currency', 'which note is this', 'count the money'],
+      'colour': ['what colour is this', 'what color is this', 'identify colour', 'identify color'],
+      'describe': ['describe in detail', 'describe this', 'describe the scene', 'what is in front of me'],
+      'quieter': ['be quieter', 'quieter', 'volume down', 'lower the volume'],
+      'repeat': ['repeat that', 'say that again', 'repeat'],
+      'stop': ['stop guardian', 'close eye', 'turn off guardian', 'shut down guardian'],
+      'sos': ['call for help', 'send help', 'emergency', 'help me'],
+      'cancel': ['cancel', 'cancel help', 'cancel emergency', 'i am okay', 'i\'m okay', 'i\'m ok'],
+    } as Record<VoiceCommand, string[]>,
+    // Words that may pad a command without counting against it: "hey guardian, pause please".
+    fillers: ['hey', 'ok', 'okay', 'please', 'deja', 'vu', 'now'],
+    wakeWord: 'guardian',
+  },
+};
+
+export type Messages = typeof en;
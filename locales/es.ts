@@ -0,0 +1,387 @@
+import { HazardSeverity, SessionStatus } from '../types';
+import type { Messages } from './en';
+
+export const es: Messages = {
+  app: {
+    intro: "DEJA VU Guardián activo. Estoy atento a amenazas, perros y personas. Toca la pantalla para empezar, o di empieza guardián.",
+    tagline: "Visión autónoma",
+    arm: "Activar guardián",
+    opening: "Abriendo el ojo...",
+    reducedMode: "Modo reducido",
+    reducedModeDetail: "Sin conexión · solo avisos locales",
+    reconnecting: "Reconectando...",
+    tapToClose: "Toca la pantalla para cerrar el ojo",
+    narratingLive: "Narrando en directo",
+    threatDetected: "Amenaza detectada",
+    activeHeading: "Activo",
+    alertHeading: "Alerta",
+    danger: "Peligro",
+    threatAlert: "Alerta de amenaza",
+    listenForGuidance: "Escucha las indicaciones",
+    caution: "Precaución",
+    mainButton: {
+      active: "El ojo guardián está activo y narrando. Toca la pantalla para detenerlo. Mantén pulsado dos segundos para pedir ayuda.",
+      reconnecting: "El guardián se está reconectando. La cámara sigue encendida. Toca la pantalla para detenerlo. Mantén pulsado dos segundos para pedir ayuda.",
+      degraded: "Modo de capacidad reducida. Solo avisos sin conexión. Toca la pantalla para detenerlo. Mantén pulsado dos segundos para pedir ayuda.",
+      idle: "Toca la pantalla para activar el guardián visual autónomo. Mantén pulsado dos segundos para pedir ayuda.",
+    },
+    sosIn: "SOS en",
+    tapToCancel: "Toca para cancelar",
+    sosCountdownLabel: (seconds) => `Alerta de emergencia en ${seconds} segundos. Toca para cancelar.`,
+    profileButton: (name) => `Perfil del guardián: ${name}. Abrir ajustes de perfil.`,
+    tones: (on) => `Tonos ${on ? 'sí' : 'no'}`,
+    tonesLabel: "Tonos de dirección para peligros",
+    care: "Cuidador",
+    careOnLabel: "Compartir con cuidadores está activado. Abrir ajustes de cuidadores.",
+    careOffLabel: "Compartir con cuidadores está desactivado. Abrir ajustes de cuidadores.",
+    sos: "SOS",
+    sosLabel: "Gestionar contactos de emergencia",
+    places: "Lugares",
+    placesLabel: "Gestionar lugares guardados",
+    history: "Historial",
+    historyLabel: "Abrir el historial de narración",
+    languageLabel: (name) => `Idioma: ${name}. Cambiar idioma.`,
+    photoQuestions: "Preguntas con foto",
+    photoLabel: (label) => `${label}: hacer una foto y preguntar`,
+    arriving: (place) => `Estás llegando a ${place}.`,
+    sharingOn: "Compartir con cuidadores activado.",
+    sharingOff: "Compartir con cuidadores desactivado.",
+    newCode: "Nuevo código de emparejamiento creado.",
+    tonesOn: "Tonos de dirección activados.",
+    tonesOff: "Tonos de dirección desactivados.",
+    helpSent: "Petición de ayuda enviada.",
+    helpFailed: "No se pudo enviar la petición de ayuda. Por favor, pide ayuda.",
+    helpReady: "Mensaje de ayuda listo. Toca la pantalla para abrirlo y pulsa enviar.",
+    helpSentMoreReady: "Petición de ayuda enviada. Hay otro mensaje listo: toca la pantalla para abrirlo y pulsa enviar.",
+    messageReady: "Mensaje listo",
+    tapToOpen: "Toca para abrir y pulsa enviar",
+    handoffLabel: "Mensaje de ayuda listo. Toca para abrirlo y pulsa enviar.",
+    dismiss: "Descartar",
+    sosCountdown: (seconds) => `La alerta de emergencia se enviará en ${seconds} segundos. Di cancelar, o toca la pantalla, para detenerla.`,
+    sendingHelp: "Enviando petición de ayuda.",
+    sosCancelled: "Alerta de emergencia cancelada.",
+    paused: "Narración en pausa. Di continúa para seguir.",
+    resumed: "Narración reanudada.",
+    quieter: "Más bajo.",
+    nothingToRepeat: "Todavía no hay nada que repetir.",
+    locationUnavailable: "Ubicación no disponible.",
+    coordinates: (latitude, longitude, accuracy) =>
+      `Latitud ${latitude}, longitud ${longitude}, con una precisión de unos ${accuracy} metros.`,
+    languageChanged: (name) => `Idioma cambiado a ${name}.`,
+  },
+
+  session: {
+    activating: "Activando la detección autónoma de amenazas.",
+    active: "DEJA VU está activo. Estoy narrando tu entorno de forma autónoma.",
+    offline: "Guardián desconectado.",
+    reducedMode: "No puedo conectar con el servicio del guardián, así que funciono en modo de capacidad reducida. " +
+      "Solo puedo avisar de oscuridad repentina, objetos grandes que se acercan y cambios bruscos en el suelo. " +
+      "La narración completa volverá sola cuando vuelva la conexión.",
+    connectionLost: "Conexión perdida. Reconectando.",
+    reconnectingAttempt: (attempt) => `Conexión perdida. Reconectando, intento ${attempt}.`,
+    backOnline: "Conexión recuperada.",
+    backOnlineWatching: "Conexión recuperada. DEJA VU vuelve a vigilar.",
+    fullGuardianBack: "El guardián completo vuelve a estar disponible. Continúa la narración.",
+    reconnectGaveUp: "He dejado de intentar reconectar. Los avisos locales siguen activos. Reinicia el guardián para volver a intentarlo.",
+    permissionRequired: "Se necesita permiso para la cámara y el micrófono.",
+    checkPermissions: "Revisa los permisos.",
+    guardianDown: "Guardián caído.",
+    guardianUnavailable: "Guardián no disponible.",
+    snapshotNeedsLink: (label) => `${label} necesita que el guardián esté conectado.`,
+    snapshotFailed: "No se pudo hacer la foto. Inténtalo de nuevo.",
+    profileActive: (name) => `Perfil ${name} activo.`,
+  },
+
+  snapshot: {
+    'read-text': { label: "Leer texto", confirmation: "Leyendo texto. No te muevas." },
+    'currency': { label: "Dinero", confirmation: "Comprobando el dinero. No te muevas." },
+    'colour': { label: "Color", confirmation: "Comprobando el color. No te muevas." },
+    'describe': { label: "Describir", confirmation: "Describiendo con detalle. No te muevas." },
+  },
+
+  localAlerts: {
+    'darkness': () => "La imagen se ha oscurecido de repente. Puede que la cámara esté tapada o que hayas entrado en un sitio oscuro. Ve más despacio.",
+    'approach': (direction) =>
+      direction === 'front-left' ? "Algo grande se acerca por tu izquierda."
+      : direction === 'front-right' ? "Algo grande se acerca por tu derecha."
+      : "Algo grande se acerca.",
+    'ground-change': () => "El suelo de delante ha cambiado bruscamente. Comprueba si hay un escalón o un desnivel.",
+    'reminder': () => "Modo reducido. Sigo atento a la oscuridad, a objetos grandes que se acercan y a cambios en el suelo.",
+  },
+
+  power: {
+    hidden: "DEJA VU está en segundo plano. Las comprobaciones de la cámara están en pausa hasta que vuelvas.",
+    visible: "Comprobaciones de la cámara reanudadas.",
+    batteryLow: (percent, slowed) => slowed
+      ? `Batería baja, ${percent} por ciento. Revisaré la cámara con menos frecuencia para ahorrar energía.`
+      : `Batería baja, ${percent} por ciento.`,
+  },
+
+  caregiver: {
+    message: (text) => `Mensaje de tu cuidador: ${text}`,
+    connected: "Un cuidador se ha conectado.",
+    disconnected: "Ya no hay ningún cuidador conectado.",
+    heading: "Compartir con cuidadores",
+    close: "Cerrar",
+    explanation: "Mientras compartes, cualquiera con tu código de emparejamiento puede seguir tu estado, la narración, los peligros y tu ubicación, y enviarte mensajes hablados. Oirás un aviso cuando alguien se conecte.",
+    pairingCode: "Código de emparejamiento",
+    pairingCodeLabel: (spelled) => `Código de emparejamiento: ${spelled}`,
+    newCode: "Nuevo código",
+    newCodeLabel: "Crear un nuevo código de emparejamiento. Los cuidadores con el código anterior se desconectan.",
+    relayAddress: "Dirección del relé",
+    start: "Empezar a compartir",
+    stop: "Dejar de compartir",
+    linkStates: {
+      connecting: "Conectando con el relé",
+      open: "Conectado al relé",
+      reconnecting: "Relé inaccesible, reintentando",
+      closed: "Sin compartir",
+    },
+    caregiverCount: (count) =>
+      count === 0 ? "ningún cuidador conectado" : count === 1 ? "1 cuidador conectado" : `${count} cuidadores conectados`,
+  },
+
+  dashboard: {
+    intro: "Pide a la persona a la que acompañas que active compartir con cuidadores y te lea su código de emparejamiento.",
+    pairingCode: "Código de emparejamiento",
+    relayAddress: "Dirección del relé",
+    connect: "Conectar",
+    disconnect: "Desconectar",
+    badCode: "Eso no parece un código de emparejamiento. Tiene ocho letras y números, como ABCD-2345.",
+    badRelay: "La dirección del relé no es una URL válida.",
+    status: {
+      [SessionStatus.IDLE]: "Guardián apagado",
+      [SessionStatus.CONNECTING]: "Iniciando",
+      [SessionStatus.ACTIVE]: "Activo, narrando",
+      [SessionStatus.RECONNECTING]: "Reconectando",
+      [SessionStatus.DEGRADED]: "Modo reducido, solo avisos sin conexión",
+      [SessionStatus.ERROR]: "Error",
+    },
+    linkStates: {
+      connecting: "Conectando con el relé…",
+      open: "Conectado al relé",
+      reconnecting: "Relé inaccesible, reintentando…",
+      closed: "Desconectado",
+    },
+    guardianOffline: "La app del guardián no está conectada",
+    waitingForStatus: "Esperando el estado…",
+    since: (time) => `Desde las ${time}`,
+    location: "Ubicación",
+    accuracy: (meters) => `Precisión de unos ${meters} m`,
+    moving: (speed) => ` · moviéndose a ${speed} m/s`,
+    fromCache: " · de la caché",
+    openMap: "Abrir mapa",
+    noLocation: "Aún no hay ubicación.",
+    hazards: "Peligros",
+    noHazards: "Ninguno.",
+    speak: "Hablar al usuario",
+    send: "Enviar",
+    sent: (text) => `Enviado: "${text}"`,
+    sentUnheard: "Enviado, pero la app del guardián no está conectada, así que no se oirá.",
+    notConnected: "Sin conexión con el relé. Inténtalo de nuevo en un momento.",
+    narration: "Narración",
+    noNarration: "Todavía no se ha narrado nada.",
+    guardian: "Guardián",
+    user: "Usuario",
+  },
+
+  history: {
+    heading: "Historial de narración",
+    walkOn: (date) => `Paseo del ${date}`,
+    back: "Atrás",
+    close: "Cerrar",
+    loading: "Cargando…",
+    empty: "Aún no hay paseos guardados.",
+    exportJson: "Exportar JSON",
+    exportText: "Exportar texto",
+    silentWalk: "No se dijo nada durante este paseo.",
+    guardian: "Guardián",
+    you: "Tú",
+    logHeading: (started, ended) => `Registro de paseo de DEJA VU, empezó el ${started}` + (ended ? `, terminó el ${ended}` : ''),
+    replay: "Repetir",
+    replayLabel: (text) => `Repetir: ${text}`,
+  },
+
+  places: {
+    heading: "Lugares guardados",
+    close: "Cerrar",
+    nameThisSpot: "Nombre de este sitio",
+    placeholder: "p. ej. parada del autobús de la calle Mayor",
+    save: "Guardar ubicación actual",
+    finding: "Buscando tu posición…",
+    saved: (label, accuracy) => `${label} guardado, con una precisión de unos ${accuracy} metros.`,
+    noPosition: "No se pudo obtener tu posición.",
+    distance: (place, meters, direction) => `${place} está a ${meters} metros ${direction}.`,
+    atClock: (hour) => `a las ${hour}`,
+    compass: ['al norte', 'al noreste', 'al este', 'al sureste', 'al sur', 'al suroeste', 'al oeste', 'al noroeste'],
+    removed: (label) => `${label} eliminado.`,
+    empty: "Aún no hay lugares guardados.",
+    howFar: "A qué distancia",
+    howFarLabel: (label) => `A qué distancia está ${label}`,
+    remove: "Eliminar",
+    removeLabel: (label) => `Eliminar ${label}`,
+  },
+
+  contacts: {
+    heading: "Contactos de emergencia",
+    close: "Cerrar",
+    explanation: "Mantén pulsada la pantalla dos segundos o di \"pide ayuda\" para iniciar un SOS. Sin contactos, eliges tú con quién compartirlo.",
+    name: "Nombre",
+    sendBy: "Enviar por",
+    channels: { sms: "Mensaje de texto", email: "Correo electrónico", webhook: "URL de webhook" },
+    add: "Añadir contacto",
+    added: (name) => `${name} añadido.`,
+    removed: (name) => `${name} eliminado.`,
+    empty: "Aún no hay contactos de emergencia.",
+    remove: "Eliminar",
+    removeLabel: (name) => `Eliminar ${name}`,
+  },
+
+  profiles: {
+    heading: "Perfiles del guardián",
+    editHeading: (name) => `Editar ${name || 'perfil'}`,
+    back: "Atrás",
+    close: "Cerrar",
+    active: " · Activo",
+    nowActive: (name) => `${name} está activo.`,
+    saved: (name) => `${name} guardado.`,
+    reset: "Restablecer",
+    wasReset: (name) => `${name} restablecido.`,
+    delete: "Eliminar",
+    deleted: (name) => `${name} eliminado.`,
+    edit: "Editar",
+    copy: "Copiar",
+    copyName: (name) => `${name} (copia)`,
+    name: "Nombre",
+    verbosity: "Nivel de detalle",
+    verbosityLevels: { minimal: "Mínimo", standard: "Normal", detailed: "Detallado" },
+    quietUpdates: "Avisar en escenas tranquilas cada (segundos, 0 para nunca)",
+    language: "Idioma",
+    sameAsApp: "El mismo que la app",
+    voice: "Voz",
+    defaultVoice: "La predeterminada del idioma",
+    speakingRate: (rate) => `Velocidad de habla: ${rate}`,
+    alarmFor: "Dar la alarma por",
+    extraInstructions: "Instrucciones adicionales",
+    save: "Guardar perfil",
+    builtInNames: {
+      street: "Caminar por la calle",
+      crossing: "Cruzar la calle",
+      indoor: "Interior tranquilo",
+      reading: "Lectura",
+    },
+  },
+
+  language: {
+    heading: "Idioma",
+    close: "Cerrar",
+    automatic: (name) => `Automático (${name})`,
+    explanation: "Cambia el idioma de la pantalla, los mensajes hablados y la narración. Automático sigue el idioma del dispositivo.",
+  },
+
+  diagnostics: {
+    heading: "Diagnóstico",
+    close: "Cerrar",
+    privacy: "Estos datos se quedan en este dispositivo. No se envía nada a ningún sitio salvo que exportes el informe y lo compartas tú.",
+    noSession: "Aún no hay sesión. Activa el guardián para recoger datos.",
+    exportJson: "Exportar JSON",
+    session: "Sesión",
+    started: "Inicio",
+    runningFor: "En marcha",
+    seconds: (seconds) => `${seconds} s`,
+    kilobytes: (kb) => `${kb} KB`,
+    sent: "Enviado",
+    frames: "Fotogramas",
+    dropped: "Descartados",
+    droppedDetail: (stale, overflow, encode) => `${stale} caducados · ${overflow} por exceso · ${encode} por codificación`,
+    audio: "Audio",
+    chunks: (count) => `${count} fragmentos`,
+    speechEnds: "Fines de habla",
+    narration: "Narración",
+    frameToAudio: "De fotograma a audio",
+    audioChunks: "Fragmentos de audio",
+    decodeFailures: "Fallos de decodificación",
+    noSamples: "sin muestras",
+    latency: (count, mean, p50, p95, max) => `${count} · media ${mean} ms · p50 ${p50} ms · p95 ${p95} ms · máx. ${max} ms`,
+    tools: "Herramientas",
+    noTools: "Aún no hay llamadas a herramientas.",
+    failed: (count) => `${count} fallidas`,
+    link: "Conexión",
+    connects: "Conexiones",
+    reconnects: "Reconexiones",
+    reconnectsDetail: (reconnects, attempts) => `${reconnects} de ${attempts} intentos`,
+    reducedMode: "Modo reducido",
+    times: (count) => `${count} veces`,
+    tokens: "Tokens",
+    prompt: "Entrada",
+    response: "Respuesta",
+    toolUse: "Uso de herramientas",
+    thoughts: "Razonamiento",
+    total: "Total",
+    tokensIn: (modality) => `Entrada · ${modality}`,
+    tokensOut: (modality) => `Salida · ${modality}`,
+    estimatedCost: "Coste estimado",
+    costUnset: "define TOKEN_PRICES para estimarlo",
+    cost: (usd, unpriced) => unpriced ? `$${usd} + ${unpriced} tokens sin precio` : `$${usd}`,
+  },
+
+  hazards: {
+    kinds: {
+      'vehicle': "vehículo",
+      'bicycle': "bicicleta",
+      'person': "persona",
+      'animal': "animal",
+      'obstacle': "obstáculo",
+      'stairs': "escaleras",
+      'drop-off': "desnivel",
+      'weapon': "arma",
+      'other': "otro",
+    },
+    directions: {
+      'left': "izquierda",
+      'front-left': "delante a la izquierda",
+      'ahead': "delante",
+      'front-right': "delante a la derecha",
+      'right': "derecha",
+      'behind': "detrás",
+      'unknown': "",
+    },
+    meters: (meters) => `${meters} m`,
+  },
+
+  warningWords: { warning: "CUIDADO", danger: "PELIGRO" },
+
+  threatKeywords: [
+    { phrase: 'peligro', severity: HazardSeverity.HIGH },
+    { phrase: 'cuchillo', severity: HazardSeverity.CRITICAL },
+    { phrase: 'navaja', severity: HazardSeverity.CRITICAL },
+    { phrase: 'pistola', severity: HazardSeverity.CRITICAL },
+    { phrase: 'arma', severity: HazardSeverity.CRITICAL },
+    { phrase: 'corriendo hacia ti', severity: HazardSeverity.HIGH },
+    { phrase: 'se abalanza', severity: HazardSeverity.HIGH },
+    { phrase: 'apártate', severity: HazardSeverity.HIGH },
+    { phrase: 'amenazante', severity: HazardSeverity.HIGH },
+    { phrase: 'cuidado', severity: HazardSeverity.MEDIUM },
+    { phrase: 'alguien se acerca', severity: HazardSeverity.MEDIUM },
+  ],
+
+  voiceCommands: {
+    phrases: {
+      'start': ['empieza guardián', 'activa el guardián', 'abre el ojo', 'abre los ojos'],
+      'pause': ['pausa la narración', 'pausa el guardián', 'deja de hablar', 'pausa'],
+      'resume': ['reanuda la narración', 'continúa la narración', 'sigue hablando', 'continúa'],
+      'where-am-i': ['dónde estoy', 'cuál es mi ubicación'],
+      'read-text': ['lee el texto', 'lee esto', 'lee eso', 'lee la etiqueta'],
+      'currency': ['qué dinero es este', 'identifica el dinero', 'qué billete es este', 'cuenta el dinero'],
+      'colour': ['de qué color es esto', 'qué color es este', 'identifica el color'],
+      'describe': ['describe con detalle', 'describe esto', 'describe la escena', 'qué hay delante de mí'],
+      'quieter': ['más bajo', 'baja el volumen', 'habla más bajo'],
+      'repeat': ['repite eso', 'dilo otra vez', 'repite'],
+      'stop': ['para el guardián', 'cierra el ojo', 'apaga el guardián'],
+      'sos': ['pide ayuda', 'envía ayuda', 'emergencia', 'ayúdame', 'socorro'],
+      'cancel': ['cancelar', 'cancela', 'cancela la ayuda', 'cancela la emergencia', 'estoy bien'],
+    },
+    fillers: ['oye', 'vale', 'por', 'favor', 'vu', 'ya', 'ahora'],
+    wakeWord: 'guardián',
+  },
+};
@@ -0,0 +1,386 @@
+import { HazardSeverity, SessionStatus } from '../types';
+import type { Messages } from './en';
+
+export const hi: Messages = {
+  app: {
+    intro: "DEJA VU गार्डियन तैयार है। मैं खतरों, कुत्तों और लोगों पर नज़र रख रहा हूँ। शुरू करने के लिए स्क्रीन टैप करें, या बोलें गार्डियन शुरू करो।",
+    tagline: "स्वचालित दृष्टि",
+    arm: "गार्डियन चालू करें",
+    opening: "आँख खुल रही है...",
+    reducedMode: "सीमित मोड",
+    reducedModeDetail: "ऑफ़लाइन · केवल स्थानीय चेतावनियाँ",
+    reconnecting: "फिर से जुड़ रहा है...",
+    tapToClose: "आँख बंद करने के लिए स्क्रीन टैप करें",
+    narratingLive: "लाइव वर्णन",
+    threatDetected: "खतरा मिला",
+    activeHeading: "सक्रिय",
+    alertHeading: "चेतावनी",
+    danger: "खतरा",
+    threatAlert: "खतरे की चेतावनी",
+    listenForGuidance: "आवाज़ में दिए निर्देश सुनें",
+    caution: "सावधान",
+    mainButton: {
+      active: "गार्डियन आँख सक्रिय है और आसपास का वर्णन कर रही है। रोकने के लिए स्क्रीन टैप करें। मदद बुलाने के लिए दो सेकंड दबाकर रखें।",
+      reconnecting: "गार्डियन फिर से जुड़ रहा है। कैमरा अभी भी चालू है। रोकने के लिए स्क्रीन टैप करें। मदद बुलाने के लिए दो सेकंड दबाकर रखें।",
+      degraded: "सीमित क्षमता मोड। केवल ऑफ़लाइन चेतावनियाँ। रोकने के लिए स्क्रीन टैप करें। मदद बुलाने के लिए दो सेकंड दबाकर रखें।",
+      idle: "स्वचालित दृष्टि गार्डियन चालू करने के लिए स्क्रीन टैप करें। मदद बुलाने के लिए दो सेकंड दबाकर रखें।",
+    },
+    sosIn: "SOS",
+    tapToCancel: "रद्द करने के लिए टैप करें",
+    sosCountdownLabel: (seconds) => `${seconds} सेकंड में आपातकालीन चेतावनी। रद्द करने के लिए टैप करें।`,
+    profileButton: (name) => `गार्डियन प्रोफ़ाइल: ${name}। प्रोफ़ाइल सेटिंग खोलें।`,
+    tones: (on) => `टोन ${on ? 'चालू' : 'बंद'}`,
+    tonesLabel: "खतरों के लिए दिशा टोन",
+    care: "देखभाल",
+    careOnLabel: "देखभालकर्ता के साथ साझा करना चालू है। देखभालकर्ता सेटिंग खोलें।",
+    careOffLabel: "देखभालकर्ता के साथ साझा करना बंद है। देखभालकर्ता सेटिंग खोलें।",
+    sos: "SOS",
+    sosLabel: "आपातकालीन संपर्क प्रबंधित करें",
+    places: "स्थान",
+    placesLabel: "सहेजे गए स्थान प्रबंधित करें",
+    history: "इतिहास",
+    historyLabel: "वर्णन का इतिहास खोलें",
+    languageLabel: (name) => `भाषा: ${name}। भाषा बदलें।`,
+    photoQuestions: "फ़ोटो वाले सवाल",
+    photoLabel: (label) => `${label}: फ़ोटो लेकर पूछें`,
+    arriving: (place) => `आप ${place} पहुँच रहे हैं।`,
+    sharingOn: "देखभालकर्ता के साथ साझा करना चालू।",
+    sharingOff: "देखभालकर्ता के साथ साझा करना बंद।",
+    newCode: "नया पेयरिंग कोड बनाया गया।",
+    tonesOn: "दिशा टोन चालू।",
+    tonesOff: "दिशा टोन बंद।",
+    helpSent: "मदद का अनुरोध भेज दिया गया।",
+    helpFailed: "मदद का अनुरोध नहीं भेजा जा सका। कृपया मदद के लिए फ़ोन करें।",
+    helpReady: "मदद का संदेश तैयार है। उसे खोलने के लिए स्क्रीन पर टैप करें, फिर भेजें दबाएँ।",
+    helpSentMoreReady: "मदद का अनुरोध भेज दिया गया। एक और संदेश तैयार है: उसे खोलने के लिए स्क्रीन पर टैप करें, फिर भेजें दबाएँ।",
+    messageReady: "संदेश तैयार है",
+    tapToOpen: "खोलने के लिए टैप करें, फिर भेजें दबाएँ",
+    handoffLabel: "मदद का संदेश तैयार है। खोलने के लिए टैप करें, फिर भेजें दबाएँ।",
+    dismiss: "हटाएँ",
+    sosCountdown: (seconds) => `आपातकालीन चेतावनी ${seconds} सेकंड में भेजी जाएगी। रोकने के लिए रद्द करो बोलें, या स्क्रीन टैप करें।`,
+    sendingHelp: "मदद का अनुरोध भेजा जा रहा है।",
+    sosCancelled: "आपातकालीन चेतावनी रद्द कर दी गई।",
+    paused: "वर्णन रुका हुआ है। जारी रखने के लिए आगे बोलो कहें।",
+    resumed: "वर्णन फिर से शुरू।",
+    quieter: "आवाज़ कम की।",
+    nothingToRepeat: "अभी दोहराने के लिए कुछ नहीं है।",
+    locationUnavailable: "स्थान उपलब्ध नहीं है।",
+    coordinates: (latitude, longitude, accuracy) =>
+      `अक्षांश ${latitude}, देशांतर ${longitude}, लगभग ${accuracy} मीटर तक सटीक।`,
+    languageChanged: (name) => `भाषा ${name} कर दी गई है।`,
+  },
+
+  session: {
+    activating: "स्वचालित खतरा पहचान चालू हो रही है।",
+    active: "DEJA VU सक्रिय है। मैं अपने आप आपके आसपास का वर्णन कर रहा हूँ।",
+    offline: "गार्डियन बंद है।",
+    reducedMode: "मैं गार्डियन सेवा से नहीं जुड़ पा रहा हूँ, इसलिए सीमित क्षमता मोड में चल रहा हूँ। " +
+      "मैं केवल अचानक अंधेरे, पास आती बड़ी चीज़ों और आगे ज़मीन में तेज़ बदलाव की चेतावनी दे सकता हूँ। " +
+      "कनेक्शन लौटते ही पूरा वर्णन अपने आप वापस आ जाएगा।",
+    connectionLost: "कनेक्शन टूट गया। फिर से जुड़ रहा है।",
+    reconnectingAttempt: (attempt) => `कनेक्शन टूट गया। फिर से जुड़ रहा है, प्रयास ${attempt}।`,
+    backOnline: "फिर से ऑनलाइन।",
+    backOnlineWatching: "फिर से ऑनलाइन। DEJA VU फिर से नज़र रख रहा है।",
+    fullGuardianBack: "पूरा गार्डियन फिर से ऑनलाइन है। वर्णन जारी है।",
+    reconnectGaveUp: "मैंने दोबारा जुड़ने की कोशिश बंद कर दी है। स्थानीय चेतावनियाँ चालू रहेंगी। फिर से कोशिश करने के लिए गार्डियन को दोबारा शुरू करें।",
+    permissionRequired: "कैमरा और माइक्रोफ़ोन की अनुमति चाहिए।",
+    checkPermissions: "अनुमतियाँ जाँचें।",
+    guardianDown: "गार्डियन बंद पड़ा है।",
+    guardianUnavailable: "गार्डियन उपलब्ध नहीं है।",
+    snapshotNeedsLink: (label) => `${label} के लिए गार्डियन का जुड़ा होना ज़रूरी है।`,
+    snapshotFailed: "फ़ोटो नहीं ली जा सकी। कृपया फिर से कोशिश करें।",
+    profileActive: (name) => `${name} प्रोफ़ाइल सक्रिय।`,
+  },
+
+  snapshot: {
+    'read-text': { label: "लिखा पढ़ें", confirmation: "लिखा हुआ पढ़ रहा हूँ। स्थिर रखें।" },
+    'currency': { label: "पैसे", confirmation: "पैसे जाँच रहा हूँ। स्थिर रखें।" },
+    'colour': { label: "रंग", confirmation: "रंग जाँच रहा हूँ। स्थिर रखें।" },
+    'describe': { label: "वर्णन", confirmation: "विस्तार से वर्णन कर रहा हूँ। स्थिर रखें।" },
+  },
+
+  localAlerts: {
+    'darkness': () => "दृश्य अचानक अंधेरा हो गया। कैमरा ढका हो सकता है, या आप किसी अंधेरी जगह में आ गए हैं। धीरे चलें।",
+    'approach': (direction) =>
+      direction === 'front-left' ? "आपकी बाईं ओर से कुछ बड़ा पास आ रहा है।"
+      : direction === 'front-right' ? "आपकी दाईं ओर से कुछ बड़ा पास आ रहा है।"
+      : "कुछ बड़ा पास आ रहा है।",
+    'ground-change': () => "आगे की ज़मीन अचानक बदल गई है। सीढ़ी या गड्ढे के लिए जाँच करें।",
+    'reminder': () => "सीमित मोड। अब भी अंधेरे, पास आती बड़ी चीज़ों और ज़मीन में बदलाव पर नज़र रख रहा हूँ।",
+  },
+
+  power: {
+    hidden: "DEJA VU पृष्ठभूमि में है। आपके लौटने तक कैमरा जाँच रुकी हुई है।",
+    visible: "कैमरा जाँच फिर से शुरू।",
+    batteryLow: (percent, slowed) => slowed
+      ? `बैटरी कम है, ${percent} प्रतिशत। बिजली बचाने के लिए मैं कैमरा कम बार जाँचूँगा।`
+      : `बैटरी कम है, ${percent} प्रतिशत।`,
+  },
+
+  caregiver: {
+    message: (text) => `आपके देखभालकर्ता का संदेश: ${text}`,
+    connected: "एक देखभालकर्ता अब जुड़ गया है।",
+    disconnected: "अब कोई देखभालकर्ता जुड़ा नहीं है।",
+    heading: "देखभालकर्ता के साथ साझा करना",
+    close: "बंद करें",
+    explanation: "साझा करना चालू रहने पर, आपके पेयरिंग कोड वाला कोई भी व्यक्ति आपकी स्थिति, वर्णन, खतरे और स्थान देख सकता है, और आपको बोले जाने वाले संदेश भेज सकता है। किसी के जुड़ने पर आपको सुनाई देगा।",
+    pairingCode: "पेयरिंग कोड",
+    pairingCodeLabel: (spelled) => `पेयरिंग कोड: ${spelled}`,
+    newCode: "नया कोड",
+    newCodeLabel: "नया पेयरिंग कोड बनाएँ। पुराने कोड वाले देखभालकर्ता डिस्कनेक्ट हो जाएँगे।",
+    relayAddress: "रिले का पता",
+    start: "साझा करना शुरू करें",
+    stop: "साझा करना बंद करें",
+    linkStates: {
+      connecting: "रिले से जुड़ रहा है",
+      open: "रिले से जुड़ा है",
+      reconnecting: "रिले तक नहीं पहुँच पा रहे, फिर से कोशिश हो रही है",
+      closed: "साझा नहीं हो रहा",
+    },
+    caregiverCount: (count) =>
+      count === 0 ? "कोई देखभालकर्ता नहीं जुड़ा" : count === 1 ? "1 देखभालकर्ता जुड़ा है" : `${count} देखभालकर्ता जुड़े हैं`,
+  },
+
+  dashboard: {
+    intro: "जिस व्यक्ति की आप मदद कर रहे हैं, उनसे देखभालकर्ता के साथ साझा करना चालू करने और अपना पेयरिंग कोड पढ़कर सुनाने को कहें।",
+    pairingCode: "पेयरिंग कोड",
+    relayAddress: "रिले का पता",
+    connect: "जोड़ें",
+    disconnect: "डिस्कनेक्ट करें",
+    badCode: "यह पेयरिंग कोड नहीं लगता। इसमें आठ अक्षर और अंक होते हैं, जैसे ABCD-2345।",
+    badRelay: "रिले का पता सही URL नहीं है।",
+    status: {
+      [SessionStatus.IDLE]: "गार्डियन बंद है",
+      [SessionStatus.CONNECTING]: "शुरू हो रहा है",
+      [SessionStatus.ACTIVE]: "सक्रिय, वर्णन कर रहा है",
+      [SessionStatus.RECONNECTING]: "फिर से जुड़ रहा है",
+      [SessionStatus.DEGRADED]: "सीमित मोड, केवल ऑफ़लाइन चेतावनियाँ",
+      [SessionStatus.ERROR]: "त्रुटि",
+    },
+    linkStates: {
+      connecting: "रिले से जुड़ रहा है…",
+      open: "रिले से जुड़ा है",
+      reconnecting: "रिले तक नहीं पहुँच पा रहे, फिर से कोशिश हो रही है…",
+      closed: "डिस्कनेक्ट",
+    },
+    guardianOffline: "गार्डियन ऐप जुड़ा नहीं है",
+    waitingForStatus: "स्थिति का इंतज़ार…",
+    since: (time) => `${time} से`,
+    location: "स्थान",
+    accuracy: (meters) => `लगभग ${meters} मीटर तक सटीक`,
+    moving: (speed) => ` · ${speed} मी/से की रफ़्तार से चल रहे हैं`,
+    fromCache: " · कैश से",
+    openMap: "नक्शा खोलें",
+    noLocation: "अभी कोई स्थान नहीं।",
+    hazards: "खतरे",
+    noHazards: "कोई खतरा नहीं बताया गया।",
+    speak: "उपयोगकर्ता से बात करें",
+    send: "भेजें",
+    sent: (text) => `भेजा गया: "${text}"`,
+    sentUnheard: "भेज दिया, लेकिन गार्डियन ऐप जुड़ा नहीं है, इसलिए यह सुनाई नहीं देगा।",
+    notConnected: "रिले से जुड़े नहीं हैं। थोड़ी देर में फिर कोशिश करें।",
+    narration: "वर्णन",
+    noNarration: "अभी तक कुछ वर्णन नहीं हुआ।",
+    guardian: "गार्डियन",
+    user: "उपयोगकर्ता",
+  },
+
+  history: {
+    heading: "वर्णन का इतिहास",
+    walkOn: (date) => `${date} की सैर`,
+    back: "वापस",
+    close: "बंद करें",
+    loading: "लोड हो रहा है…",
+    empty: "अभी कोई सैर दर्ज नहीं है।",
+    exportJson: "JSON निर्यात करें",
+    exportText: "टेक्स्ट निर्यात करें",
+    silentWalk: "इस सैर में कुछ नहीं कहा गया।",
+    guardian: "गार्डियन",
+    you: "आप",
+    logHeading: (started, ended) => `DEJA VU सैर का लॉग, शुरू ${started}` + (ended ? `, समाप्त ${ended}` : ''),
+    replay: "फिर सुनें",
+    replayLabel: (text) => `फिर सुनें: ${text}`,
+  },
+
+  places: {
+    heading: "सहेजे गए स्थान",
+    close: "बंद करें",
+    nameThisSpot: "इस जगह का नाम",
+    placeholder: "जैसे मुख्य सड़क वाला बस स्टॉप",
+    save: "मौजूदा स्थान सहेजें",
+    finding: "आपकी स्थिति ढूँढ रहा है…",
+    saved: (label, accuracy) => `${label} सहेजा गया, लगभग ${accuracy} मीटर तक सटीक।`,
+    noPosition: "आपकी स्थिति नहीं मिल सकी।",
+    distance: (place, meters, direction) => `${place} ${meters} मीटर दूर, ${direction} है।`,
+    atClock: (hour) => `${hour} बजे की दिशा में`,
+    compass: ['उत्तर में', 'उत्तर-पूर्व में', 'पूर्व में', 'दक्षिण-पूर्व में', 'दक्षिण में', 'दक्षिण-पश्चिम में', 'पश्चिम में', 'उत्तर-पश्चिम में'],
+    removed: (label) => `${label} हटा दिया गया।`,
+    empty: "अभी कोई स्थान सहेजा नहीं गया।",
+    howFar: "कितनी दूर",
+    howFarLabel: (label) => `${label} कितनी दूर है`,
+    remove: "हटाएँ",
+    removeLabel: (label) => `${label} हटाएँ`,
+  },
+
+  contacts: {
+    heading: "आपातकालीन संपर्क",
+    close: "बंद करें",
+    explanation: "SOS शुरू करने के लिए स्क्रीन को दो सेकंड दबाकर रखें या \"मदद बुलाओ\" बोलें। कोई संपर्क न होने पर, आप चुनते हैं कि इसे किसके साथ साझा करना है।",
+    name: "नाम",
+    sendBy: "किससे भेजें",
+    channels: { sms: "टेक्स्ट संदेश", email: "ईमेल", webhook: "वेबहुक URL" },
+    add: "संपर्क जोड़ें",
+    added: (name) => `${name} जोड़ा गया।`,
+    removed: (name) => `${name} हटाया गया।`,
+    empty: "अभी कोई आपातकालीन संपर्क नहीं है।",
+    remove: "हटाएँ",
+    removeLabel: (name) => `${name} हटाएँ`,
+  },
+
+  profiles: {
+    heading: "गार्डियन प्रोफ़ाइल",
+    editHeading: (name) => `${name || 'प्रोफ़ाइल'} बदलें`,
+    back: "वापस",
+    close: "बंद करें",
+    active: " · सक्रिय",
+    nowActive: (name) => `${name} अब सक्रिय है।`,
+    saved: (name) => `${name} सहेजा गया।`,
+    reset: "रीसेट",
+    wasReset: (name) => `${name} रीसेट किया गया।`,
+    delete: "हटाएँ",
+    deleted: (name) => `${name} हटाया गया।`,
+    edit: "बदलें",
+    copy: "कॉपी",
+    copyName: (name) => `${name} (कॉपी)`,
+    name: "नाम",
+    verbosity: "वर्णन का विस्तार",
+    verbosityLevels: { minimal: "न्यूनतम", standard: "सामान्य", detailed: "विस्तृत" },
+    quietUpdates: "शांत दृश्य में हर इतने सेकंड पर बताएँ (कभी नहीं के लिए 0)",
+    language: "भाषा",
+    sameAsApp: "ऐप वाली भाषा",
+    voice: "आवाज़",
+    defaultVoice: "भाषा की डिफ़ॉल्ट आवाज़",
+    speakingRate: (rate) => `बोलने की गति: ${rate}`,
+    alarmFor: "इनके लिए अलार्म दें",
+    extraInstructions: "अतिरिक्त निर्देश",
+    save: "प्रोफ़ाइल सहेजें",
+    builtInNames: {
+      street: "सड़क पर चलना",
+      crossing: "सड़क पार करना",
+      indoor: "शांत घर के अंदर",
+      reading: "पढ़ना",
+    },
+  },
+
+  language: {
+    heading: "भाषा",
+    close: "बंद करें",
+    automatic: (name) => `अपने आप (${name})`,
+    explanation: "स्क्रीन, बोले जाने वाले संदेशों और वर्णन की भाषा तय करता है। अपने आप चुनने पर डिवाइस की भाषा इस्तेमाल होती है।",
+  },
+
+  diagnostics: {
+    heading: "डायग्नोस्टिक्स",
+    close: "बंद करें",
+    privacy: "ये आँकड़े इसी डिवाइस पर रहते हैं। जब तक आप रिपोर्ट एक्सपोर्ट करके खुद साझा न करें, कुछ भी कहीं नहीं भेजा जाता।",
+    noSession: "अभी कोई सत्र नहीं है। आँकड़े जुटाने के लिए गार्डियन शुरू करें।",
+    exportJson: "JSON एक्सपोर्ट करें",
+    session: "सत्र",
+    started: "शुरू हुआ",
+    runningFor: "चलने का समय",
+    seconds: (seconds) => `${seconds} से.`,
+    kilobytes: (kb) => `${kb} KB`,
+    sent: "भेजा गया",
+    frames: "फ़्रेम",
+    dropped: "छोड़े गए",
+    droppedDetail: (stale, overflow, encode) => `${stale} पुराने · ${overflow} ओवरफ़्लो · ${encode} एन्कोड`,
+    audio: "ऑडियो",
+    chunks: (count) => `${count} हिस्से`,
+    speechEnds: "बोलने का अंत",
+    narration: "वर्णन",
+    frameToAudio: "फ़्रेम से ऑडियो तक",
+    audioChunks: "ऑडियो हिस्से",
+    decodeFailures: "डिकोड विफलताएँ",
+    noSamples: "कोई नमूना नहीं",
+    latency: (count, mean, p50, p95, max) => `${count} · औसत ${mean} ms · p50 ${p50} ms · p95 ${p95} ms · अधिकतम ${max} ms`,
+    tools: "टूल",
+    noTools: "अभी तक कोई टूल कॉल नहीं।",
+    failed: (count) => `${count} विफल`,
+    link: "कनेक्शन",
+    connects: "जुड़ाव",
+    reconnects: "दोबारा जुड़ाव",
+    reconnectsDetail: (reconnects, attempts) => `${attempts} प्रयासों में ${reconnects}`,
+    reducedMode: "सीमित मोड",
+    times: (count) => `${count} बार`,
+    tokens: "टोकन",
+    prompt: "इनपुट",
+    response: "जवाब",
+    toolUse: "टूल उपयोग",
+    thoughts: "सोच",
+    total: "कुल",
+    tokensIn: (modality) => `इनपुट · ${modality}`,
+    tokensOut: (modality) => `आउटपुट · ${modality}`,
+    estimatedCost: "अनुमानित लागत",
+    costUnset: "अनुमान के लिए TOKEN_PRICES सेट करें",
+    cost: (usd, unpriced) => unpriced ? `$${usd} + ${unpriced} बिना कीमत वाले टोकन` : `$${usd}`,
+  },
+
+  hazards: {
+    kinds: {
+      'vehicle': "वाहन",
+      'bicycle': "साइकिल",
+      'person': "व्यक्ति",
+      'animal': "जानवर",
+      'obstacle': "रुकावट",
+      'stairs': "सीढ़ियाँ",
+      'drop-off': "गड्ढा या ढलान",
+      'weapon': "हथियार",
+      'other': "अन्य",
+    },
+    directions: {
+      'left': "बाएँ",
+      'front-left': "आगे बाएँ",
+      'ahead': "आगे",
+      'front-right': "आगे दाएँ",
+      'right': "दाएँ",
+      'behind': "पीछे",
+      'unknown': "",
+    },
+    meters: (meters) => `${meters} मी`,
+  },
+
+  warningWords: { warning: "सावधान", danger: "खतरा" },
+
+  threatKeywords: [
+    { phrase: 'खतरा', severity: HazardSeverity.HIGH },
+    { phrase: 'ख़तरा', severity: HazardSeverity.HIGH },
+    { phrase: 'चाकू', severity: HazardSeverity.CRITICAL },
+    { phrase: 'बंदूक', severity: HazardSeverity.CRITICAL },
+    { phrase: 'हथियार', severity: HazardSeverity.CRITICAL },
+    { phrase: 'आपकी ओर दौड़', severity: HazardSeverity.HIGH },
+    { phrase: 'पीछे हटें', severity: HazardSeverity.HIGH },
+    { phrase: 'धमकी', severity: HazardSeverity.HIGH },
+    { phrase: 'सावधान', severity: HazardSeverity.MEDIUM },
+    { phrase: 'कोई आ रहा है', severity: HazardSeverity.MEDIUM },
+  ],
+
+  voiceCommands: {
+    phrases: {
+      'start': ['गार्डियन शुरू करो', 'गार्डियन चालू करो', 'आँख खोलो'],
+      'pause': ['वर्णन रोको', 'गार्डियन रोको', 'बोलना बंद करो', 'रुको'],
+      'resume': ['वर्णन जारी रखो', 'आगे बोलो', 'बोलते रहो', 'जारी रखो'],
+      'where-am-i': ['मैं कहाँ हूँ', 'मेरा स्थान क्या है'],
+      'read-text': ['यह पढ़ो', 'लिखा हुआ पढ़ो', 'लेबल पढ़ो'],
+      'currency': ['यह कितने पैसे हैं', 'पैसे पहचानो', 'यह कौन सा नोट है', 'पैसे गिनो'],
+      'colour': ['यह किस रंग का है', 'रंग बताओ', 'रंग पहचानो'],
+      'describe': ['विस्तार से बताओ', 'इसका वर्णन करो', 'दृश्य का वर्णन करो', 'मेरे सामने क्या है'],
+      'quieter': ['धीरे बोलो', 'आवाज़ कम करो', 'आवाज कम करो'],
+      'repeat': ['फिर से बोलो', 'दोहराओ', 'फिर से कहो'],
+      'stop': ['गार्डियन बंद करो', 'आँख बंद करो'],
+      'sos': ['मदद बुलाओ', 'मदद भेजो', 'आपातकाल', 'बचाओ', 'मेरी मदद करो'],
+      'cancel': ['रद्द करो', 'मदद रद्द करो', 'मैं ठीक हूँ', 'कैंसल'],
+    },
+    fillers: ['अरे', 'ओके', 'कृपया', 'प्लीज़', 'deja', 'vu', 'अब', 'ज़रा'],
+    wakeWord: 'गार्डियन',
+  },
+};
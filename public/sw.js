@@ -0,0 +1,75 @@
+// App-shell service worker. The page and its bundles come from the cache so the
+// guardian launches fast and still opens (in reduced mode) with no signal; the
+// Live API, geocoder and relay are never cached.
+
+const CACHE = 'deja-vu-shell-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+
+// Third-party code the page loads at startup (Tailwind, the import-map modules).
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k !== CACHE).map(k => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const networkFirst = async (request, fallback) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallback ?? request, response.clone());
+    return response;
+  } catch (e) {
+    const cached = await cache.match(fallback ?? request);
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+// Built bundles have content hashes in their names, so a cached copy is never stale.
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then((response) => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    const page = url.pathname.startsWith('/caregiver') ? undefined : '/index.html';
+    event.respondWith(networkFirst(request, page));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin && SHELL.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,273 @@
+// Caregiver relay: pairs one guardian app with a few caregiver dashboards under
+// a shared pairing code and forwards messages between them. Nothing is stored.
+//
+//   npm run relay            (listens on RELAY_HOST:RELAY_PORT, default 127.0.0.1:8787)
+//
+// Clients connect to ws://host:port/?role=guardian|caregiver&code=ABCD-EFGH.
+// The guardian also sends &key=<secret>, made with the code: the first guardian
+// to use a code claims it, and only that key may publish under it afterwards.
+// Guardians publish status/turn/hazard/location; caregivers may only send "say".
+// It listens on localhost unless RELAY_HOST says otherwise, e.g. 0.0.0.0 to
+// reach it from phones on the same network.
+
+import { createServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer } from 'ws';
+
+const PAIRING_CODE = /^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/;
+const GUARDIAN_KEY = /^[A-Za-z0-9_-]{22,128}$/;
+// A code's claim outlives its guardian's connection for this long, so nobody can take it over in between.
+const CLAIM_IDLE_MS = 24 * 60 * 60 * 1000;
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const MAX_CAREGIVERS = 5;
+const HEARTBEAT_MS = 30000;
+const CAREGIVER_EVENTS = new Set(['say']);
+const MAX_TEXT = 2000;
+
+const STATUSES = new Set(['IDLE', 'CONNECTING', 'ACTIVE', 'RECONNECTING', 'DEGRADED', 'ERROR']);
+const SEVERITIES = new Set(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']);
+const DIRECTIONS = new Set(['left', 'front-left', 'ahead', 'front-right', 'right', 'behind', 'unknown']);
+const HAZARD_SOURCES = new Set(['tool', 'keyword', 'local']);
+
+const isNumber = (v) => typeof v === 'number' && Number.isFinite(v);
+const isNumberOrNull = (v) => v === null || isNumber(v);
+const isObject = (v) => typeof v === 'object' && v !== null;
+
+/**
+ * Rebuilds a guardian message from the fields caregivers expect, or returns
+ * null if it isn't one. Caregivers only ever see messages of these shapes.
+ */
+function sanitizeGuardianMessage(message) {
+  switch (message.type) {
+    case 'status':
+      return STATUSES.has(message.status) && isNumber(message.at) ? { type: 'status', status: message.status, at: message.at } : null;
+    case 'turn': {
+      const m = message.message;
+      if (!isObject(m) || typeof m.text !== 'string' || (m.type !== 'user' && m.type !== 'model') || !isNumber(m.timestamp)) return null;
+      return { type: 'turn', message: { text: m.text.slice(0, MAX_TEXT), type: m.type, timestamp: m.timestamp } };
+    }
+    case 'hazard': {
+      const r = message.report;
+      if (!isObject(r) || typeof r.kind !== 'string' || !SEVERITIES.has(r.severity) || !DIRECTIONS.has(r.direction)) return null;
+      if (!HAZARD_SOURCES.has(r.source) || !isNumber(r.timestamp) || (r.distance !== undefined && !isNumber(r.distance))) return null;
+      return {
+        type: 'hazard',
+        report: { kind: r.kind.slice(0, 64), severity: r.severity, direction: r.direction, distance: r.distance, source: r.source, timestamp: r.timestamp },
+      };
+    }
+    case 'location': {
+      const l = message.location;
+      if (!isObject(l) || !isNumber(l.latitude) || !isNumber(l.longitude) || !isNumber(l.accuracyMeters) || !isNumber(l.fixAgeMs)) return null;
+      if (!isNumberOrNull(l.headingDegrees) || !isNumberOrNull(l.speedMps) || typeof l.cached !== 'boolean') return null;
+      if (typeof l.provider !== 'string' || (l.address !== null && typeof l.address !== 'string')) return null;
+      return {
+        type: 'location',
+        location: {
+          provider: l.provider.slice(0, 64),
+          address: l.address === null ? null : l.address.slice(0, 500),
+          latitude: l.latitude,
+          longitude: l.longitude,
+          accuracyMeters: l.accuracyMeters,
+          headingDegrees: l.headingDegrees,
+          speedMps: l.speedMps,
+          fixAgeMs: l.fixAgeMs,
+          cached: l.cached,
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+const keyDigest = (key) => createHash('sha256').update(key).digest();
+
+/** One accepted socket, with the room it joined. Calls back with whole JSON messages. */
+class Connection {
+  constructor(ws, role, code, handlers) {
+    this.ws = ws;
+    this.role = role;
+    this.code = code;
+    this.handlers = handlers;
+    this.alive = true;
+    this.closed = false;
+    ws.on('message', (data, isBinary) => this.receive(data, isBinary));
+    ws.on('pong', () => { this.alive = true; });
+    ws.on('close', () => this.finish());
+    ws.on('error', () => this.finish());
+  }
+
+  send(message) {
+    if (this.closed) return;
+    this.ws.send(JSON.stringify(message));
+  }
+
+  ping() {
+    if (!this.alive) {
+      this.ws.terminate();
+      return;
+    }
+    this.alive = false;
+    if (!this.closed) this.ws.ping();
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.closed) return;
+    this.ws.close(code, reason);
+    this.finish();
+  }
+
+  finish() {
+    if (this.closed) return;
+    this.closed = true;
+    this.handlers.onClose(this);
+  }
+
+  receive(data, isBinary) {
+    // Binary frames aren't part of the protocol.
+    if (isBinary) {
+      this.close(1003, 'Text only');
+      return;
+    }
+    this.alive = true;
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (message && typeof message.type === 'string') this.handlers.onMessage(this, message);
+  }
+}
+
+/**
+ * Starts the relay. Resolves once it is listening; `port: 0` picks a free port,
+ * readable from `server.address()`.
+ */
+export function startRelay({ port = 8787, host = '127.0.0.1', log = console.log } = {}) {
+  const rooms = new Map();
+  // code -> { digest, idleSince }: which guardian key owns a code, and since when it has had no guardian.
+  const claims = new Map();
+
+  const roomFor = (code) => {
+    let room = rooms.get(code);
+    if (!room) rooms.set(code, room = { guardian: null, caregivers: new Set() });
+    return room;
+  };
+
+  const announcePresence = (room) => {
+    const presence = { type: 'presence', guardian: !!room.guardian, caregivers: room.caregivers.size };
+    room.guardian?.send(presence);
+    room.caregivers.forEach(c => c.send(presence));
+  };
+
+  const handlers = {
+    onMessage(conn, message) {
+      const room = rooms.get(conn.code);
+      if (!room) return;
+      if (conn.role === 'guardian') {
+        if (room.guardian !== conn) return;
+        const clean = sanitizeGuardianMessage(message);
+        if (clean) room.caregivers.forEach(c => c.send(clean));
+      } else if (conn.role === 'caregiver' && CAREGIVER_EVENTS.has(message.type) && typeof message.text === 'string') {
+        room.guardian?.send({ type: 'say', text: message.text.slice(0, 500), at: Date.now() });
+      }
+    },
+    onClose(conn) {
+      const room = rooms.get(conn.code);
+      if (!room) return;
+      if (room.guardian === conn) {
+        room.guardian = null;
+        const claim = claims.get(conn.code);
+        if (claim) claim.idleSince = Date.now();
+      }
+      room.caregivers.delete(conn);
+      if (!room.guardian && room.caregivers.size === 0) rooms.delete(conn.code);
+      else announcePresence(room);
+    },
+  };
+
+  const server = createServer((req, res) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+      return;
+    }
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebSocket only');
+  });
+
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  const reject = (socket, status, text) => {
+    socket.end(`HTTP/1.1 ${status} ${text}\r\nConnection: close\r\n\r\n`);
+  };
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://relay');
+    const role = url.searchParams.get('role');
+    const code = (url.searchParams.get('code') ?? '').toUpperCase();
+    if ((role !== 'guardian' && role !== 'caregiver') || !PAIRING_CODE.test(code)) return reject(socket, 400, 'Bad Request');
+
+    let digest = null;
+    if (role === 'guardian') {
+      const key = url.searchParams.get('key') ?? '';
+      if (!GUARDIAN_KEY.test(key)) return reject(socket, 401, 'Unauthorized');
+      digest = keyDigest(key);
+      const claim = claims.get(code);
+      if (claim && !timingSafeEqual(claim.digest, digest)) return reject(socket, 403, 'Forbidden');
+    }
+
+    if (role === 'caregiver' && rooms.get(code)?.caregivers.size >= MAX_CAREGIVERS) return reject(socket, 403, 'Forbidden');
+
+    wss.handleUpgrade(req, socket, head, (ws) => join(ws, role, code, digest));
+  });
+
+  const join = (ws, role, code, digest) => {
+    const room = roomFor(code);
+    const conn = new Connection(ws, role, code, handlers);
+    if (role === 'guardian') {
+      // Same key, so this is the guardian reconnecting before its old socket timed out: it takes over.
+      // The replaced socket is told why and must not reconnect, or two tabs would keep evicting each other.
+      claims.set(code, { digest, idleSince: null });
+      const previous = room.guardian;
+      room.guardian = conn;
+      previous?.close(4000, 'Replaced by a newer connection');
+    } else {
+      room.caregivers.add(conn);
+    }
+    log(`relay: ${role} joined ${code.slice(0, 2)}** (${room.caregivers.size} caregiver(s))`);
+    announcePresence(room);
+  };
+
+  const heartbeat = setInterval(() => {
+    for (const room of rooms.values()) {
+      room.guardian?.ping();
+      room.caregivers.forEach(c => c.ping());
+    }
+    const now = Date.now();
+    for (const [code, claim] of claims) {
+      if (claim.idleSince !== null && now - claim.idleSince > CLAIM_IDLE_MS) claims.delete(code);
+    }
+  }, HEARTBEAT_MS);
+  server.on('close', () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      log(`relay: listening on ws://${host}:${server.address().port}`);
+      resolve(server);
+    });
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  startRelay({ port: Number(process.env.RELAY_PORT) || 8787, host: process.env.RELAY_HOST || '127.0.0.1' }).catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import WebSocket from 'ws';
+import { startRelay } from './server.mjs';
+
+const CODE = 'ABCD-2345';
+const KEY = 'guardian-key-0123456789abcdef';
+const OTHER_KEY = 'someone-else-0123456789abcdef';
+
+const hazard = {
+  type: 'hazard',
+  report: { kind: 'vehicle', severity: 'HIGH', direction: 'ahead', distance: 4, source: 'tool', timestamp: 1 },
+};
+
+let server;
+let base;
+let sockets;
+
+beforeEach(async () => {
+  server = await startRelay({ port: 0, host: '127.0.0.1', log: () => {} });
+  base = `ws://127.0.0.1:${server.address().port}/`;
+  sockets = [];
+});
+
+afterEach(async () => {
+  sockets.forEach(ws => ws.terminate());
+  await new Promise(resolve => server.close(resolve));
+});
+
+/** Opens a client and collects what it receives. Rejects with the HTTP status if the relay turns it away. */
+function connect(params) {
+  const ws = new WebSocket(`${base}?${new URLSearchParams(params)}`);
+  sockets.push(ws);
+  const client = { ws, messages: [], closed: null, send: message => ws.send(JSON.stringify(message)) };
+  ws.on('message', data => client.messages.push(JSON.parse(String(data))));
+  ws.on('close', (code) => { client.closed = code; });
+  return new Promise((resolve, reject) => {
+    ws.once('open', () => resolve(client));
+    ws.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    ws.once('error', reject);
+  });
+}
+
+const guardian = (key = KEY) => connect({ role: 'guardian', code: CODE, key });
+const caregiver = (code = CODE) => connect({ role: 'caregiver', code });
+const ofType = (client, type) => client.messages.filter(m => m.type === type);
+
+describe('caregiver relay', () => {
+  it('forwards guardian events to every caregiver in the room, and only those', async () => {
+    const g = await guardian();
+    const c1 = await caregiver();
+    const c2 = await caregiver();
+    const elsewhere = await caregiver('WXYZ-6789');
+    await vi.waitFor(() => expect(ofType(g, 'presence').at(-1)).toEqual({ type: 'presence', guardian: true, caregivers: 2 }));
+
+    g.send({ type: 'status', status: 'ACTIVE', at: 5 });
+    g.send({ ...hazard, report: { ...hazard.report, extra: 'dropped' } });
+
+    for (const c of [c1, c2]) {
+      await vi.waitFor(() => expect(ofType(c, 'hazard')).toEqual([hazard]));
+      expect(ofType(c, 'status')).toEqual([{ type: 'status', status: 'ACTIVE', at: 5 }]);
+    }
+    expect(elsewhere.messages.filter(m => m.type !== 'presence')).toEqual([]);
+  });
+
+  it('drops guardian messages that are malformed or not meant for caregivers', async () => {
+    const g = await guardian();
+    const c = await caregiver();
+
+    g.send({ ...hazard, report: { ...hazard.report, severity: 'APOCALYPTIC' } });
+    g.send({ type: 'turn', message: { text: 42, type: 'model', timestamp: 1 } });
+    g.send({ type: 'location', location: { latitude: 'here' } });
+    g.send({ type: 'presence', guardian: false, caregivers: 0 });
+    g.send({ type: 'say', text: 'hello' });
+    g.send({ type: 'turn', message: { text: 'Clear ahead.', type: 'model', timestamp: 2 } });
+
+    await vi.waitFor(() => expect(ofType(c, 'turn')).toHaveLength(1));
+    expect(c.messages.filter(m => m.type !== 'presence')).toEqual([{ type: 'turn', message: { text: 'Clear ahead.', type: 'model', timestamp: 2 } }]);
+    expect(ofType(c, 'presence').every(p => p.guardian)).toBe(true);
+  });
+
+  it('lets caregivers send only "say" to the guardian', async () => {
+    const g = await guardian();
+    const c = await caregiver();
+    const other = await caregiver();
+
+    c.send(hazard);
+    c.send({ type: 'say', text: 42 });
+    c.send({ type: 'say', text: 'x'.repeat(600) });
+
+    await vi.waitFor(() => expect(ofType(g, 'say')).toHaveLength(1));
+    expect(ofType(g, 'say')[0]).toEqual({ type: 'say', text: 'x'.repeat(500), at: expect.any(Number) });
+    expect(ofType(g, 'hazard')).toEqual([]);
+    expect(ofType(other, 'hazard')).toEqual([]);
+  });
+
+  it('turns away a sixth caregiver', async () => {
+    for (let i = 0; i < 5; i++) await caregiver();
+    await expect(caregiver()).rejects.toThrow('HTTP 403');
+  });
+
+  it('rejects bad codes, roles and missing guardian keys', async () => {
+    await expect(connect({ role: 'caregiver', code: 'ABCD-1234' })).rejects.toThrow('HTTP 400');
+    await expect(connect({ role: 'caregiver', code: 'nope' })).rejects.toThrow('HTTP 400');
+    await expect(connect({ role: 'admin', code: CODE })).rejects.toThrow('HTTP 400');
+    await expect(connect({ role: 'guardian', code: CODE })).rejects.toThrow('HTTP 401');
+    await expect(connect({ role: 'guardian', code: CODE, key: 'short' })).rejects.toThrow('HTTP 401');
+  });
+
+  it('keeps a code for the guardian that claimed it', async () => {
+    const g = await guardian();
+    await expect(guardian(OTHER_KEY)).rejects.toThrow('HTTP 403');
+
+    // Still claimed once the guardian has gone.
+    g.ws.close();
+    await vi.waitFor(() => expect(g.closed).not.toBeNull());
+    await expect(guardian(OTHER_KEY)).rejects.toThrow('HTTP 403');
+    await guardian();
+  });
+
+  it('closes a socket that sends an oversized or binary message', async () => {
+    const big = await caregiver();
+    big.send({ type: 'say', text: 'x'.repeat(70 * 1024) });
+    const binary = await caregiver();
+    binary.ws.send(Buffer.from([1, 2, 3]));
+
+    await vi.waitFor(() => expect([big.closed, binary.closed]).toEqual([1009, 1003]));
+  });
+
+  it('listens on localhost unless told otherwise', async () => {
+    const local = await startRelay({ port: 0, log: () => {} });
+    expect(local.address().address).toBe('127.0.0.1');
+    await new Promise(resolve => local.close(resolve));
+  });
+
+  it('hands the room to the same guardian reconnecting and tells the old socket why', async () => {
+    const first = await guardian();
+    const c = await caregiver();
+    const second = await guardian();
+
+    await vi.waitFor(() => expect(first.closed).toBe(4000));
+    first.send({ type: 'status', status: 'IDLE', at: 1 });
+    second.send({ type: 'status', status: 'ACTIVE', at: 2 });
+    await vi.waitFor(() => expect(ofType(c, 'status')).toEqual([{ type: 'status', status: 'ACTIVE', at: 2 }]));
+  });
+});
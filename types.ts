@@ -3,6 +3,8 @@ export enum SessionStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   ACTIVE = 'ACTIVE',
+  RECONNECTING = 'RECONNECTING',
+  DEGRADED = 'DEGRADED',
   ERROR = 'ERROR'
 }
 
@@ -11,3 +13,105 @@ export interface TranscriptionMessage {
   type: 'user' | 'model';
   timestamp: number;
 }
+
+export interface HistorySession {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+}
+
+export enum HazardSeverity {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  CRITICAL = 'CRITICAL'
+}
+
+export type HazardDirection = 'left' | 'front-left' | 'ahead' | 'front-right' | 'right' | 'behind' | 'unknown';
+
+export interface HazardReport {
+  kind: string;
+  severity: HazardSeverity;
+  direction: HazardDirection;
+  /** Estimated distance in metres, when the model could judge it. */
+  distance?: number;
+  source: 'tool' | 'keyword' | 'local';
+  timestamp: number;
+}
+
+export interface GeoFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  heading: number | null;
+  speed: number | null;
+  /** When the device took the fix, in epoch ms. */
+  timestamp: number;
+}
+
+export interface LocationReport {
+  provider: string;
+  address: string | null;
+  latitude: number;
+  longitude: number;
+  accuracyMeters: number;
+  headingDegrees: number | null;
+  speedMps: number | null;
+  fixAgeMs: number;
+  cached: boolean;
+  note?: string;
+}
+
+export type LocationToolResult = LocationReport | { error: string };
+
+export interface SavedPlace {
+  id: string;
+  label: string;
+  latitude: number;
+  longitude: number;
+  /** Arrival is announced once the user is within this distance. */
+  radiusMeters: number;
+  createdAt: number;
+}
+
+export type EmergencyChannel = 'sms' | 'email' | 'webhook';
+
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  channel: EmergencyChannel;
+  /** Phone number, email address or webhook URL, depending on the channel. */
+  address: string;
+}
+
+export type SosTrigger = 'long-press' | 'voice' | 'hazard';
+
+export interface SosPayload {
+  trigger: SosTrigger;
+  triggeredAt: number;
+  location: LocationReport | null;
+  transcript: TranscriptionMessage[];
+  /** JPEG data URL of the last camera frame, when the camera was running. */
+  snapshot: string | null;
+}
+
+export type NarrationVerbosity = 'minimal' | 'standard' | 'detailed';
+
+export interface GuardianProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  verbosity: NarrationVerbosity;
+  /** Seconds between "still watching" updates in a quiet scene; null keeps quiet scenes silent. */
+  quietUpdateSeconds: number | null;
+  /** BCP-47 language code for narration; empty to follow the app's language. */
+  language: string;
+  /** Live API voice name; empty for the language's default. */
+  voice: string;
+  /** 0.5 (slow) to 1.5 (fast); also used for on-device speech. */
+  speakingRate: number;
+  /** Hazard kinds that raise the vibration and on-screen alarm. */
+  alarmKinds: string[];
+  /** Extra mode-specific instructions appended to the system instruction. */
+  focus: string;
+}
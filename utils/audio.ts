@@ -52,3 +52,35 @@ export function blobToBase64(blob: Blob): Promise<string> {
     reader.readAsDataURL(blob);
   });
 }
+
+/**
+ * Queues decoded narration chunks back to back on an output node, so audio that
+ * arrives in bursts still plays as one continuous stream.
+ */
+export class AudioScheduler {
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+
+  constructor(private ctx: AudioContext, private destination: AudioNode, private sampleRate: number) {}
+
+  async play(base64: string): Promise<void> {
+    if (this.ctx.state === 'closed') return;
+    if (this.ctx.state === 'suspended') await this.ctx.resume();
+    this.nextStartTime = Math.max(this.nextStartTime, this.ctx.currentTime);
+    const buf = await decodeAudioData(decode(base64), this.ctx, this.sampleRate, 1);
+    const src = this.ctx.createBufferSource();
+    src.buffer = buf;
+    src.connect(this.destination);
+    src.addEventListener('ended', () => this.sources.delete(src));
+    src.start(this.nextStartTime);
+    this.nextStartTime += buf.duration;
+    this.sources.add(src);
+  }
+
+  /** Cuts off everything queued, e.g. when the model is interrupted. */
+  stop(): void {
+    this.sources.forEach(s => { try { s.stop(); } catch (e) {} });
+    this.sources.clear();
+    this.nextStartTime = 0;
+  }
+}
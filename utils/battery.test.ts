@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { LowBatteryWarner, frameIntervalScale } from './battery';
+
+const onBattery = (level: number) => ({ level, charging: false });
+
+describe('frameIntervalScale', () => {
+  it('stretches frames more the lower the charge', () => {
+    expect([0.9, 0.5, 0.3, 0.2, 0.15, 0.1, 0.02].map(level => frameIntervalScale(onBattery(level)))).toEqual([1, 1.5, 1.5, 2.5, 2.5, 4, 4]);
+  });
+
+  it('runs at full speed while charging, however low', () => {
+    expect(frameIntervalScale({ level: 0.05, charging: true })).toBe(1);
+  });
+
+  it('follows a custom policy', () => {
+    const policy = { tiers: [{ atOrBelow: 0.3, scale: 3 }], warnAt: [] };
+    expect(frameIntervalScale(onBattery(0.3), policy)).toBe(3);
+    expect(frameIntervalScale(onBattery(0.31), policy)).toBe(1);
+  });
+});
+
+describe('LowBatteryWarner', () => {
+  it('warns once per threshold as the charge drops past it', () => {
+    const warner = new LowBatteryWarner();
+    expect(warner.check(onBattery(0.5))).toBeNull();
+    expect(warner.check(onBattery(0.2))).toEqual({ percent: 20, slowed: true });
+    expect(warner.check(onBattery(0.19))).toBeNull();
+    expect(warner.check(onBattery(0.1))).toEqual({ percent: 10, slowed: true });
+    expect(warner.check(onBattery(0.04))).toEqual({ percent: 4, slowed: true });
+    expect(warner.check(onBattery(0.03))).toBeNull();
+  });
+
+  it('warns once when a reading skips past several thresholds', () => {
+    const warner = new LowBatteryWarner();
+    expect(warner.check(onBattery(0.08))).toEqual({ percent: 8, slowed: true });
+    expect(warner.check(onBattery(0.06))).toBeNull();
+  });
+
+  it('re-arms every warning after plugging in', () => {
+    const warner = new LowBatteryWarner();
+    warner.check(onBattery(0.15));
+    expect(warner.check({ level: 0.15, charging: true })).toBeNull();
+    expect(warner.check(onBattery(0.15))).toEqual({ percent: 15, slowed: true });
+  });
+
+  it('says when frames are not being slowed', () => {
+    const warner = new LowBatteryWarner({ tiers: [], warnAt: [0.2] });
+    expect(warner.check(onBattery(0.2))).toEqual({ percent: 20, slowed: false });
+  });
+});
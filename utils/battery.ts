@@ -0,0 +1,77 @@
+export interface BatterySnapshot {
+  /** 0 to 1. */
+  level: number;
+  charging: boolean;
+}
+
+export interface BatteryPolicyOptions {
+  /** Frame interval multipliers, checked in order; the first tier the level is at or below applies. */
+  tiers: { atOrBelow: number; scale: number }[];
+  /** Levels that trigger a spoken warning as the charge drops past them. */
+  warnAt: number[];
+}
+
+export const DEFAULT_BATTERY_POLICY: BatteryPolicyOptions = {
+  tiers: [
+    { atOrBelow: 0.1, scale: 4 },
+    { atOrBelow: 0.2, scale: 2.5 },
+    { atOrBelow: 0.5, scale: 1.5 },
+  ],
+  warnAt: [0.2, 0.1, 0.05],
+};
+
+/** How much to stretch frame sampling and upload intervals at this charge. 1 means normal speed. */
+export function frameIntervalScale(battery: BatterySnapshot, options: BatteryPolicyOptions = DEFAULT_BATTERY_POLICY): number {
+  if (battery.charging) return 1;
+  return options.tiers.find(t => battery.level <= t.atOrBelow)?.scale ?? 1;
+}
+
+/**
+ * Decides when to warn about low charge: once per threshold as the level drops
+ * past it. Plugging in re-arms every warning.
+ */
+export class LowBatteryWarner {
+  private warned = new Set<number>();
+
+  constructor(private options: BatteryPolicyOptions = DEFAULT_BATTERY_POLICY) {}
+
+  /** Returns what to warn about, or null. `slowed` says whether frames are being stretched to save power. */
+  check(battery: BatterySnapshot): { percent: number; slowed: boolean } | null {
+    if (battery.charging) {
+      this.warned.clear();
+      return null;
+    }
+    const crossed = this.options.warnAt.filter(t => battery.level <= t && !this.warned.has(t));
+    if (!crossed.length) return null;
+    crossed.forEach(t => this.warned.add(t));
+    return { percent: Math.round(battery.level * 100), slowed: frameIntervalScale(battery, this.options) > 1 };
+  }
+}
+
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+/**
+ * Calls `onChange` now and whenever the charge or charging state changes.
+ * Resolves to a function that stops watching, or null where the Battery Status
+ * API isn't available (Firefox, Safari).
+ */
+export async function watchBattery(onChange: (battery: BatterySnapshot) => void): Promise<(() => void) | null> {
+  const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManager> }).getBattery;
+  if (!getBattery) return null;
+  try {
+    const manager = await getBattery.call(navigator);
+    const notify = () => onChange({ level: manager.level, charging: manager.charging });
+    manager.addEventListener('levelchange', notify);
+    manager.addEventListener('chargingchange', notify);
+    notify();
+    return () => {
+      manager.removeEventListener('levelchange', notify);
+      manager.removeEventListener('chargingchange', notify);
+    };
+  } catch (e) {
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+
+import { AudioPipelineConfig } from './media';
+
+export const CAPTURE_PROCESSOR_NAME = 'pcm-capture';
+
+export type CaptureMessage =
+  | { type: 'audio'; pcm: ArrayBuffer }
+  | { type: 'silence' };
+
+// Runs on the audio rendering thread. Kept as a plain string so it can be loaded
+// from a Blob URL without any bundler configuration.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const o = options.processorOptions;
+    this.chunk = new Float32Array(o.chunkSamples);
+    this.filled = 0;
+    this.threshold = o.vadThreshold;
+    this.hangoverSamples = Math.round(o.vadHangoverMs / 1000 * sampleRate);
+    this.sinceVoice = Infinity;
+    this.open = false;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      this.chunk[this.filled++] = input[i];
+      if (this.filled === this.chunk.length) this.flush();
+    }
+    return true;
+  }
+
+  flush() {
+    const chunk = this.chunk;
+    this.filled = 0;
+    let sum = 0;
+    for (let i = 0; i < chunk.length; i++) sum += chunk[i] * chunk[i];
+    const rms = Math.sqrt(sum / chunk.length);
+    this.sinceVoice = rms >= this.threshold ? 0 : this.sinceVoice + chunk.length;
+
+    if (this.sinceVoice > this.hangoverSamples) {
+      if (this.open) this.port.postMessage({ type: 'silence' });
+      this.open = false;
+      return;
+    }
+    this.open = true;
+    const pcm = new Int16Array(chunk.length);
+    for (let i = 0; i < chunk.length; i++) {
+      const s = Math.max(-1, Math.min(1, chunk[i]));
+      pcm[i] = s < 0 ? s * 32768 : s * 32767;
+    }
+    this.port.postMessage({ type: 'audio', pcm: pcm.buffer }, [pcm.buffer]);
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+let moduleUrl: string | null = null;
+
+function getModuleUrl(): string {
+  if (!moduleUrl) moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  return moduleUrl;
+}
+
+/**
+ * Builds the mic capture node: Float32 to Int16 conversion and voice-activity
+ * gating happen off the main thread, and only voiced chunks are posted back.
+ */
+export async function createCaptureNode(ctx: AudioContext, config: AudioPipelineConfig): Promise<AudioWorkletNode> {
+  await ctx.audioWorklet.addModule(getModuleUrl());
+  return new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      chunkSamples: config.chunkSamples,
+      vadThreshold: config.vadThreshold,
+      vadHangoverMs: config.vadHangoverMs,
+    },
+  });
+}
@@ -0,0 +1,209 @@
+import { SessionStatus, TranscriptionMessage, HazardReport, HazardSeverity, LocationReport } from '../types';
+import { TypedEmitter } from './emitter';
+import { ReconnectSupervisor, DEFAULT_BACKOFF } from './reconnect';
+import { HAZARD_DIRECTIONS } from './hazards';
+
+const STORAGE_KEY = 'deja-vu-caregiver';
+
+// No I, L, O, 0 or 1, so a code read aloud or off a screen can't be misheard.
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const PAIRING_CODE = /^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/;
+
+export const DEFAULT_RELAY_URL = process.env.CAREGIVER_RELAY_URL || 'ws://localhost:8787';
+
+const RELAY_BACKOFF = { ...DEFAULT_BACKOFF, maxDelayMs: 30000, maxAttempts: Infinity };
+
+/** The relay closes a guardian's socket with this when the same key connects again elsewhere. */
+const CLOSE_REPLACED = 4000;
+
+/** Everything that crosses the relay. The relay itself only forwards these. */
+export type RelayMessage =
+  | { type: 'status'; status: SessionStatus; at: number }
+  | { type: 'turn'; message: TranscriptionMessage }
+  | { type: 'hazard'; report: HazardReport }
+  | { type: 'location'; location: LocationReport }
+  | { type: 'say'; text: string; at?: number }
+  | { type: 'presence'; guardian: boolean; caregivers: number };
+
+export type RelayRole = 'guardian' | 'caregiver';
+
+export type RelayLinkState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface CaregiverSharing {
+  enabled: boolean;
+  relayUrl: string;
+  code: string;
+  /** Made with the code and never shown: proves to the relay that this is the guardian that claimed it. */
+  key: string;
+}
+
+export function generatePairingCode(random: (n: number) => Uint8Array = n => crypto.getRandomValues(new Uint8Array(n))): string {
+  const chars = Array.from(random(8), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+export function generateGuardianKey(random: (n: number) => Uint8Array = n => crypto.getRandomValues(new Uint8Array(n))): string {
+  return btoa(String.fromCharCode(...random(24))).replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/** Accepts a code typed with spaces, lower case or no dash. Returns null if it can't be a code. */
+export function normalizePairingCode(input: string): string | null {
+  const compact = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const code = `${compact.slice(0, 4)}-${compact.slice(4)}`;
+  return PAIRING_CODE.test(code) ? code : null;
+}
+
+/** `key` is the guardian's secret; caregivers connect with the code alone. */
+export function relaySocketUrl(base: string, role: RelayRole, code: string, key?: string): string {
+  const url = new URL(base);
+  url.searchParams.set('role', role);
+  url.searchParams.set('code', code);
+  if (key) url.searchParams.set('key', key);
+  return url.toString();
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isNumberOrNull = (v: unknown) => v === null || isNumber(v);
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const SESSION_STATUSES: unknown[] = Object.values(SessionStatus);
+const HAZARD_SEVERITIES: unknown[] = Object.values(HazardSeverity);
+const HAZARD_SOURCES: unknown[] = ['tool', 'keyword', 'local'];
+
+function isTurn(m: unknown): m is TranscriptionMessage {
+  return isObject(m) && typeof m.text === 'string' && (m.type === 'user' || m.type === 'model') && isNumber(m.timestamp);
+}
+
+function isHazard(r: unknown): r is HazardReport {
+  return isObject(r) && typeof r.kind === 'string' && HAZARD_SEVERITIES.includes(r.severity)
+    && (HAZARD_DIRECTIONS as unknown[]).includes(r.direction) && HAZARD_SOURCES.includes(r.source)
+    && isNumber(r.timestamp) && (r.distance === undefined || isNumber(r.distance));
+}
+
+function isLocation(l: unknown): l is LocationReport {
+  return isObject(l) && isNumber(l.latitude) && isNumber(l.longitude) && isNumber(l.accuracyMeters) && isNumber(l.fixAgeMs)
+    && isNumberOrNull(l.headingDegrees) && isNumberOrNull(l.speedMps) && typeof l.cached === 'boolean'
+    && typeof l.provider === 'string' && (l.address === null || typeof l.address === 'string');
+}
+
+/** Checks that something off the wire is a message this app understands; anything else is dropped. */
+export function parseRelayMessage(data: unknown): RelayMessage | null {
+  if (!isObject(data)) return null;
+  switch (data.type) {
+    case 'status':
+      return SESSION_STATUSES.includes(data.status) && isNumber(data.at) ? data as RelayMessage : null;
+    case 'turn':
+      return isTurn(data.message) ? data as RelayMessage : null;
+    case 'hazard':
+      return isHazard(data.report) ? data as RelayMessage : null;
+    case 'location':
+      return isLocation(data.location) ? data as RelayMessage : null;
+    case 'say':
+      return typeof data.text === 'string' && (data.at === undefined || isNumber(data.at)) ? data as RelayMessage : null;
+    case 'presence':
+      return typeof data.guardian === 'boolean' && isNumber(data.caregivers) ? data as RelayMessage : null;
+    default:
+      return null;
+  }
+}
+
+/** Sharing is off until the user turns it on; the code is made once and kept until they ask for a new one. */
+export function loadCaregiverSharing(): CaregiverSharing {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {}
+  return { enabled: false, relayUrl: DEFAULT_RELAY_URL, code: generatePairingCode(), key: generateGuardianKey() };
+}
+
+export function saveCaregiverSharing(sharing: CaregiverSharing): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sharing));
+}
+
+interface RelayLinkEvents {
+  message: RelayMessage;
+  state: RelayLinkState;
+}
+
+/** One side's connection to the relay. Reconnects on its own until closed. */
+export class RelayLink extends TypedEmitter<RelayLinkEvents> {
+  private socket: WebSocket | null = null;
+  private supervisor: ReconnectSupervisor | null = null;
+  private currentState: RelayLinkState = 'closed';
+
+  constructor(private url: string) {
+    super();
+  }
+
+  get state(): RelayLinkState {
+    return this.currentState;
+  }
+
+  open(): void {
+    if (this.currentState !== 'closed') return;
+    const supervisor = new ReconnectSupervisor({
+      connect: () => this.connect(),
+      onReconnecting: () => this.setState('reconnecting'),
+    }, RELAY_BACKOFF);
+    this.supervisor = supervisor;
+    this.setState('connecting');
+    this.connect().catch(() => supervisor.connectionLost());
+  }
+
+  /** Returns false if the message couldn't be sent right now; nothing is queued. */
+  send(message: RelayMessage): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  close(): void {
+    this.supervisor?.dispose();
+    this.supervisor = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000);
+    this.setState('closed');
+  }
+
+  private connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      let opened = false;
+      this.socket = socket;
+      socket.onopen = () => {
+        opened = true;
+        this.setState('open');
+        resolve();
+      };
+      socket.onmessage = (e) => {
+        let message: RelayMessage | null = null;
+        try {
+          message = parseRelayMessage(JSON.parse(String(e.data)));
+        } catch (err) {}
+        if (message) this.emit('message', message);
+        else console.warn("Ignored a malformed relay message.");
+      };
+      socket.onclose = (e) => {
+        // Ignore stragglers from a socket that has already been replaced.
+        if (this.socket !== socket) return;
+        if (e.code === CLOSE_REPLACED) {
+          // The same guardian connected from somewhere else; reconnecting would only evict it in turn.
+          this.supervisor?.dispose();
+          this.supervisor = null;
+          this.socket = null;
+          this.setState('closed');
+        } else if (!opened) {
+          reject(new Error('Relay unreachable'));
+        } else {
+          this.supervisor?.connectionLost();
+        }
+      };
+    });
+  }
+
+  private setState(state: RelayLinkState): void {
+    if (this.currentState === state) return;
+    this.currentState = state;
+    this.emit('state', state);
+  }
+}
@@ -0,0 +1,55 @@
+import { SessionStatus, LocationToolResult } from '../types';
+import { RelayLink } from './caregiverRelay';
+import { LiveGuardianSession, isRunning } from './guardianSession';
+
+const LOCATION_INTERVAL_MS = 60000;
+
+/**
+ * Publishes what the guardian is doing to paired caregivers, and speaks the
+ * messages they send back. Returns a function that stops sharing.
+ */
+export function shareSessionWithCaregivers(
+  session: LiveGuardianSession,
+  link: RelayLink,
+  locate: () => Promise<LocationToolResult>,
+): () => void {
+  let caregivers = 0;
+
+  const publishStatus = () => link.send({ type: 'status', status: session.status, at: Date.now() });
+  const publishLocation = () => {
+    if (!isRunning(session.status)) return;
+    locate()
+      .then(result => { if (!('error' in result)) link.send({ type: 'location', location: result }); })
+      .catch(() => {});
+  };
+
+  const unsubscribe = [
+    session.on('status', (status) => {
+      publishStatus();
+      if (status === SessionStatus.ACTIVE || status === SessionStatus.DEGRADED) publishLocation();
+    }),
+    session.on('turn', (message) => link.send({ type: 'turn', message })),
+    session.on('hazard', (report) => link.send({ type: 'hazard', report })),
+    link.on('state', (state) => {
+      if (state !== 'open') return;
+      publishStatus();
+      publishLocation();
+    }),
+    link.on('message', (message) => {
+      if (message.type === 'say' && message.text.trim()) {
+        session.announce(session.messages.caregiver.message(message.text.trim()));
+      } else if (message.type === 'presence') {
+        // The user should always know when someone starts watching.
+        if (message.caregivers > caregivers) session.announce(session.messages.caregiver.connected);
+        else if (message.caregivers < caregivers && message.caregivers === 0) session.announce(session.messages.caregiver.disconnected, false);
+        caregivers = message.caregivers;
+      }
+    }),
+  ];
+  const locationTimer = setInterval(publishLocation, LOCATION_INTERVAL_MS);
+
+  return () => {
+    clearInterval(locationTimer);
+    unsubscribe.forEach(off => off());
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HazardSeverity } from '../types';
+import { EarconPlayer, earconPattern } from './earcons';
+
+/** Just enough of the Web Audio graph to see what gets connected and disconnected. */
+function fakeContext() {
+  const nodes: { kind: string; disconnect: ReturnType<typeof vi.fn>; end?: () => void }[] = [];
+  const node = (kind: string, extra = {}) => {
+    const n = { kind, connect: vi.fn(), disconnect: vi.fn(), ...extra };
+    nodes.push(n);
+    return n;
+  };
+  const param = () => ({ value: 0, setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn(), setTargetAtTime: vi.fn(), cancelScheduledValues: vi.fn() });
+  const ctx = {
+    state: 'running',
+    currentTime: 0,
+    destination: {},
+    createGain: () => node('gain', { gain: param() }),
+    createStereoPanner: () => node('panner', { pan: param() }),
+    createOscillator: () => {
+      let onEnded = () => {};
+      const osc = node('oscillator', {
+        frequency: param(),
+        start: vi.fn(),
+        stop: vi.fn(),
+        addEventListener: (_type: string, listener: () => void) => { onEnded = listener; },
+      });
+      (osc as { end?: () => void }).end = () => onEnded();
+      return osc;
+    },
+  };
+  return { ctx: ctx as unknown as AudioContext, nodes };
+}
+
+describe('earconPattern', () => {
+  it('pans toward the hazard and gets more urgent with severity', () => {
+    expect(earconPattern(HazardSeverity.LOW, 'left')).toMatchObject({ pan: -1, repeats: 1, duck: 1 });
+    expect(earconPattern(HazardSeverity.CRITICAL, 'front-right')).toMatchObject({ pan: 0.6, repeats: 5 });
+    expect(earconPattern(HazardSeverity.HIGH, 'behind').frequency).toBeLessThan(earconPattern(HazardSeverity.HIGH, 'ahead').frequency);
+  });
+});
+
+describe('EarconPlayer', () => {
+  it('disconnects each cue once its own beeps end, even while another cue is playing', () => {
+    const { ctx, nodes } = fakeContext();
+    const bus = { gain: { value: 1, cancelScheduledValues: vi.fn(), setTargetAtTime: vi.fn() } } as unknown as GainNode;
+    const player = new EarconPlayer(ctx, bus);
+
+    player.play({ severity: HazardSeverity.MEDIUM, direction: 'left' });
+    const first = nodes.slice(1);
+    player.play({ severity: HazardSeverity.HIGH, direction: 'right' });
+    const second = nodes.slice(1 + first.length);
+
+    // The first cue finishes while the second is still sounding.
+    first.filter(n => n.kind === 'oscillator').forEach(n => n.end!());
+    expect(first.every(n => n.disconnect.mock.calls.length === 1)).toBe(true);
+    expect(second.some(n => n.disconnect.mock.calls.length > 0)).toBe(false);
+
+    second.filter(n => n.kind === 'oscillator').forEach(n => n.end!());
+    expect(second.every(n => n.disconnect.mock.calls.length === 1)).toBe(true);
+  });
+});
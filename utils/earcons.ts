@@ -0,0 +1,124 @@
+
+import { HazardDirection, HazardReport, HazardSeverity } from '../types';
+
+const STORAGE_KEY = 'deja-vu-earcons';
+
+export function loadEarconsEnabled(): boolean {
+  return localStorage.getItem(STORAGE_KEY) !== 'off';
+}
+
+export function saveEarconsEnabled(enabled: boolean): void {
+  localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off');
+}
+
+const DIRECTION_PAN: Record<HazardDirection, number> = {
+  'left': -1,
+  'front-left': -0.6,
+  'ahead': 0,
+  'front-right': 0.6,
+  'right': 1,
+  'behind': 0,
+  'unknown': 0,
+};
+
+export interface EarconPattern {
+  /** -1 (left) to 1 (right). */
+  pan: number;
+  frequency: number;
+  repeats: number;
+  /** Start-to-start spacing of the repeated beeps. */
+  intervalMs: number;
+  beepMs: number;
+  /** Narration gain multiplier while the cue plays; 1 means no ducking. */
+  duck: number;
+}
+
+const URGENCY: Record<HazardSeverity, Omit<EarconPattern, 'pan'>> = {
+  [HazardSeverity.LOW]: { frequency: 440, repeats: 1, intervalMs: 400, beepMs: 120, duck: 1 },
+  [HazardSeverity.MEDIUM]: { frequency: 660, repeats: 2, intervalMs: 260, beepMs: 110, duck: 0.6 },
+  [HazardSeverity.HIGH]: { frequency: 880, repeats: 3, intervalMs: 170, beepMs: 90, duck: 0.3 },
+  [HazardSeverity.CRITICAL]: { frequency: 1100, repeats: 5, intervalMs: 120, beepMs: 80, duck: 0.15 },
+};
+
+export function earconPattern(severity: HazardSeverity, direction: HazardDirection): EarconPattern {
+  const urgency = URGENCY[severity];
+  // Behind gets a lower pitch since stereo can't place it.
+  const frequency = direction === 'behind' ? urgency.frequency * 0.6 : urgency.frequency;
+  return { ...urgency, frequency, pan: DIRECTION_PAN[direction] };
+}
+
+/**
+ * Plays short synthesised tones on the narration's output context, panned
+ * toward the hazard. Narration is expected to pass through `narrationBus` so
+ * it can be ducked while an urgent cue plays.
+ */
+export class EarconPlayer {
+  private output: GainNode;
+  private active = new Set<OscillatorNode>();
+  private restoreAt = 0;
+
+  constructor(private ctx: AudioContext, private narrationBus: GainNode) {
+    this.output = ctx.createGain();
+    this.output.gain.value = 0.5;
+    this.output.connect(ctx.destination);
+  }
+
+  play(hazard: Pick<HazardReport, 'severity' | 'direction'>): void {
+    if (this.ctx.state === 'closed') return;
+    if (this.ctx.state === 'suspended') this.ctx.resume().catch(() => {});
+    const pattern = earconPattern(hazard.severity, hazard.direction);
+    const start = this.ctx.currentTime + 0.02;
+
+    const panner = this.ctx.createStereoPanner();
+    panner.pan.value = pattern.pan;
+    panner.connect(this.output);
+
+    // Each cue cleans up after itself; cues overlap, so nothing shared can say when all are done.
+    let playing = pattern.repeats;
+    for (let i = 0; i < pattern.repeats; i++) {
+      const at = start + (i * pattern.intervalMs) / 1000;
+      const end = at + pattern.beepMs / 1000;
+      const osc = this.ctx.createOscillator();
+      const env = this.ctx.createGain();
+      osc.type = 'square';
+      osc.frequency.value = pattern.frequency;
+      // Short attack and release so the beeps don't click.
+      env.gain.setValueAtTime(0, at);
+      env.gain.linearRampToValueAtTime(1, at + 0.01);
+      env.gain.setValueAtTime(1, end - 0.02);
+      env.gain.linearRampToValueAtTime(0, end);
+      osc.connect(env);
+      env.connect(panner);
+      osc.addEventListener('ended', () => {
+        this.active.delete(osc);
+        osc.disconnect();
+        env.disconnect();
+        if (--playing === 0) panner.disconnect();
+      });
+      osc.start(at);
+      osc.stop(end);
+      this.active.add(osc);
+    }
+
+    if (pattern.duck < 1) {
+      const cueEnd = start + ((pattern.repeats - 1) * pattern.intervalMs + pattern.beepMs) / 1000;
+      this.duck(pattern.duck, start, cueEnd);
+    }
+  }
+
+  private duck(level: number, from: number, until: number): void {
+    const gain = this.narrationBus.gain;
+    this.restoreAt = Math.max(this.restoreAt, until + 0.15);
+    gain.cancelScheduledValues(from);
+    gain.setTargetAtTime(level, from, 0.02);
+    gain.setTargetAtTime(1, this.restoreAt, 0.1);
+  }
+
+  dispose(): void {
+    this.active.forEach(o => { try { o.stop(); } catch (e) {} });
+    this.active.clear();
+    this.narrationBus.gain.cancelScheduledValues(0);
+    this.narrationBus.gain.value = 1;
+    this.output.disconnect();
+  }
+}
@@ -0,0 +1,31 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to its payload
+ * type; `on` returns an unsubscribe function so callers don't need to keep the
+ * listener around.
+ */
+export class TypedEmitter<Events> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[event] ?? (this.listeners[event] = new Set());
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => {
+      // One broken listener shouldn't stop the others, or the session itself.
+      try {
+        listener(payload);
+      } catch (e) {
+        console.error(`Listener for "${String(event)}" failed:`, e);
+      }
+    });
+  }
+}
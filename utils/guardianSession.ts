@@ -0,0 +1,691 @@
+import { Modality, FunctionCall, LiveSendRealtimeInputParameters } from '@google/genai';
+import { SessionStatus, HazardReport, TranscriptionMessage, GuardianProfile } from '../types';
+import { encode, blobToBase64, AudioScheduler } from './audio';
+import { createCaptureNode, CaptureMessage } from './captureWorklet';
+import { EarconPlayer } from './earcons';
+import { TypedEmitter } from './emitter';
+import { reportHazardTool, compareSeverity, HAZARD_RESPONSES } from './hazards';
+import { Locale, LOCALES, Messages, detectLocale, getMessages } from './i18n';
+import { ConnectLive, LiveTransport } from './liveTransport';
+import { LocalGuardian, sceneStats } from './localGuardian';
+import { SessionMetrics } from './metrics';
+import { DEFAULT_MEDIA_CONFIG, MediaPipelineConfig, AdaptiveFrameController, FrameSendQueue } from './media';
+import { analyzeMotion, shouldSendFrame, PixelFrame } from './motion';
+import { buildSystemInstruction, profileDisplayName } from './profiles';
+import { ReconnectSupervisor, DEFAULT_BACKOFF } from './reconnect';
+import { SessionController, DEFAULT_CONTROLLER_OPTIONS } from './sessionController';
+import { SessionRecorder } from './sessionRecorder';
+import { SNAPSHOT_MODES, SnapshotMode, captureStillBase64 } from './snapshot';
+import { speak as speakAloud } from './speech';
+import { ToolRegistry } from './toolRegistry';
+
+// After a few quick failures fall back to the local guardian meanwhile, and keep
+// retrying the Live link for about twenty minutes before saying it won't come back.
+const LIVE_RETRY_BACKOFF = { ...DEFAULT_BACKOFF, maxDelayMs: 30000, maxAttempts: 45, degradeAfterAttempts: 3 };
+
+const PRE_WARNING_VIBRATION = [60, 40, 60];
+const PRE_WARNING_COOLDOWN_MS = 1500;
+
+export const isRunning = (status: SessionStatus) =>
+  status === SessionStatus.ACTIVE || status === SessionStatus.RECONNECTING || status === SessionStatus.DEGRADED;
+
+/** Where the camera and microphone come from. Swap it for a canned stream in a kiosk or a demo. */
+export interface MediaSources {
+  open(): Promise<MediaStream>;
+}
+
+export const deviceMediaSources: MediaSources = {
+  open: () => navigator.mediaDevices.getUserMedia({
+    video: { facingMode: { ideal: 'environment' }, width: { ideal: 1280 } },
+    audio: true,
+  }),
+};
+
+export interface ToolCallEvent {
+  call: FunctionCall;
+  result: unknown;
+  durationMs: number;
+}
+
+export interface GuardianSessionEvents {
+  status: SessionStatus;
+  /** The model's current turn so far; an empty string when a session starts. */
+  narration: string;
+  turn: TranscriptionMessage;
+  /** Every hazard the profile cares about, including ones hidden behind a worse alert. */
+  hazard: HazardReport;
+  /** The hazard currently shown to the user, or null once it clears. */
+  alert: HazardReport | null;
+  toolCall: ToolCallEvent;
+  /** Text for a screen-reader live region. */
+  announcement: string;
+  /** A short user-facing error, or null when it clears. */
+  error: string | null;
+  /** The finished session as JSONL, when recording was on. */
+  recording: string;
+}
+
+export interface GuardianSessionOptions {
+  /** Resolves to how the session reaches the model. A rejection's message is shown and the session runs in reduced mode. */
+  connect: () => Promise<ConnectLive>;
+  profile: GuardianProfile;
+  /** Language for announcements, and for narration when the profile follows the app. Defaults to English. */
+  locale?: Locale;
+  tools?: ToolRegistry;
+  media?: MediaSources;
+  mediaConfig?: MediaPipelineConfig;
+  earcons?: boolean;
+  record?: boolean;
+  speak?: (text: string, rate?: number) => void;
+}
+
+/**
+ * The whole guardian without a UI: camera and mic capture, the Live link and
+ * its recovery, the on-device fallback, hazards, narration audio and snapshot
+ * questions. Shells call `start`/`stop` and listen for events.
+ */
+export class LiveGuardianSession extends TypedEmitter<GuardianSessionEvents> {
+  private currentStatus = SessionStatus.IDLE;
+  private currentProfile: GuardianProfile;
+  private currentLocale: Locale;
+  private tools: ToolRegistry;
+  private media: MediaSources;
+  private mediaConfig: MediaPipelineConfig;
+  private speak: (text: string, rate?: number) => void;
+  private earconsEnabled: boolean;
+  private volume = 1;
+  private narrationPaused = false;
+  private framesPaused = false;
+  private frameIntervalScale = 1;
+
+  // Bumped on every start and stop; callbacks from an older run check it and bail out.
+  private run = 0;
+  private video: HTMLVideoElement | null = null;
+  private ownVideo: HTMLVideoElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private stream: MediaStream | null = null;
+  private inputCtx: AudioContext | null = null;
+  private outputCtx: AudioContext | null = null;
+  private outputNode: GainNode | null = null;
+  private earcons: EarconPlayer | null = null;
+  private audio: AudioScheduler | null = null;
+  private controller: SessionController | null = null;
+  private recorder: SessionRecorder | null = null;
+  private sessionMetrics: SessionMetrics | null = null;
+  private transport: Promise<LiveTransport> | null = null;
+  // The current link once it has resolved, for reads that can't wait on the promise.
+  private openTransport: LiveTransport | null = null;
+  private linkUp = false;
+  private openLink: (() => Promise<void>) | null = null;
+  private reconnect: ReconnectSupervisor | null = null;
+  private degraded = false;
+  private localGuardian: LocalGuardian | null = null;
+  private frameTimer: ReturnType<typeof setInterval> | null = null;
+  private prevFrame: PixelFrame | null = null;
+  private prevRegionArea = 0;
+  private lastFrameSentAt = 0;
+  private lastPreWarningAt = 0;
+  private currentAlert: HazardReport | null = null;
+  private alertTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: GuardianSessionOptions) {
+    super();
+    this.currentProfile = options.profile;
+    this.currentLocale = options.locale ?? 'en';
+    this.tools = options.tools ?? new ToolRegistry();
+    this.media = options.media ?? deviceMediaSources;
+    this.mediaConfig = options.mediaConfig ?? DEFAULT_MEDIA_CONFIG;
+    this.speak = options.speak ?? speakAloud;
+    this.earconsEnabled = options.earcons ?? true;
+  }
+
+  get status(): SessionStatus {
+    return this.currentStatus;
+  }
+
+  get profile(): GuardianProfile {
+    return this.currentProfile;
+  }
+
+  get locale(): Locale {
+    return this.currentLocale;
+  }
+
+  /** Strings in the session's language, for shells and plugins that speak through it. */
+  get messages(): Messages {
+    return getMessages(this.currentLocale);
+  }
+
+  /** Strings in the language the model speaks, which a profile can set apart from the app's. */
+  private get narrationMessages(): Messages {
+    return getMessages(detectLocale([this.currentProfile.language || LOCALES[this.currentLocale].language]));
+  }
+
+  get alert(): HazardReport | null {
+    return this.currentAlert;
+  }
+
+  get isLinkUp(): boolean {
+    return this.linkUp;
+  }
+
+  /** Counters for the current session, or the last one once stopped. Null before the first start. */
+  get metrics(): SessionMetrics | null {
+    return this.sessionMetrics;
+  }
+
+  /**
+   * Shows the camera on the given element (usable as a React callback ref).
+   * Without one the session captures from a hidden element of its own.
+   */
+  attachVideo = (video: HTMLVideoElement | null) => {
+    this.video = video;
+    if (video && this.stream && video.srcObject !== this.stream) {
+      video.srcObject = this.stream;
+      video.play().catch(console.warn);
+    }
+  };
+
+  /** Puts a message in the live region and, unless told not to, says it. */
+  announce(message: string, spoken = true): void {
+    this.emit('announcement', message);
+    if (spoken) this.speak(message, this.currentProfile.speakingRate);
+  }
+
+  async start(): Promise<void> {
+    if (this.currentStatus !== SessionStatus.IDLE && this.currentStatus !== SessionStatus.ERROR) return;
+    const run = ++this.run;
+    const live = () => this.run === run;
+    const metrics = new SessionMetrics();
+    this.sessionMetrics = metrics;
+    try {
+      window.speechSynthesis?.cancel();
+      this.setError(null);
+      this.setStatus(SessionStatus.CONNECTING);
+      this.emit('narration', '');
+      this.announce(this.messages.session.activating, false);
+
+      const stream = await this.media.open();
+      if (!live()) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      this.stream = stream;
+      const video = this.captureVideo();
+      video.srcObject = stream;
+      await video.play().catch(console.warn);
+
+      const { audio: audioConfig, video: videoConfig } = this.mediaConfig;
+      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: audioConfig.inputSampleRate });
+      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: audioConfig.outputSampleRate });
+      this.inputCtx = inputCtx;
+      this.outputCtx = outputCtx;
+      const captureNode = await createCaptureNode(inputCtx, audioConfig);
+      if (!live()) return;
+      // Narration runs outputNode (user volume / pause) -> narrationBus (ducked by earcons) -> speakers.
+      const outputNode = outputCtx.createGain();
+      const narrationBus = outputCtx.createGain();
+      outputNode.connect(narrationBus);
+      narrationBus.connect(outputCtx.destination);
+      this.outputNode = outputNode;
+      this.applyOutputGain();
+      this.earcons = new EarconPlayer(outputCtx, narrationBus);
+
+      const audio = new AudioScheduler(outputCtx, outputNode, audioConfig.outputSampleRate);
+      this.audio = audio;
+      const controller = new SessionController({
+        runTool: (call) => this.runTool(call),
+        sendToolResponse: (params) => this.transport?.then(s => s.sendToolResponse(params)).catch(() => {}),
+        onNarration: (text) => this.emit('narration', text),
+        onHazard: (report) => this.raiseHazard(report),
+        onTurn: (message) => this.emit('turn', message),
+        // The server is about to drop us; resume on a fresh link before it does.
+        onGoAway: () => this.handOver(),
+        onNarrationAudio: () => metrics.recordNarrationAudio(),
+        onAudioDecodeFailed: () => metrics.recordDecodeFailure(),
+        onTurnEnd: () => metrics.recordTurnEnd(),
+        onUsage: (usage) => metrics.recordUsage(usage),
+      }, audio, { ...DEFAULT_CONTROLLER_OPTIONS, threatKeywords: this.narrationMessages.threatKeywords });
+      this.controller = controller;
+
+      let connect: ConnectLive | null = null;
+      let unavailable = '';
+      try {
+        connect = await this.options.connect();
+      } catch (e) {
+        unavailable = e instanceof Error ? e.message : this.messages.session.guardianUnavailable;
+        metrics.recordError(e);
+      }
+      if (!live()) return;
+      this.recorder = connect && this.options.record ? new SessionRecorder() : null;
+      if (connect && this.recorder) connect = this.recorder.wrap(connect);
+
+      // Resolves once the new link is open; rejects if it fails before opening.
+      const openLink = () => new Promise<void>((resolve, reject) => {
+        const previous = this.transport;
+        if (previous) previous.then(s => { try { s.close(); } catch (e) {} }).catch(() => {});
+        this.openTransport = null;
+        this.linkUp = false;
+
+        let opened = false;
+        const profile = this.currentProfile;
+        const locale = LOCALES[this.currentLocale];
+        const language = profile.language || locale.language;
+        const transport = connect!({
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            languageCode: language,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: profile.voice || locale.voice } },
+          },
+          systemInstruction: buildSystemInstruction(profile, language, this.narrationMessages.warningWords),
+          outputAudioTranscription: {},
+          inputAudioTranscription: {},
+          sessionResumption: { handle: controller.resumeHandle ?? undefined },
+          tools: [{ functionDeclarations: [...this.tools.declarations, reportHazardTool] }]
+        }, {
+          onopen: () => {
+            if (!live()) return;
+            opened = true;
+            this.linkUp = true;
+            metrics.recordConnected();
+            resolve();
+          },
+          onmessage: (msg) => {
+            if (live()) controller.handleMessage(msg).catch(e => console.error("Live message failed:", e));
+          },
+          onerror: (e) => {
+            if (!live()) return;
+            console.error("Live Error:", e);
+            metrics.recordError(e);
+            dropLink(e);
+          },
+          onclose: (e) => {
+            if (live()) dropLink(e);
+          }
+        });
+        const dropLink = (reason: unknown) => {
+          // Ignore stragglers from a link that has already been replaced.
+          if (this.transport !== transport) return;
+          this.linkUp = false;
+          if (!opened) reject(reason);
+          else this.reconnect?.connectionLost();
+        };
+        this.transport = transport;
+        transport.then(s => { if (this.transport === transport) this.openTransport = s; }, reject);
+      });
+
+      this.openLink = openLink;
+      this.reconnect = new ReconnectSupervisor({
+        connect: openLink,
+        onReconnecting: (attempt) => {
+          metrics.recordReconnectAttempt();
+          if (this.degraded) return;
+          this.setStatus(SessionStatus.RECONNECTING);
+          this.announce(this.messages.session.reconnectingAttempt(attempt), false);
+          if (attempt === 1) this.speak(this.messages.session.connectionLost);
+        },
+        onReconnected: () => {
+          metrics.recordReconnected();
+          const wasDegraded = this.degraded;
+          this.degraded = false;
+          this.localGuardian = null;
+          this.setStatus(SessionStatus.ACTIVE);
+          this.setError(null);
+          const { fullGuardianBack, backOnline, backOnlineWatching } = this.messages.session;
+          const message = wasDegraded ? fullGuardianBack : backOnline;
+          this.announce(wasDegraded ? message : backOnlineWatching, false);
+          this.speak(message);
+        },
+        onDegraded: () => this.enterDegradedMode(),
+        onGiveUp: (e) => {
+          // The local guardian keeps running; only a restart tries the link again.
+          metrics.recordError(e ?? new Error('Gave up reconnecting'));
+          this.setError(this.messages.session.reconnectGaveUp);
+          this.announce(this.messages.session.reconnectGaveUp);
+        },
+      }, LIVE_RETRY_BACKOFF);
+
+      // Capture runs from the start, whether or not the Live link comes up, so
+      // the local guardian has frames to work with when it doesn't.
+      const source = inputCtx.createMediaStreamSource(stream);
+      captureNode.port.onmessage = (e: MessageEvent<CaptureMessage>) => {
+        if (!live()) return;
+        if (e.data.type === 'silence') {
+          if (this.sendRealtime({ audioStreamEnd: true })) metrics.recordAudioStreamEnd();
+          return;
+        }
+        const data = encode(new Uint8Array(e.data.pcm));
+        if (this.sendRealtime({ media: { data, mimeType: `audio/pcm;rate=${audioConfig.inputSampleRate}` } })) metrics.recordAudioSent(data);
+      };
+      source.connect(captureNode);
+
+      const frameController = new AdaptiveFrameController(videoConfig);
+      const frameQueue = new FrameSendQueue({
+        send: (data) => {
+          if (this.sendRealtime({ media: { data, mimeType: 'image/jpeg' } })) metrics.recordFrameSent(data);
+        },
+        backlog: () => this.openTransport?.bufferedAmount?.() ?? 0,
+        onSent: (latency) => frameController.recordSent(latency),
+        onDropped: (reason) => {
+          frameController.recordDropped();
+          metrics.recordFrameDropped(reason);
+        },
+      }, videoConfig);
+
+      const c = this.canvas ?? (this.canvas = document.createElement('canvas'));
+      let tick = 0;
+      this.frameTimer = setInterval(() => {
+        // Keeps sampling while reconnecting so the local pre-warning still works.
+        if (!live() || this.framesPaused) return;
+        // A stretched interval (e.g. on low battery) skips ticks rather than rebuilding the timer.
+        if (++tick % Math.max(1, Math.round(this.frameIntervalScale)) !== 0) return;
+        const v = this.captureVideo();
+        if (v.readyState < 2) return;
+        const ctx = c.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return;
+        const { width, quality, intervalMs } = frameController.current;
+        c.width = width;
+        c.height = (v.videoHeight / v.videoWidth) * width;
+        ctx.drawImage(v, 0, 0, c.width, c.height);
+
+        const frame = ctx.getImageData(0, 0, c.width, c.height);
+        const scene = this.degraded ? sceneStats(this.prevFrame, frame) : null;
+        const motion = analyzeMotion(this.prevFrame, frame, this.prevRegionArea);
+        this.prevFrame = frame;
+        this.prevRegionArea = motion.regionArea;
+
+        const now = Date.now();
+        if (motion.approaching && !this.currentAlert && now - this.lastPreWarningAt > PRE_WARNING_COOLDOWN_MS) {
+          // Haptic heads-up before the model has had a chance to look.
+          this.lastPreWarningAt = now;
+          if ("vibrate" in navigator) navigator.vibrate(PRE_WARNING_VIBRATION);
+        }
+
+        if (scene && this.localGuardian) {
+          for (const alert of this.localGuardian.update(scene, motion, now)) {
+            this.announce(this.messages.localAlerts[alert.kind](alert.direction));
+            if (alert.severity) {
+              this.raiseHazard({ kind: 'other', severity: alert.severity, direction: alert.direction, source: 'local', timestamp: now });
+            }
+          }
+        }
+
+        const cadence = {
+          staticIntervalMs: videoConfig.staticIntervalMs * this.frameIntervalScale,
+          movingIntervalMs: intervalMs * this.frameIntervalScale,
+          // Not scaled: a sudden change is worth the battery, just not every sample of it.
+          urgentIntervalMs: videoConfig.intervalMs.min,
+        };
+        if (!this.linkUp || controller.snapshotPending || !shouldSendFrame(motion, now - this.lastFrameSentAt, cadence)) return;
+        this.lastFrameSentAt = now;
+        // toBlob snapshots the canvas now, so the next draw can't leak into this frame.
+        const blob = new Promise<Blob | null>(resolve => c.toBlob(resolve, 'image/jpeg', quality));
+        frameQueue.enqueue(now, async () => {
+          const b = await blob;
+          if (!b || !live()) throw new Error('Frame capture failed');
+          return blobToBase64(b);
+        });
+      }, videoConfig.sampleIntervalMs);
+
+      if (!connect) {
+        this.setError(unavailable);
+        this.enterDegradedMode();
+        return;
+      }
+
+      openLink().then(() => {
+        if (!live()) return;
+        this.setStatus(SessionStatus.ACTIVE);
+        this.announce(this.messages.session.active, false);
+      }).catch((e) => {
+        if (!live()) return;
+        console.error("Live Error:", e);
+        metrics.recordError(e);
+        this.setError(this.messages.session.guardianDown);
+        this.enterDegradedMode();
+        this.reconnect?.connectionLost();
+      });
+    } catch (err) {
+      if (!live()) return;
+      console.warn("Guardian failed to start:", err);
+      this.run++;
+      this.teardown();
+      this.setStatus(SessionStatus.IDLE);
+      this.setError(this.messages.session.checkPermissions);
+      this.announce(this.messages.session.permissionRequired, false);
+    }
+  }
+
+  stop(): void {
+    if (this.currentStatus === SessionStatus.IDLE) return;
+    this.run++;
+    const recording = this.recorder?.events.length ? this.recorder.toJsonl() : null;
+    this.teardown();
+    if (recording) this.emit('recording', recording);
+    this.setStatus(SessionStatus.IDLE);
+    this.announce(this.messages.session.offline, false);
+  }
+
+  /** Asks the model something out of band. Returns false if the link is down. */
+  sendText(text: string): boolean {
+    if (!this.linkUp || !this.transport) return false;
+    this.transport.then(s => s.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true })).catch(() => {});
+    return true;
+  }
+
+  // Narration frames stop while a snapshot question is answered so the model
+  // stays on the still instead of talking over it about the live view.
+  async askAboutSnapshot(mode: SnapshotMode): Promise<void> {
+    const info = SNAPSHOT_MODES[mode];
+    const { label, confirmation } = this.messages.snapshot[mode];
+    const controller = this.controller;
+    if (!controller || !this.stream || !this.linkUp || !this.transport) {
+      this.announce(this.messages.session.snapshotNeedsLink(label));
+      return;
+    }
+    if (!controller.beginSnapshot()) return;
+    this.announce(confirmation);
+    try {
+      const image = await captureStillBase64(this.captureVideo());
+      this.transport?.then(s => s.sendClientContent({
+        turns: [{ role: 'user', parts: [{ inlineData: image }, { text: info.prompt }] }],
+        turnComplete: true,
+      })).catch(() => {});
+    } catch (e) {
+      console.warn("Snapshot failed:", e);
+      controller.endSnapshot();
+      this.announce(this.messages.session.snapshotFailed);
+    }
+  }
+
+  // The Live API fixes instructions and voice when a session opens, so a switch
+  // reopens the link with the new config while camera and mic keep running.
+  setProfile(profile: GuardianProfile): void {
+    this.currentProfile = profile;
+    this.controller?.setThreatKeywords(this.narrationMessages.threatKeywords);
+    this.reopenLink(() => this.messages.session.profileActive(profileDisplayName(profile, this.messages.profiles.builtInNames)));
+  }
+
+  /** Switches announcements to a new language; narration follows too unless the profile fixes its own. */
+  setLocale(locale: Locale): void {
+    if (locale === this.currentLocale) return;
+    this.currentLocale = locale;
+    this.controller?.setThreatKeywords(this.narrationMessages.threatKeywords);
+    if (!this.currentProfile.language || !this.currentProfile.voice) this.reopenLink(null);
+  }
+
+  get narrationVolume(): number {
+    return this.volume;
+  }
+
+  setNarrationVolume(volume: number): void {
+    this.volume = volume;
+    this.applyOutputGain();
+  }
+
+  setNarrationPaused(paused: boolean): void {
+    this.narrationPaused = paused;
+    this.applyOutputGain();
+  }
+
+  setEarconsEnabled(enabled: boolean): void {
+    this.earconsEnabled = enabled;
+  }
+
+  /** Stops sampling and sending camera frames (e.g. while the page is hidden). Audio carries on. */
+  setFramesPaused(paused: boolean): void {
+    this.framesPaused = paused;
+    // Motion is measured frame to frame; don't compare against a frame from before the pause.
+    this.prevFrame = null;
+    this.prevRegionArea = 0;
+  }
+
+  /** Stretches frame sampling and upload intervals by this factor; 1 is normal. */
+  setFrameIntervalScale(scale: number): void {
+    this.frameIntervalScale = Math.max(1, scale);
+  }
+
+  /** The most recent sampled frame as a data URL, or null if the camera isn't running. */
+  captureFrame(quality = 0.7): string | null {
+    if (!this.stream || !this.canvas?.width) return null;
+    return this.canvas.toDataURL('image/jpeg', quality);
+  }
+
+  clearAlert(): void {
+    if (this.alertTimer) clearTimeout(this.alertTimer);
+    this.alertTimer = null;
+    if (!this.currentAlert) return;
+    this.currentAlert = null;
+    this.emit('alert', null);
+  }
+
+  private async runTool(call: FunctionCall): Promise<unknown> {
+    const startedAt = performance.now();
+    const result = await this.tools.run(call);
+    const durationMs = performance.now() - startedAt;
+    const failed = !!result && typeof result === 'object' && 'error' in result;
+    this.sessionMetrics?.recordToolCall(call.name ?? 'unknown', durationMs, failed);
+    this.emit('toolCall', { call, result, durationMs });
+    return result;
+  }
+
+  private raiseHazard(report: HazardReport): void {
+    if (report.source === 'tool' && !this.currentProfile.alarmKinds.includes(report.kind)) return;
+    this.emit('hazard', report);
+    // Never let a minor follow-up hide a more serious alert that is still showing.
+    const current = this.currentAlert;
+    if (current && compareSeverity(report.severity, current.severity) < 0) return;
+    const response = HAZARD_RESPONSES[report.severity];
+    this.currentAlert = report;
+    this.emit('alert', report);
+    if ("vibrate" in navigator) navigator.vibrate(response.vibration);
+    if (this.earconsEnabled) this.earcons?.play(report);
+    if (this.alertTimer) clearTimeout(this.alertTimer);
+    this.alertTimer = setTimeout(() => this.clearAlert(), response.durationMs);
+  }
+
+  private reopenLink(announcement: (() => string) | null): void {
+    const openLink = this.openLink;
+    if (!openLink || this.currentStatus !== SessionStatus.ACTIVE) return;
+    if (this.controller) this.controller.resumeHandle = null;
+    openLink()
+      .then(() => { if (announcement) this.announce(announcement()); })
+      .catch(() => this.reconnect?.connectionLost());
+  }
+
+  // A goAway is routine, so the user isn't told about it: the new link picks
+  // up from the resume handle, and only a failure to open counts as an outage.
+  private handOver(): void {
+    const openLink = this.openLink;
+    if (!openLink || this.reconnect?.isReconnecting) return;
+    openLink().catch(() => this.reconnect?.connectionLost());
+  }
+
+  private enterDegradedMode(): void {
+    if (this.degraded || this.currentStatus === SessionStatus.IDLE) return;
+    this.degraded = true;
+    this.sessionMetrics?.recordReducedMode();
+    this.localGuardian = new LocalGuardian();
+    this.audio?.stop();
+    this.setStatus(SessionStatus.DEGRADED);
+    this.announce(this.messages.session.reducedMode);
+  }
+
+  // Media keeps flowing through whichever link is current, so the capture
+  // pipeline survives a reconnect without being rebuilt.
+  // Returns false if there was no link to send on.
+  private sendRealtime(input: LiveSendRealtimeInputParameters): boolean {
+    if (!this.linkUp || !this.transport) return false;
+    this.transport.then(s => s.sendRealtimeInput(input)).catch(() => {});
+    return true;
+  }
+
+  private captureVideo(): HTMLVideoElement {
+    if (this.video) return this.video;
+    if (!this.ownVideo) {
+      this.ownVideo = document.createElement('video');
+      this.ownVideo.muted = true;
+      this.ownVideo.playsInline = true;
+    }
+    return this.ownVideo;
+  }
+
+  private applyOutputGain(): void {
+    if (this.outputNode) this.outputNode.gain.value = this.narrationPaused ? 0 : this.volume;
+  }
+
+  private setStatus(status: SessionStatus): void {
+    if (this.currentStatus === status) return;
+    this.currentStatus = status;
+    this.emit('status', status);
+  }
+
+  private setError(error: string | null): void {
+    this.emit('error', error);
+  }
+
+  private teardown(): void {
+    // Flushes the last half-spoken turn to listeners before anything else goes.
+    this.controller?.dispose();
+    this.controller = null;
+    this.audio = null;
+    this.recorder = null;
+    this.reconnect?.dispose();
+    this.reconnect = null;
+    this.openLink = null;
+    this.linkUp = false;
+    if (this.frameTimer) clearInterval(this.frameTimer);
+    this.frameTimer = null;
+    this.prevFrame = null;
+    this.prevRegionArea = 0;
+
+    if (this.transport) {
+      this.transport.then(s => {
+        try { s.close(); } catch (e) {}
+      }).catch(() => {});
+      this.transport = null;
+    }
+    this.openTransport = null;
+
+    this.degraded = false;
+    this.localGuardian = null;
+
+    if (this.inputCtx && this.inputCtx.state !== 'closed') this.inputCtx.close();
+    if (this.outputCtx && this.outputCtx.state !== 'closed') this.outputCtx.close();
+    this.inputCtx = null;
+    this.outputCtx = null;
+    this.outputNode = null;
+    this.earcons?.dispose();
+    this.earcons = null;
+
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.stream = null;
+    for (const video of [this.video, this.ownVideo]) {
+      if (video) video.srcObject = null;
+    }
+
+    this.narrationPaused = false;
+    this.framesPaused = false;
+    this.clearAlert();
+  }
+}
@@ -0,0 +1,82 @@
+import { Type, FunctionDeclaration } from '@google/genai';
+import { LocationToolResult } from '../types';
+import { getCurrentFix } from './location';
+import { loadPlaces, addPlace, findPlace, directionsTo } from './places';
+import { GuardianTool, ToolRegistry } from './toolRegistry';
+
+const locationTool: FunctionDeclaration = {
+  name: 'get_location_address',
+  description: 'Gets the users current street address and precise GPS coordinates, with the fix accuracy, heading, speed and age. The address may be null when offline.',
+  parameters: { type: Type.OBJECT, properties: {}, required: [] },
+};
+
+const listSavedPlacesTool: FunctionDeclaration = {
+  name: 'list_saved_places',
+  description: 'Lists the labels of places the user has saved, such as "home" or "pharmacy door".',
+  parameters: { type: Type.OBJECT, properties: {}, required: [] },
+};
+
+const distanceAndBearingTool: FunctionDeclaration = {
+  name: 'distance_and_bearing_to',
+  description: 'Gets the distance in metres and direction from the user to one of their saved places.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: { place: { type: Type.STRING, description: 'Label of the saved place.' } },
+    required: ['place'],
+  },
+};
+
+const saveCurrentLocationTool: FunctionDeclaration = {
+  name: 'save_current_location',
+  description: 'Saves where the user is standing now under a label they chose. Only call this when the user asks.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: { label: { type: Type.STRING, description: 'Name for the place, e.g. "bus stop on 5th".' } },
+    required: ['label'],
+  },
+};
+
+const locationError = (e: unknown) => ({ error: e instanceof Error ? e.message : "Location unavailable." });
+
+/** `locate` is passed in so the shell can remember the last address it looked up, e.g. for SOS. */
+export function createLocationTool(locate: () => Promise<LocationToolResult>): GuardianTool {
+  return { declaration: locationTool, run: () => locate() };
+}
+
+export const listSavedPlaces: GuardianTool = {
+  declaration: listSavedPlacesTool,
+  run: () => ({ places: loadPlaces().map(p => p.label) }),
+};
+
+export const distanceAndBearingTo: GuardianTool = {
+  declaration: distanceAndBearingTool,
+  run: async (args) => {
+    const place = findPlace(loadPlaces(), String(args.place ?? ''));
+    if (!place) return { error: `No saved place called "${args.place}".` };
+    try {
+      return directionsTo(place, await getCurrentFix());
+    } catch (e) {
+      return locationError(e);
+    }
+  },
+};
+
+export const saveCurrentLocation: GuardianTool = {
+  declaration: saveCurrentLocationTool,
+  run: async (args) => {
+    const label = String(args.label ?? '').trim();
+    if (!label) return { error: "A label is required." };
+    try {
+      const fix = await getCurrentFix();
+      const place = addPlace(label, fix);
+      return { saved: place.label, accuracyMeters: Math.round(fix.accuracy) };
+    } catch (e) {
+      return locationError(e);
+    }
+  },
+};
+
+/** The standard navigation tools: where am I, and the user's saved places. */
+export function createDefaultTools(locate: () => Promise<LocationToolResult>): ToolRegistry {
+  return new ToolRegistry([createLocationTool(locate), listSavedPlaces, distanceAndBearingTo, saveCurrentLocation]);
+}
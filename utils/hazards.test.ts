@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { HazardSeverity } from '../types';
+import { ar } from '../locales/ar';
+import { en } from '../locales/en';
+import { ThreatKeyword, detectKeywordHazard, parseHazardArgs } from './hazards';
+
+const keywords: ThreatKeyword[] = [
+  { phrase: 'car', severity: HazardSeverity.MEDIUM },
+  { phrase: 'stop', severity: HazardSeverity.HIGH, notIn: ['bus stop'] },
+  { phrase: 'knife', severity: HazardSeverity.CRITICAL },
+];
+const severityOf = (text: string, list = keywords) => detectKeywordHazard(text, list, 1)?.severity ?? null;
+
+describe('parseHazardArgs', () => {
+  it('reads severity in any case, direction and distance', () => {
+    expect(parseHazardArgs({ kind: 'vehicle', severity: 'High', direction: 'front-left', distance: 4.5 }, 7)).toEqual({
+      kind: 'vehicle', severity: HazardSeverity.HIGH, direction: 'front-left', distance: 4.5, source: 'tool', timestamp: 7,
+    });
+  });
+
+  it('falls back to an unknown direction and no distance rather than rejecting the report', () => {
+    expect(parseHazardArgs({ kind: 'animal', severity: 'low', direction: 'upstairs', distance: -2 }, 7))
+      .toMatchObject({ severity: HazardSeverity.LOW, direction: 'unknown', distance: undefined });
+    expect(parseHazardArgs({ kind: 'animal', severity: 'low', distance: Infinity }, 7)).toMatchObject({ direction: 'unknown', distance: undefined });
+  });
+
+  it('rejects a report without a kind or with a severity it does not know', () => {
+    expect(parseHazardArgs(undefined)).toBeNull();
+    expect(parseHazardArgs({ severity: 'high' })).toBeNull();
+    expect(parseHazardArgs({ kind: 'vehicle', severity: 'apocalyptic' })).toBeNull();
+    expect(parseHazardArgs({ kind: 'vehicle', severity: 3 })).toBeNull();
+  });
+});
+
+describe('detectKeywordHazard', () => {
+  it('matches whole words only', () => {
+    expect(severityOf('A car is pulling out.')).toBe(HazardSeverity.MEDIUM);
+    expect(severityOf('Careful, the carpet is loose by the scar on the wall.')).toBeNull();
+    expect(severityOf('Car!')).toBe(HazardSeverity.MEDIUM);
+  });
+
+  it('ignores a keyword inside a harmless phrase, but not elsewhere in the same text', () => {
+    expect(severityOf('The bus stop is on your right.')).toBeNull();
+    expect(severityOf('Stop! The bus stop is behind a barrier.')).toBe(HazardSeverity.HIGH);
+  });
+
+  it('reports the worst severity among the keywords heard', () => {
+    expect(detectKeywordHazard('Stop, there is a car and someone holding a knife.', keywords, 42)).toEqual({
+      kind: 'other', severity: HazardSeverity.CRITICAL, direction: 'unknown', source: 'keyword', timestamp: 42,
+    });
+  });
+
+  it('uses each locale\'s own words', () => {
+    expect(severityOf('WARNING: low branch ahead.', en.threatKeywords)).toBe(HazardSeverity.MEDIUM);
+    expect(severityOf('Wait at the bus stop.', en.threatKeywords)).toBeNull();
+    expect(severityOf('Una navaja', en.threatKeywords)).toBeNull();
+    const arabic = ar.threatKeywords[0];
+    expect(severityOf(`${arabic.phrase}!`, ar.threatKeywords)).toBe(arabic.severity);
+  });
+});
@@ -0,0 +1,99 @@
+
+import { Type, FunctionDeclaration } from '@google/genai';
+import { HazardSeverity, HazardDirection, HazardReport } from '../types';
+import { foldForMatching } from './i18n';
+
+export const HAZARD_KINDS = ['vehicle', 'bicycle', 'person', 'animal', 'obstacle', 'stairs', 'drop-off', 'weapon', 'other'];
+export const HAZARD_DIRECTIONS: HazardDirection[] = ['left', 'front-left', 'ahead', 'front-right', 'right', 'behind', 'unknown'];
+const SEVERITY_ORDER = [HazardSeverity.LOW, HazardSeverity.MEDIUM, HazardSeverity.HIGH, HazardSeverity.CRITICAL];
+
+export const reportHazardTool: FunctionDeclaration = {
+  name: 'report_hazard',
+  description: 'Reports a hazard to the user\'s device so it can vibrate and show an alert. Call this every time you warn the user about something.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, enum: HAZARD_KINDS, description: 'What the hazard is.' },
+      severity: {
+        type: Type.STRING,
+        enum: ['low', 'medium', 'high', 'critical'],
+        description: 'low: worth knowing; medium: adjust path; high: act now; critical: immediate danger to the user.',
+      },
+      direction: { type: Type.STRING, enum: HAZARD_DIRECTIONS, description: 'Where the hazard is relative to the camera.' },
+      distance: { type: Type.NUMBER, description: 'Estimated distance in metres.' },
+    },
+    required: ['kind', 'severity'],
+  },
+};
+
+export interface HazardResponse {
+  vibration: number[];
+  durationMs: number;
+  /** Tailwind colour stem used for the overlay, e.g. `red` -> `border-red-600`. */
+  color: 'yellow' | 'orange' | 'red';
+  fullScreen: boolean;
+}
+
+export const HAZARD_RESPONSES: Record<HazardSeverity, HazardResponse> = {
+  [HazardSeverity.LOW]: { vibration: [80], durationMs: 2000, color: 'yellow', fullScreen: false },
+  [HazardSeverity.MEDIUM]: { vibration: [200, 100, 200], durationMs: 3000, color: 'orange', fullScreen: false },
+  [HazardSeverity.HIGH]: { vibration: [300, 100, 300, 100, 300], durationMs: 5000, color: 'red', fullScreen: true },
+  [HazardSeverity.CRITICAL]: { vibration: [600, 100, 600, 100, 600, 100, 600], durationMs: 7000, color: 'red', fullScreen: true },
+};
+
+export function compareSeverity(a: HazardSeverity, b: HazardSeverity): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+export function parseHazardArgs(args: Record<string, unknown> | undefined, now = Date.now()): HazardReport | null {
+  if (!args || typeof args.kind !== 'string' || typeof args.severity !== 'string') return null;
+  const severity = args.severity.toUpperCase() as HazardSeverity;
+  if (!SEVERITY_ORDER.includes(severity)) return null;
+  const direction = HAZARD_DIRECTIONS.includes(args.direction as HazardDirection) ? args.direction as HazardDirection : 'unknown';
+  const distance = typeof args.distance === 'number' && isFinite(args.distance) && args.distance >= 0 ? args.distance : undefined;
+  return { kind: args.kind, severity, direction, distance, source: 'tool', timestamp: now };
+}
+
+export interface ThreatKeyword {
+  phrase: string;
+  severity: HazardSeverity;
+  /** Longer phrases that contain this one but aren't warnings, e.g. "bus stop" for "stop". */
+  notIn?: string[];
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const wholePhrase = (phrase: string, flags = 'u') =>
+  new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escapeRegExp(foldForMatching(phrase))}(?![\\p{L}\\p{M}\\p{N}])`, flags);
+
+// Fallback only: used when the model speaks a warning without calling report_hazard.
+// Each locale brings its own vocabulary. Phrases must stand as whole words, so
+// "car" doesn't fire on "careful"; `\b` only knows ASCII, hence the lookarounds.
+export function detectKeywordHazard(text: string, keywords: ThreatKeyword[], now = Date.now()): HazardReport | null {
+  const folded = foldForMatching(text);
+  let worst: HazardSeverity | null = null;
+  for (const { phrase, severity, notIn = [] } of keywords) {
+    const rest = notIn.reduce((t, harmless) => t.replace(wholePhrase(harmless, 'gu'), ' '), folded);
+    if (!wholePhrase(phrase).test(rest)) continue;
+    if (!worst || compareSeverity(severity, worst) > 0) worst = severity;
+  }
+  if (!worst) return null;
+  return { kind: 'other', severity: worst, direction: 'unknown', source: 'keyword', timestamp: now };
+}
+
+export interface HazardLabels {
+  kinds: Record<string, string>;
+  directions: Record<HazardDirection, string>;
+  meters: (meters: number) => string;
+}
+
+/** A short line like "vehicle · front-left · 5 m", in the given labels when there are some. */
+export function describeHazard(hazard: HazardReport, labels?: HazardLabels): string {
+  const parts = [labels?.kinds[hazard.kind] ?? hazard.kind];
+  if (hazard.direction !== 'unknown') parts.push(labels?.directions[hazard.direction] ?? hazard.direction);
+  if (hazard.distance !== undefined) {
+    const meters = Math.round(hazard.distance);
+    parts.push(labels ? labels.meters(meters) : `${meters} m`);
+  }
+  return parts.join(' · ');
+}
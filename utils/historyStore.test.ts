@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { es } from '../locales/es';
+import { formatHistoryAsText } from './historyStore';
+
+describe('formatHistoryAsText', () => {
+  it('writes the log in the given language', () => {
+    const session = { id: 's1', startedAt: Date.UTC(2025, 0, 2, 9, 30), endedAt: Date.UTC(2025, 0, 2, 10) };
+    const text = formatHistoryAsText(session, [
+      { text: '¿Dónde estoy?', type: 'user', timestamp: session.startedAt },
+      { text: 'En la calle Mayor.', type: 'model', timestamp: session.startedAt + 1000 },
+    ], es.history, 'es-ES');
+
+    const lines = text.split('\n');
+    expect(lines[0]).toMatch(/^Registro de paseo de DEJA VU, empezó el .+, terminó el .+$/);
+    expect(lines[1]).toBe('');
+    expect(lines[2]).toMatch(/^\[.+\] Tú: ¿Dónde estoy\?$/);
+    expect(lines[3]).toMatch(/^\[.+\] Guardián: En la calle Mayor\.$/);
+  });
+});
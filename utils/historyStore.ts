@@ -0,0 +1,99 @@
+
+import { HistorySession, TranscriptionMessage } from '../types';
+import { en } from '../locales/en';
+import { Messages } from './i18n';
+
+const DB_NAME = 'deja-vu-history';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const MESSAGES = 'messages';
+
+interface StoredMessage extends TranscriptionMessage {
+  sessionId: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        const messages = db.createObjectStore(MESSAGES, { autoIncrement: true });
+        messages.createIndex('sessionId', 'sessionId');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function wrap<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+export async function createHistorySession(startedAt = Date.now()): Promise<string> {
+  const session: HistorySession = { id: crypto.randomUUID(), startedAt };
+  await wrap((await store(SESSIONS, 'readwrite')).put(session));
+  return session.id;
+}
+
+export async function endHistorySession(id: string, endedAt = Date.now()): Promise<void> {
+  const sessions = await store(SESSIONS, 'readwrite');
+  const session = await wrap<HistorySession | undefined>(sessions.get(id));
+  if (session) await wrap(sessions.put({ ...session, endedAt }));
+}
+
+export async function appendHistoryMessage(sessionId: string, message: TranscriptionMessage): Promise<void> {
+  const record: StoredMessage = { ...message, sessionId };
+  await wrap((await store(MESSAGES, 'readwrite')).add(record));
+}
+
+/** Newest session first. */
+export async function listHistorySessions(): Promise<HistorySession[]> {
+  const sessions = await wrap<HistorySession[]>((await store(SESSIONS, 'readonly')).getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getHistoryMessages(sessionId: string): Promise<TranscriptionMessage[]> {
+  const index = (await store(MESSAGES, 'readonly')).index('sessionId');
+  const records = await wrap<StoredMessage[]>(index.getAll(sessionId));
+  return records
+    .map(({ text, type, timestamp }) => ({ text, type, timestamp }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function formatHistoryAsJson(session: HistorySession, messages: TranscriptionMessage[]): string {
+  return JSON.stringify({ session, messages }, null, 2);
+}
+
+/** A plain-text log in the given strings, with dates and times in `language` (a BCP-47 tag). */
+export function formatHistoryAsText(
+  session: HistorySession,
+  messages: TranscriptionMessage[],
+  strings: Messages['history'] = en.history,
+  language?: string,
+): string {
+  const header = strings.logHeading(
+    new Date(session.startedAt).toLocaleString(language),
+    session.endedAt ? new Date(session.endedAt).toLocaleString(language) : null,
+  );
+  const lines = messages.map(m =>
+    `[${new Date(m.timestamp).toLocaleTimeString(language)}] ${m.type === 'model' ? strings.guardian : strings.you}: ${m.text}`
+  );
+  return [header, '', ...lines].join('\n');
+}
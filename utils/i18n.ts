@@ -0,0 +1,77 @@
+import { en, Messages } from '../locales/en';
+import { es } from '../locales/es';
+import { hi } from '../locales/hi';
+import { ar } from '../locales/ar';
+
+export type { Messages };
+
+const STORAGE_KEY = 'deja-vu-locale';
+
+export type Locale = 'en' | 'es' | 'hi' | 'ar';
+
+export interface LocaleInfo {
+  code: Locale;
+  /** The language's own name for itself, so it can be found whatever language the app is in. */
+  name: string;
+  dir: 'ltr' | 'rtl';
+  /** BCP-47 tag for narration, speech recognition and on-device speech. */
+  language: string;
+  /** Live API voice used when the profile doesn't pick one. */
+  voice: string;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { code: 'en', name: 'English', dir: 'ltr', language: 'en-US', voice: 'Charon' },
+  es: { code: 'es', name: 'Español', dir: 'ltr', language: 'es-ES', voice: 'Orus' },
+  hi: { code: 'hi', name: 'हिन्दी', dir: 'ltr', language: 'hi-IN', voice: 'Puck' },
+  ar: { code: 'ar', name: 'العربية', dir: 'rtl', language: 'ar-EG', voice: 'Fenrir' },
+};
+
+const MESSAGES: Record<Locale, Messages> = { en, es, hi, ar };
+
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+/** The first supported language in the browser's preference list, or English. */
+export function detectLocale(languages: readonly string[] = navigator.languages?.length ? navigator.languages : [navigator.language]): Locale {
+  for (const tag of languages) {
+    const primary = tag?.toLowerCase().split('-')[0];
+    if (primary && primary in LOCALES) return primary as Locale;
+  }
+  return 'en';
+}
+
+/** The language the user picked, or null to follow the device. */
+export function loadLocaleOverride(): Locale | null {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved && saved in LOCALES ? saved as Locale : null;
+}
+
+export function saveLocaleOverride(locale: Locale | null): void {
+  if (locale) localStorage.setItem(STORAGE_KEY, locale);
+  else localStorage.removeItem(STORAGE_KEY);
+}
+
+export function resolveLocale(): Locale {
+  return loadLocaleOverride() ?? detectLocale();
+}
+
+/** Sets `lang` and `dir` on the page so screen readers pronounce it right and layout mirrors for Arabic. */
+export function applyDocumentLocale(locale: Locale): void {
+  document.documentElement.lang = LOCALES[locale].language;
+  document.documentElement.dir = LOCALES[locale].dir;
+}
+
+/**
+ * Folds text for phrase matching across scripts: lower case, composed
+ * characters, and Arabic written with or without hamza seats and vowel marks,
+ * which speech recognisers and the model use inconsistently.
+ */
+export function foldForMatching(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/[\u064B-\u0652]/g, '');
+}
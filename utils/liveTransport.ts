@@ -0,0 +1,42 @@
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveServerMessage,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveSendClientContentParameters,
+} from '@google/genai';
+
+/** The slice of a Live session the guardian uses. The SDK's `Session` satisfies it as-is. */
+export interface LiveTransport {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  close(): void;
+  /** Bytes sent but still waiting in the socket's buffer, where the link can tell. */
+  bufferedAmount?(): number;
+}
+
+export interface LiveTransportCallbacks {
+  onopen?: () => void;
+  onmessage: (msg: LiveServerMessage) => void;
+  onerror?: (e: unknown) => void;
+  onclose?: (e: unknown) => void;
+}
+
+/**
+ * Opens a Live link. The app only ever talks to the model through one of these,
+ * so a recorder or a replayed file can stand in for the real API.
+ */
+export type ConnectLive = (config: LiveConnectConfig, callbacks: LiveTransportCallbacks) => Promise<LiveTransport>;
+
+export function createGenAIConnect(apiKey: string, model: string): ConnectLive {
+  const ai = new GoogleGenAI({ apiKey });
+  return async (config, callbacks) => {
+    const session = await ai.live.connect({ model, config, callbacks });
+    // The SDK keeps its browser socket to itself, but its buffer is the only
+    // honest measure of how fast frames actually leave.
+    const socket = () => (session.conn as unknown as { ws?: WebSocket }).ws;
+    return Object.assign(session, { bufferedAmount: () => socket()?.bufferedAmount ?? 0 });
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { HazardSeverity } from '../types';
+import { LocalAlert, LocalGuardian, sceneStats } from './localGuardian';
+import { MotionAnalysis, PixelFrame, analyzeMotion } from './motion';
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+/** A flat grey frame, optionally with the ground from `ground.from` (a fraction of the height) down in another grey, and a white box. */
+function frame(grey: number, ground?: { from: number; grey: number }, box?: { x: number; y: number; w: number; h: number }): PixelFrame {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const inBox = box && x >= box.x && x < box.x + box.w && y >= box.y && y < box.y + box.h;
+      const value = inBox ? 255 : ground && y >= ground.from * HEIGHT ? ground.grey : grey;
+      data.fill(value, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3);
+      data[(y * WIDTH + x) * 4 + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+const still: MotionAnalysis = { changedFraction: 0, regionArea: 0, growth: 1, centerX: 0.5, level: 'static', approaching: false };
+
+/** Feeds frames a sample apart through sceneStats, analyzeMotion and the guardian, as the session does in reduced mode. */
+function watch(frames: PixelFrame[], guardian = new LocalGuardian(undefined, 0), startAt = 0, sampleMs = 200) {
+  const alerts: (LocalAlert & { at: number })[] = [];
+  let previous: PixelFrame | null = null;
+  let regionArea = 0;
+  frames.forEach((current, i) => {
+    const at = startAt + i * sampleMs;
+    const motion = analyzeMotion(previous, current, regionArea);
+    for (const alert of guardian.update(sceneStats(previous, current), motion, at)) alerts.push({ ...alert, at });
+    previous = current;
+    regionArea = motion.regionArea;
+  });
+  return alerts;
+}
+
+const kinds = (alerts: LocalAlert[]) => alerts.map(a => a.kind);
+
+describe('sceneStats', () => {
+  it('measures brightness, and change only against a comparable frame', () => {
+    expect(sceneStats(null, frame(90))).toEqual({ meanLuma: 90, lowerChange: 0, upperChange: 0 });
+    expect(sceneStats({ ...frame(90), width: 80 }, frame(200)).lowerChange).toBe(0);
+  });
+
+  it('splits change between the ground just ahead and the rest of the view', () => {
+    const stats = sceneStats(frame(90), frame(90, { from: 2 / 3, grey: 200 }));
+    expect(stats.lowerChange).toBe(1);
+    expect(stats.upperChange).toBe(0);
+    expect(sceneStats(frame(90), frame(200))).toMatchObject({ lowerChange: 1, upperChange: 1 });
+  });
+
+  it('ignores changes too small to be more than noise', () => {
+    expect(sceneStats(frame(90), frame(120))).toMatchObject({ lowerChange: 0, upperChange: 0 });
+  });
+});
+
+describe('LocalGuardian', () => {
+  it('warns when a bright scene goes suddenly dark, once per cooldown', () => {
+    const guardian = new LocalGuardian(undefined, 0);
+    const alerts = watch([frame(120), frame(10), frame(10), frame(120), frame(10)], guardian);
+    expect(alerts).toEqual([{ kind: 'darkness', severity: HazardSeverity.MEDIUM, direction: 'unknown', at: 200 }]);
+
+    expect(watch([frame(120), frame(10)], guardian, 10000)).toEqual([expect.objectContaining({ kind: 'darkness', at: 10200 })]);
+  });
+
+  it('says nothing about a scene that was already dark or dimmed slowly', () => {
+    const dusk = [120, 100, 80, 60, 45, 30, 20].map(grey => frame(grey));
+    // Each step is two seconds, so the last bright frame is long gone by the time it is dark.
+    expect(watch(dusk, undefined, 0, 2000)).toEqual([]);
+    expect(watch([frame(10), frame(10)])).toEqual([]);
+  });
+
+  it('warns about something large coming closer, on its side', () => {
+    const centred = (size: number) => ({ x: 120 - size / 2, y: (HEIGHT - size) / 2, w: size, h: size });
+    const frames = [frame(90), ...[32, 44, 60, 80].map(size => frame(90, undefined, centred(size)))];
+    const alerts = watch(frames);
+    expect(alerts).toEqual([{ kind: 'approach', severity: HazardSeverity.HIGH, direction: 'front-right', at: expect.any(Number) }]);
+  });
+
+  it('does not warn about something approaching that is still small', () => {
+    const guardian = new LocalGuardian(undefined, 0);
+    expect(guardian.update({ meanLuma: 90, lowerChange: 0, upperChange: 0 }, { ...still, approaching: true, regionArea: 0.05, level: 'moving' }, 100)).toEqual([]);
+  });
+
+  it('warns when the ground just ahead changes while the rest of the view holds still', () => {
+    const kerb = frame(90, { from: 2 / 3, grey: 200 });
+    expect(watch([frame(90), kerb])).toEqual([{ kind: 'ground-change', severity: HazardSeverity.HIGH, direction: 'ahead', at: 200 }]);
+    // Turning round changes everything, which is no step or kerb.
+    expect(watch([frame(90), frame(200)])).toEqual([]);
+  });
+
+  it('holds each kind of alert back for its own cooldown', () => {
+    const guardian = new LocalGuardian(undefined, 0);
+    const ground = { meanLuma: 90, lowerChange: 0.6, upperChange: 0 };
+    const approach: MotionAnalysis = { ...still, approaching: true, regionArea: 0.3, centerX: 0.1, level: 'moving' };
+
+    expect(kinds(guardian.update(ground, approach, 1000))).toEqual(['approach', 'ground-change']);
+    expect(kinds(guardian.update(ground, approach, 4999))).toEqual([]);
+    expect(kinds(guardian.update(ground, approach, 5000))).toEqual(['approach']);
+    expect(kinds(guardian.update(ground, approach, 9000))).toEqual(['approach', 'ground-change']);
+  });
+
+  it('reminds the user it is in reduced mode when nothing else has been said for a while', () => {
+    const guardian = new LocalGuardian(undefined, 0);
+    const quiet = { meanLuma: 90, lowerChange: 0, upperChange: 0 };
+    expect(guardian.update(quiet, still, 89999)).toEqual([]);
+    expect(guardian.update(quiet, still, 90000)).toEqual([{ kind: 'reminder', severity: null, direction: 'unknown' }]);
+    expect(guardian.update(quiet, still, 120000)).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+
+import { HazardDirection, HazardSeverity } from '../types';
+import { MotionAnalysis, PixelFrame, luma } from './motion';
+
+export interface SceneStats {
+  /** Average brightness, 0-255. */
+  meanLuma: number;
+  /** Share of sampled pixels that changed in the bottom third (the ground just ahead). */
+  lowerChange: number;
+  /** Same for the top two thirds. */
+  upperChange: number;
+}
+
+const CHANGE_THRESHOLD = 40;
+
+export function sceneStats(previous: PixelFrame | null, current: PixelFrame, step = 8): SceneStats {
+  const { width, height, data } = current;
+  const comparable = previous && previous.width === width && previous.height === height;
+  const lowerStart = Math.floor((height * 2) / 3);
+  let total = 0, samples = 0;
+  let lowerChanged = 0, lowerSamples = 0, upperChanged = 0, upperSamples = 0;
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4;
+      const l = luma(data, i);
+      total += l;
+      samples++;
+      if (!comparable) continue;
+      const changed = Math.abs(l - luma(previous.data, i)) > CHANGE_THRESHOLD;
+      if (y >= lowerStart) {
+        lowerSamples++;
+        if (changed) lowerChanged++;
+      } else {
+        upperSamples++;
+        if (changed) upperChanged++;
+      }
+    }
+  }
+
+  return {
+    meanLuma: samples ? total / samples : 0,
+    lowerChange: lowerSamples ? lowerChanged / lowerSamples : 0,
+    upperChange: upperSamples ? upperChanged / upperSamples : 0,
+  };
+}
+
+export type LocalAlertKind = 'darkness' | 'approach' | 'ground-change' | 'reminder';
+
+/** What to say for each kind is up to the caller, so alerts can be spoken in the user's language. */
+export interface LocalAlert {
+  kind: LocalAlertKind;
+  /** Null for purely spoken alerts that shouldn't raise the hazard alarm. */
+  severity: HazardSeverity | null;
+  direction: HazardDirection;
+}
+
+export interface LocalGuardianOptions {
+  darkLuma: number;
+  /** Brightness the scene must have had recently for darkness to count as sudden. */
+  brightLuma: number;
+  /** An approaching region must cover at least this much of the frame. */
+  largeRegion: number;
+  groundChange: number;
+  /** The rest of the frame must stay below this for a ground change to count. */
+  stableUpper: number;
+  cooldownMs: Record<LocalAlertKind, number>;
+}
+
+export const DEFAULT_LOCAL_GUARDIAN_OPTIONS: LocalGuardianOptions = {
+  darkLuma: 25,
+  brightLuma: 60,
+  largeRegion: 0.15,
+  groundChange: 0.45,
+  stableUpper: 0.15,
+  cooldownMs: { 'darkness': 10000, 'approach': 4000, 'ground-change': 8000, 'reminder': 90000 },
+};
+
+function directionOf(centerX: number): HazardDirection {
+  if (centerX < 0.33) return 'front-left';
+  if (centerX > 0.66) return 'front-right';
+  return 'ahead';
+}
+
+/**
+ * The camera-only fallback used when the Live API is unreachable. Turns frame
+ * statistics into a few coarse spoken alerts, each rate-limited.
+ */
+export class LocalGuardian {
+  private lastAlertAt: Partial<Record<LocalAlertKind, number>> = {};
+  private lastBrightAt = -Infinity;
+
+  constructor(private options: LocalGuardianOptions = DEFAULT_LOCAL_GUARDIAN_OPTIONS, startedAt = Date.now()) {
+    // Don't remind straight away; the mode itself was just announced.
+    this.lastAlertAt.reminder = startedAt;
+  }
+
+  update(scene: SceneStats, motion: MotionAnalysis, now: number): LocalAlert[] {
+    const o = this.options;
+    const alerts: LocalAlert[] = [];
+    const fire = (alert: LocalAlert) => {
+      if (now - (this.lastAlertAt[alert.kind] ?? -Infinity) < o.cooldownMs[alert.kind]) return;
+      this.lastAlertAt[alert.kind] = now;
+      alerts.push(alert);
+    };
+
+    if (scene.meanLuma < o.darkLuma && now - this.lastBrightAt < 1500) {
+      fire({
+        kind: 'darkness',
+        severity: HazardSeverity.MEDIUM,
+        direction: 'unknown',
+      });
+    }
+    if (scene.meanLuma > o.brightLuma) this.lastBrightAt = now;
+
+    if (motion.approaching && motion.regionArea >= o.largeRegion) {
+      const direction = directionOf(motion.centerX);
+      fire({
+        kind: 'approach',
+        severity: HazardSeverity.HIGH,
+        direction,
+      });
+    }
+
+    if (scene.lowerChange >= o.groundChange && scene.upperChange < o.stableUpper) {
+      fire({
+        kind: 'ground-change',
+        severity: HazardSeverity.HIGH,
+        direction: 'ahead',
+      });
+    }
+
+    if (!alerts.length) {
+      fire({
+        kind: 'reminder',
+        severity: null,
+        direction: 'unknown',
+      });
+    }
+    return alerts;
+  }
+}
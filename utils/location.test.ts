@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeoFix } from '../types';
+import { CachingProvider, FallbackProvider, MockLocationProvider, createDefaultLocationProvider, describeLocation, locate } from './location';
+
+const fix: GeoFix = { latitude: 51.50012, longitude: -0.12004, accuracy: 8.4, heading: 92.6, speed: 1.2, timestamp: 1000 };
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('FallbackProvider', () => {
+  it('answers from the first provider that can', async () => {
+    const first = new MockLocationProvider('1 First Street');
+    const second = new MockLocationProvider('2 Second Street');
+    const report = await new FallbackProvider([first, second]).lookup(fix, 1500);
+
+    expect(report).toMatchObject({ provider: 'mock', address: '1 First Street', accuracyMeters: 8, headingDegrees: 93, fixAgeMs: 500, cached: false });
+    expect(second.calls).toEqual([]);
+  });
+
+  it('moves on to the next provider when one fails', async () => {
+    const failing = new MockLocationProvider(null);
+    const working = new MockLocationProvider('2 Second Street');
+    const report = await new FallbackProvider([failing, working]).lookup(fix, 1500);
+
+    expect(failing.calls).toEqual([fix]);
+    expect(report.address).toBe('2 Second Street');
+  });
+
+  it('ends with raw coordinates when every provider fails', async () => {
+    const report = await new FallbackProvider([new MockLocationProvider(null), new MockLocationProvider(null)]).lookup(fix, 1500);
+
+    expect(report).toEqual({
+      provider: 'offline',
+      address: null,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      accuracyMeters: 8,
+      headingDegrees: 93,
+      speedMps: 1.2,
+      fixAgeMs: 500,
+      cached: false,
+      note: expect.any(String),
+    });
+    expect(describeLocation(report)).toBe('Latitude 51.50012, longitude -0.12004, accurate to about 8 metres.');
+  });
+});
+
+describe('createDefaultLocationProvider', () => {
+  const geocoder = (answers: Record<string, string | null>) => vi.fn(async (url: string) => {
+    const host = new URL(url).host;
+    const address = answers[host];
+    return { ok: address !== undefined && address !== null, status: address ? 200 : 503, json: async () => ({ display_name: address }) };
+  });
+
+  it('asks a self-hosted geocoder before the public one', async () => {
+    const fetch = geocoder({ 'geo.example.org': '3 Local Road', 'nominatim.openstreetmap.org': '4 Public Road' });
+    vi.stubGlobal('fetch', fetch);
+    const report = await createDefaultLocationProvider('https://geo.example.org/').lookup(fix);
+
+    expect(report).toMatchObject({ provider: 'self-hosted', address: '3 Local Road' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toBe(`https://geo.example.org/reverse?lat=${fix.latitude}&lon=${fix.longitude}&format=json`);
+  });
+
+  it('switches to the public geocoder when the self-hosted one is down, then to coordinates', async () => {
+    vi.stubGlobal('fetch', geocoder({ 'geo.example.org': null, 'nominatim.openstreetmap.org': '4 Public Road' }));
+    expect(await createDefaultLocationProvider('https://geo.example.org').lookup(fix)).toMatchObject({ provider: 'nominatim', address: '4 Public Road' });
+
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    expect(await createDefaultLocationProvider('https://geo.example.org').lookup(fix)).toMatchObject({ provider: 'offline', address: null });
+  });
+
+  it('uses only the public geocoder when no self-hosted one is set', async () => {
+    const fetch = geocoder({ 'nominatim.openstreetmap.org': '4 Public Road' });
+    vi.stubGlobal('fetch', fetch);
+    expect(await createDefaultLocationProvider('').lookup(fix)).toMatchObject({ provider: 'nominatim' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CachingProvider', () => {
+  it('reuses an address for nearby fixes until it expires', async () => {
+    const inner = new MockLocationProvider();
+    const cache = new CachingProvider(inner, { precision: 4, ttlMs: 60000, maxEntries: 10 });
+    await cache.lookup(fix, 1000);
+    // Within the same ~11 m cell.
+    const nearby = await cache.lookup({ ...fix, latitude: 51.50014, timestamp: 2000 }, 2000);
+
+    expect(nearby).toMatchObject({ provider: 'mock', address: '1 Test Street', cached: true, latitude: 51.50014 });
+    expect(inner.calls).toHaveLength(1);
+
+    await cache.lookup(fix, 62000);
+    expect(inner.calls).toHaveLength(2);
+  });
+
+  it('does not cache coordinate-only answers', async () => {
+    const cache = new CachingProvider(new FallbackProvider([new MockLocationProvider(null)]));
+    await cache.lookup(fix, 1000);
+    expect(await cache.lookup(fix, 1001)).toMatchObject({ provider: 'offline', cached: false });
+  });
+
+  it('forgets the oldest address when full', async () => {
+    const inner = new MockLocationProvider();
+    const cache = new CachingProvider(inner, { precision: 4, ttlMs: 60000, maxEntries: 2 });
+    for (const latitude of [51.1, 51.2, 51.3, 51.1]) await cache.lookup({ ...fix, latitude }, 1000);
+    expect(inner.calls.map(f => f.latitude)).toEqual([51.1, 51.2, 51.3, 51.1]);
+  });
+});
+
+describe('locate', () => {
+  it('turns a failed fix into an error result', async () => {
+    const result = await locate(new MockLocationProvider(), () => Promise.reject(new Error('Location access denied.')));
+    expect(result).toEqual({ error: 'Location access denied.' });
+    expect(describeLocation(result)).toBe('Location access denied.');
+  });
+});
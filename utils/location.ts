@@ -0,0 +1,186 @@
+import { GeoFix, LocationReport, LocationToolResult } from '../types';
+import { en } from '../locales/en';
+
+export interface LocationProvider {
+  readonly name: string;
+  /** Resolves a fix into a report. May reject; callers chain providers to recover. */
+  lookup(fix: GeoFix, now?: number): Promise<LocationReport>;
+}
+
+function baseReport(provider: string, fix: GeoFix, now: number): LocationReport {
+  return {
+    provider,
+    address: null,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    accuracyMeters: Math.round(fix.accuracy),
+    headingDegrees: fix.heading !== null && !isNaN(fix.heading) ? Math.round(fix.heading) : null,
+    speedMps: fix.speed,
+    fixAgeMs: Math.max(0, now - fix.timestamp),
+    cached: false,
+  };
+}
+
+export interface NominatimOptions {
+  /** Base URL of a Nominatim-compatible server, e.g. a self-hosted instance. */
+  baseUrl?: string;
+  name?: string;
+  timeoutMs?: number;
+}
+
+export class NominatimProvider implements LocationProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(options: NominatimOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? 'https://nominatim.openstreetmap.org').replace(/\/+$/, '');
+    this.name = options.name ?? 'nominatim';
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  async lookup(fix: GeoFix, now = Date.now()): Promise<LocationReport> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const res = await fetch(
+        `${this.baseUrl}/reverse?lat=${fix.latitude}&lon=${fix.longitude}&format=json`,
+        { signal: controller.signal }
+      );
+      if (!res.ok) throw new Error(`${this.name} returned ${res.status}`);
+      const data = await res.json();
+      if (!data.display_name) throw new Error(`${this.name} had no address`);
+      return { ...baseReport(this.name, fix, now), address: data.display_name };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/** Never fails: reports raw coordinates, heading, accuracy and speed with no address. */
+export class OfflineProvider implements LocationProvider {
+  readonly name = 'offline';
+
+  async lookup(fix: GeoFix, now = Date.now()): Promise<LocationReport> {
+    return { ...baseReport(this.name, fix, now), note: 'Address lookup unavailable; coordinates only.' };
+  }
+}
+
+/** Tries each provider in turn and ends with the offline provider if they all fail. */
+export class FallbackProvider implements LocationProvider {
+  readonly name = 'fallback';
+  private offline = new OfflineProvider();
+
+  constructor(private providers: LocationProvider[]) {}
+
+  async lookup(fix: GeoFix, now = Date.now()): Promise<LocationReport> {
+    for (const provider of this.providers) {
+      try {
+        return await provider.lookup(fix, now);
+      } catch (e) {
+        console.warn(`Location provider ${provider.name} failed.`, e);
+      }
+    }
+    return this.offline.lookup(fix, now);
+  }
+}
+
+export interface CacheOptions {
+  /** Decimal places coordinates are rounded to for the cache key; 4 is roughly 11 m. */
+  precision: number;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+const DEFAULT_CACHE_OPTIONS: CacheOptions = { precision: 4, ttlMs: 10 * 60 * 1000, maxEntries: 50 };
+
+/** Remembers recent addresses by rounded coordinates. Coordinate-only reports are not cached. */
+export class CachingProvider implements LocationProvider {
+  readonly name: string;
+  private entries = new Map<string, { address: string; provider: string; storedAt: number }>();
+
+  constructor(private inner: LocationProvider, private options: CacheOptions = DEFAULT_CACHE_OPTIONS) {
+    this.name = inner.name;
+  }
+
+  private key(fix: GeoFix): string {
+    return `${fix.latitude.toFixed(this.options.precision)},${fix.longitude.toFixed(this.options.precision)}`;
+  }
+
+  async lookup(fix: GeoFix, now = Date.now()): Promise<LocationReport> {
+    const key = this.key(fix);
+    const hit = this.entries.get(key);
+    if (hit && now - hit.storedAt < this.options.ttlMs) {
+      return { ...baseReport(hit.provider, fix, now), address: hit.address, cached: true };
+    }
+
+    const report = await this.inner.lookup(fix, now);
+    if (report.address) {
+      this.entries.delete(key);
+      this.entries.set(key, { address: report.address, provider: report.provider, storedAt: now });
+      // Map keeps insertion order, so the first key is the oldest.
+      if (this.entries.size > this.options.maxEntries) this.entries.delete(this.entries.keys().next().value!);
+    }
+    return report;
+  }
+}
+
+/** Returns canned addresses for tests; with none configured it behaves like a failed lookup. */
+export class MockLocationProvider implements LocationProvider {
+  readonly name = 'mock';
+  calls: GeoFix[] = [];
+
+  constructor(private address: string | null = '1 Test Street') {}
+
+  async lookup(fix: GeoFix, now = Date.now()): Promise<LocationReport> {
+    this.calls.push(fix);
+    if (this.address === null) throw new Error('mock lookup failed');
+    return { ...baseReport(this.name, fix, now), address: this.address };
+  }
+}
+
+export function createDefaultLocationProvider(selfHostedUrl = process.env.GEOCODER_URL): LocationProvider {
+  const providers: LocationProvider[] = [];
+  if (selfHostedUrl) providers.push(new NominatimProvider({ baseUrl: selfHostedUrl, name: 'self-hosted' }));
+  providers.push(new NominatimProvider());
+  return new CachingProvider(new FallbackProvider(providers));
+}
+
+export function toGeoFix(pos: GeolocationPosition): GeoFix {
+  return {
+    latitude: pos.coords.latitude,
+    longitude: pos.coords.longitude,
+    accuracy: pos.coords.accuracy,
+    heading: pos.coords.heading,
+    speed: pos.coords.speed,
+    timestamp: pos.timestamp,
+  };
+}
+
+export function getCurrentFix(geolocation: Geolocation | undefined = navigator.geolocation): Promise<GeoFix> {
+  return new Promise((resolve, reject) => {
+    if (!geolocation) {
+      reject(new Error("Geolocation not supported"));
+      return;
+    }
+    geolocation.getCurrentPosition(
+      (pos) => resolve(toGeoFix(pos)),
+      () => reject(new Error("Location access denied.")),
+      { enableHighAccuracy: true, timeout: 8000 }
+    );
+  });
+}
+
+export async function locate(provider: LocationProvider, getFix: () => Promise<GeoFix> = getCurrentFix): Promise<LocationToolResult> {
+  try {
+    return await provider.lookup(await getFix());
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : "Location unavailable." };
+  }
+}
+
+export function describeLocation(result: LocationToolResult, coordinates = en.app.coordinates): string {
+  if ('error' in result) return result.error;
+  if (result.address) return result.address;
+  return coordinates(result.latitude.toFixed(5), result.longitude.toFixed(5), result.accuracyMeters);
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AdaptiveFrameController, DEFAULT_MEDIA_CONFIG, FrameDropReason, FrameSendQueue } from './media';
+
+const video = DEFAULT_MEDIA_CONFIG.video;
+
+describe('AdaptiveFrameController', () => {
+  it('backs off straight away on a slow or dropped frame', () => {
+    const controller = new AdaptiveFrameController(video);
+    expect(controller.current).toEqual({ width: 640, quality: 0.8, intervalMs: 600 });
+
+    controller.recordSent(video.targetLatencyMs + 1);
+    expect(controller.current).toEqual({ width: 512, quality: expect.closeTo(0.7, 6), intervalMs: 750 });
+    controller.recordDropped();
+    expect(controller.current).toEqual({ width: 410, quality: expect.closeTo(0.6, 6), intervalMs: 938 });
+  });
+
+  it('only recovers after a run of fast sends', () => {
+    const controller = new AdaptiveFrameController(video);
+    controller.recordSent(1000);
+    const degraded = controller.current;
+
+    for (let i = 0; i < 4; i++) controller.recordSent(10);
+    // Neither fast nor slow: keeps the streak going without adding to it.
+    controller.recordSent(video.targetLatencyMs);
+    expect(controller.current).toEqual(degraded);
+    controller.recordSent(10);
+    expect(controller.current).toEqual({ width: 544, quality: expect.closeTo(0.75, 6), intervalMs: 700 });
+  });
+
+  it('restarts the streak after a slow send', () => {
+    const controller = new AdaptiveFrameController(video);
+    for (let i = 0; i < 4; i++) controller.recordSent(10);
+    controller.recordSent(1000);
+    const degraded = controller.current;
+    for (let i = 0; i < 4; i++) controller.recordSent(10);
+    expect(controller.current).toEqual(degraded);
+  });
+
+  it('stays within the configured ranges', () => {
+    const controller = new AdaptiveFrameController(video);
+    for (let i = 0; i < 20; i++) controller.recordDropped();
+    expect(controller.current).toEqual({ width: video.width.min, quality: video.quality.min, intervalMs: video.intervalMs.max });
+    for (let i = 0; i < 500; i++) controller.recordSent(0);
+    expect(controller.current).toEqual({ width: video.width.max, quality: video.quality.max, intervalMs: video.intervalMs.min });
+  });
+});
+
+describe('FrameSendQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** A queue over a link whose socket buffer the test fills and empties by hand. */
+  function queueOverLink(config = { maxQueuedFrames: 2, staleAfterMs: 1000 }) {
+    const link = { buffered: 0 };
+    const sent: string[] = [];
+    const latencies: number[] = [];
+    const dropped: FrameDropReason[] = [];
+    const queue = new FrameSendQueue({
+      send: (data) => {
+        sent.push(data);
+        link.buffered += data.length;
+      },
+      backlog: () => link.buffered,
+      onSent: (latency) => latencies.push(latency),
+      onDropped: (reason) => dropped.push(reason),
+    }, config);
+    return { queue, link, sent, latencies, dropped };
+  }
+
+  const encoded = (data: string, delayMs = 0) => () => new Promise<string>(resolve => setTimeout(() => resolve(data), delayMs));
+
+  it('times a frame until the link has uploaded it, not until it was handed over', async () => {
+    const { queue, link, sent, latencies } = queueOverLink();
+    queue.enqueue(Date.now(), encoded('frame-1', 30));
+    await vi.advanceTimersByTimeAsync(30);
+    expect(sent).toEqual(['frame-1']);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(latencies).toEqual([]);
+    link.buffered = 0;
+    await vi.advanceTimersByTimeAsync(20);
+    expect(latencies).toEqual([250]);
+  });
+
+  it('holds the next frame until the link drains, dropping the oldest waiting ones', async () => {
+    const { queue, link, sent, dropped } = queueOverLink();
+    queue.enqueue(Date.now(), encoded('frame-1'));
+    await vi.advanceTimersByTimeAsync(0);
+    for (const data of ['frame-2', 'frame-3', 'frame-4']) queue.enqueue(Date.now(), encoded(data));
+
+    expect(sent).toEqual(['frame-1']);
+    expect(dropped).toEqual(['overflow']);
+    expect(queue.depth).toBe(2);
+
+    link.buffered = 0;
+    await vi.advanceTimersByTimeAsync(40);
+    expect(sent).toEqual(['frame-1', 'frame-3']);
+  });
+
+  it('stops waiting on a stuck link once the frame would be stale', async () => {
+    const { queue, latencies } = queueOverLink();
+    queue.enqueue(Date.now(), encoded('frame-1'));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(latencies).toEqual([1020]);
+  });
+
+  it('drops frames that went stale waiting, and frames that failed to encode', async () => {
+    const { queue, sent, dropped } = queueOverLink();
+    queue.enqueue(Date.now(), encoded('frame-1'));
+    await vi.advanceTimersByTimeAsync(0);
+    queue.enqueue(Date.now(), encoded('frame-2'));
+    queue.enqueue(Date.now(), () => Promise.reject(new Error('toBlob failed')));
+
+    // frame-1 holds the link up past frame-2's deadline.
+    await vi.advanceTimersByTimeAsync(1100);
+
+    expect(sent).toEqual(['frame-1']);
+    expect(dropped).toEqual(['stale', 'encode']);
+  });
+
+  it('reports encoding time alone when the link cannot show its backlog', async () => {
+    const latencies: number[] = [];
+    const queue = new FrameSendQueue({ send: () => {}, onSent: (latency) => latencies.push(latency) });
+    queue.enqueue(Date.now(), encoded('frame-1', 50));
+    await vi.advanceTimersByTimeAsync(50);
+    expect(latencies).toEqual([50]);
+  });
+});
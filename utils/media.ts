@@ -0,0 +1,214 @@
+
+export interface Range {
+  min: number;
+  max: number;
+  initial: number;
+}
+
+export interface AudioPipelineConfig {
+  inputSampleRate: number;
+  outputSampleRate: number;
+  /** Samples per chunk posted from the capture worklet. */
+  chunkSamples: number;
+  /** RMS level (0-1) above which a chunk counts as voice. */
+  vadThreshold: number;
+  /** How long to keep streaming after the last voiced chunk, so word endings aren't clipped. */
+  vadHangoverMs: number;
+}
+
+export interface VideoPipelineConfig {
+  /** How often the local motion detector samples the camera. */
+  sampleIntervalMs: number;
+  /** Upload interval while the scene is static. */
+  staticIntervalMs: number;
+  width: Range;
+  quality: Range;
+  /** Upload interval while things are moving. */
+  intervalMs: Range;
+  /** Capture-to-upload latency the controller tries to stay under. */
+  targetLatencyMs: number;
+  maxQueuedFrames: number;
+  /** Frames older than this when their turn comes are dropped rather than sent. */
+  staleAfterMs: number;
+}
+
+export interface MediaPipelineConfig {
+  audio: AudioPipelineConfig;
+  video: VideoPipelineConfig;
+}
+
+export const DEFAULT_MEDIA_CONFIG: MediaPipelineConfig = {
+  audio: {
+    inputSampleRate: 16000,
+    outputSampleRate: 24000,
+    chunkSamples: 2048,
+    vadThreshold: 0.012,
+    vadHangoverMs: 800,
+  },
+  video: {
+    sampleIntervalMs: 200,
+    staticIntervalMs: 2000,
+    width: { min: 320, max: 768, initial: 640 },
+    quality: { min: 0.4, max: 0.85, initial: 0.8 },
+    intervalMs: { min: 400, max: 1500, initial: 600 },
+    targetLatencyMs: 300,
+    maxQueuedFrames: 2,
+    staleAfterMs: 1000,
+  },
+};
+
+export interface FrameSettings {
+  width: number;
+  quality: number;
+  intervalMs: number;
+}
+
+const clamp = (value: number, range: Range) => Math.min(range.max, Math.max(range.min, value));
+
+// Consecutive fast sends needed before quality is stepped back up.
+const RECOVERY_STREAK = 5;
+
+// How often the link's backlog is checked while a sent frame goes out.
+const BACKLOG_POLL_MS = 20;
+
+/**
+ * Additive-increase / multiplicative-decrease tuning of frame size, JPEG quality
+ * and upload interval. Any slow or dropped frame backs off straight away;
+ * recovery only happens after a run of fast ones.
+ */
+export class AdaptiveFrameController {
+  private settings: FrameSettings;
+  private fastStreak = 0;
+
+  constructor(private config: VideoPipelineConfig = DEFAULT_MEDIA_CONFIG.video) {
+    this.settings = {
+      width: config.width.initial,
+      quality: config.quality.initial,
+      intervalMs: config.intervalMs.initial,
+    };
+  }
+
+  get current(): FrameSettings {
+    return this.settings;
+  }
+
+  recordSent(latencyMs: number): void {
+    if (latencyMs > this.config.targetLatencyMs) {
+      this.degrade();
+    } else if (latencyMs < this.config.targetLatencyMs / 2 && ++this.fastStreak >= RECOVERY_STREAK) {
+      this.improve();
+    }
+  }
+
+  recordDropped(): void {
+    this.degrade();
+  }
+
+  private degrade(): void {
+    const { width, quality, intervalMs } = this.config;
+    this.fastStreak = 0;
+    this.settings = {
+      width: Math.round(clamp(this.settings.width * 0.8, width)),
+      quality: clamp(this.settings.quality - 0.1, quality),
+      intervalMs: Math.round(clamp(this.settings.intervalMs * 1.25, intervalMs)),
+    };
+  }
+
+  private improve(): void {
+    const { width, quality, intervalMs } = this.config;
+    this.fastStreak = 0;
+    this.settings = {
+      width: Math.round(clamp(this.settings.width + 32, width)),
+      quality: clamp(this.settings.quality + 0.05, quality),
+      intervalMs: Math.round(clamp(this.settings.intervalMs - 50, intervalMs)),
+    };
+  }
+}
+
+export type FrameDropReason = 'stale' | 'overflow' | 'encode';
+
+export interface FrameQueueHandlers {
+  send: (data: string) => void;
+  /** Bytes the link has accepted but not yet put on the wire. Without it only encoding time is measured. */
+  backlog?: () => number;
+  /** Capture-to-upload latency of a frame, once the link has taken it. */
+  onSent?: (latencyMs: number) => void;
+  onDropped?: (reason: FrameDropReason) => void;
+}
+
+interface QueuedFrame {
+  capturedAt: number;
+  encode: () => Promise<string>;
+}
+
+/**
+ * Sends encoded frames one at a time, waiting for the link to drain before the
+ * next. When encoding or the link falls behind, the oldest waiting frames are
+ * dropped so the model always sees the most recent view instead of a backlog.
+ */
+export class FrameSendQueue {
+  private pending: QueuedFrame[] = [];
+  private busy = false;
+
+  constructor(
+    private handlers: FrameQueueHandlers,
+    private config: Pick<VideoPipelineConfig, 'maxQueuedFrames' | 'staleAfterMs'> = DEFAULT_MEDIA_CONFIG.video,
+    private now: () => number = Date.now,
+  ) {}
+
+  get depth(): number {
+    return this.pending.length;
+  }
+
+  enqueue(capturedAt: number, encode: () => Promise<string>): void {
+    this.pending.push({ capturedAt, encode });
+    while (this.pending.length > this.config.maxQueuedFrames) {
+      this.pending.shift();
+      this.handlers.onDropped?.('overflow');
+    }
+    this.drain();
+  }
+
+  clear(): void {
+    this.pending = [];
+  }
+
+  private async drain(): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      while (this.pending.length) {
+        const frame = this.pending.shift()!;
+        let data: string;
+        try {
+          data = await frame.encode();
+        } catch (e) {
+          this.handlers.onDropped?.('encode');
+          continue;
+        }
+        const latency = this.now() - frame.capturedAt;
+        if (latency > this.config.staleAfterMs) {
+          this.handlers.onDropped?.('stale');
+          continue;
+        }
+        this.handlers.send(data);
+        this.handlers.onSent?.(await this.untilSent(frame.capturedAt));
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  // Sending only hands the frame to the socket; the upload is done once its
+  // buffer empties. Stops waiting when the frame would be stale, as by then the
+  // answer is "too slow" anyway.
+  private async untilSent(capturedAt: number): Promise<number> {
+    const backlog = this.handlers.backlog;
+    if (backlog) {
+      do {
+        await new Promise(resolve => setTimeout(resolve, BACKLOG_POLL_MS));
+      } while (backlog() > 0 && this.now() - capturedAt <= this.config.staleAfterMs);
+    }
+    return this.now() - capturedAt;
+  }
+}
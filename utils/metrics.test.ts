@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { MediaModality } from '@google/genai';
+import { SessionMetrics, parseTokenPrices } from './metrics';
+
+/** Metrics on a clock the test moves by hand. */
+function metricsAt(prices = parseTokenPrices(undefined)) {
+  const clock = { t: 0 };
+  return { clock, metrics: new SessionMetrics(() => clock.t, prices) };
+}
+
+describe('SessionMetrics', () => {
+  it('times narration from the first frame after the previous turn, not the latest one', () => {
+    const { clock, metrics } = metricsAt();
+    metrics.recordFrameSent('AAAA');
+    clock.t = 600;
+    metrics.recordFrameSent('AAAA');
+    clock.t = 900;
+    metrics.recordNarrationAudio();
+    // Frames sent while the model is talking belong to no turn yet.
+    clock.t = 1200;
+    metrics.recordFrameSent('AAAA');
+    clock.t = 1300;
+    metrics.recordNarrationAudio();
+    metrics.recordTurnEnd();
+    clock.t = 2000;
+    metrics.recordFrameSent('AAAA');
+    clock.t = 2400;
+    metrics.recordFrameSent('AAAA');
+    clock.t = 2500;
+    metrics.recordNarrationAudio();
+
+    const { frameToAudio, audioChunks } = metrics.report().narration;
+    expect(audioChunks).toBe(3);
+    expect(frameToAudio).toMatchObject({ count: 2, maxMs: 900, meanMs: 700 });
+  });
+
+  it('does not time a turn that no frame prompted', () => {
+    const { metrics } = metricsAt();
+    metrics.recordNarrationAudio();
+    expect(metrics.report().narration.frameToAudio.count).toBe(0);
+  });
+
+  it('estimates cost from configured prices and counts what it could not price', () => {
+    const prices = parseTokenPrices('{"input":{"TEXT":1,"AUDIO":2},"output":{"AUDIO":10}}');
+    const { metrics } = metricsAt(prices);
+    metrics.recordUsage({
+      promptTokenCount: 3000,
+      responseTokenCount: 1000,
+      toolUsePromptTokenCount: 500,
+      thoughtsTokenCount: 200,
+      totalTokenCount: 4700,
+      promptTokensDetails: [{ modality: MediaModality.TEXT, tokenCount: 1000 }, { modality: MediaModality.AUDIO, tokenCount: 2000 }],
+      responseTokensDetails: [{ modality: MediaModality.AUDIO, tokenCount: 1000 }],
+    });
+
+    const report = metrics.report();
+    expect(report.tokens.byModality).toEqual({ prompt: { TEXT: 1000, AUDIO: 2000 }, response: { AUDIO: 1000 } });
+    // 1000 + 4000 + 500 input, 10000 output; thoughts have no text output price.
+    expect(report.cost).toEqual({ estimatedUsd: expect.closeTo(0.0155, 6), unpricedTokens: 200 });
+  });
+
+  it('leaves cost out without a valid price table', () => {
+    expect(metricsAt().metrics.report().cost).toBeNull();
+    expect(parseTokenPrices('{"input":{"TEXT":"cheap"},"output":{}}')).toBeNull();
+    expect(parseTokenPrices('not json')).toBeNull();
+  });
+});
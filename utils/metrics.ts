@@ -0,0 +1,259 @@
+import { ModalityTokenCount, UsageMetadata } from '@google/genai';
+import { FrameDropReason } from './media';
+
+const MAX_SAMPLES = 500;
+const MAX_ERRORS = 50;
+
+/**
+ * US dollars per million tokens, keyed by the modality the server reports
+ * (TEXT, AUDIO, IMAGE, ...). Prices change, so there are no built-in ones: set
+ * TOKEN_PRICES to this as JSON, e.g. {"input":{"TEXT":0.5},"output":{"AUDIO":12}}.
+ */
+export interface TokenPrices {
+  input: Record<string, number>;
+  output: Record<string, number>;
+}
+
+/** Returns null, and so no cost estimate, unless `raw` is a well-formed price table. */
+export function parseTokenPrices(raw: string | undefined): TokenPrices | null {
+  if (!raw) return null;
+  try {
+    const prices = JSON.parse(raw);
+    const table = (t: unknown) => typeof t === 'object' && t !== null && Object.values(t).every(v => typeof v === 'number' && v >= 0);
+    return table(prices?.input) && table(prices?.output) ? { input: prices.input, output: prices.output } : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export const DEFAULT_TOKEN_PRICES = parseTokenPrices(process.env.TOKEN_PRICES);
+
+export interface LatencySummary {
+  count: number;
+  meanMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  maxMs: number | null;
+}
+
+export interface MetricsReport {
+  startedAt: string;
+  durationMs: number;
+  frames: { sent: number; bytes: number; dropped: Record<FrameDropReason, number> };
+  audio: { chunksSent: number; bytes: number; streamEnds: number };
+  narration: {
+    audioChunks: number;
+    decodeFailures: number;
+    /** From the first frame sent after a turn ended to the first narration audio of the next one. */
+    frameToAudio: LatencySummary;
+  };
+  /** Round trip per tool, from the model's call arriving to the result being ready. */
+  tools: Record<string, LatencySummary & { failures: number }>;
+  link: {
+    connects: number;
+    reconnectAttempts: number;
+    reconnects: number;
+    reducedModeEntries: number;
+    errors: { at: string; message: string }[];
+  };
+  /** Summed from the usage the server reports with its responses. */
+  tokens: {
+    prompt: number;
+    response: number;
+    toolUsePrompt: number;
+    thoughts: number;
+    total: number;
+    byModality: { prompt: Record<string, number>; response: Record<string, number> };
+  };
+  /** Only when prices are configured. Tokens in a modality without a price are left out and counted in `unpricedTokens`. */
+  cost: { estimatedUsd: number; unpricedTokens: number } | null;
+}
+
+/** Bytes carried by a base64 string, without decoding it. */
+export function base64Bytes(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+}
+
+export function summarizeLatency(samples: number[]): LatencySummary {
+  if (!samples.length) return { count: 0, meanMs: null, p50Ms: null, p95Ms: null, maxMs: null };
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (q: number) => Math.round(sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]);
+  return {
+    count: sorted.length,
+    meanMs: Math.round(sorted.reduce((sum, s) => sum + s, 0) / sorted.length),
+    p50Ms: at(0.5),
+    p95Ms: at(0.95),
+    maxMs: Math.round(sorted[sorted.length - 1]),
+  };
+}
+
+// Keeps the most recent samples so a long walk can't grow memory without bound.
+const pushSample = (samples: number[], value: number) => {
+  samples.push(value);
+  if (samples.length > MAX_SAMPLES) samples.shift();
+};
+
+/**
+ * Counters and timings for one guardian session, kept on the device. Nothing
+ * here is sent anywhere; the diagnostics panel reads `report()` and the user
+ * can export it.
+ */
+export class SessionMetrics {
+  private startedAt: number;
+  private framesSent = 0;
+  private frameBytes = 0;
+  private framesDropped: Record<FrameDropReason, number> = { stale: 0, overflow: 0, encode: 0 };
+  private audioChunksSent = 0;
+  private audioBytes = 0;
+  private audioStreamEnds = 0;
+  private narrationChunks = 0;
+  private decodeFailures = 0;
+  private frameToAudio: number[] = [];
+  private turnFrameSentAt: number | null = null;
+  private awaitingAudio = true;
+  private tools = new Map<string, { samples: number[]; failures: number }>();
+  private connects = 0;
+  private reconnectAttempts = 0;
+  private reconnects = 0;
+  private reducedModeEntries = 0;
+  private errors: { at: number; message: string }[] = [];
+  private tokens = { prompt: 0, response: 0, toolUsePrompt: 0, thoughts: 0, total: 0 };
+  private promptByModality: Record<string, number> = {};
+  private responseByModality: Record<string, number> = {};
+
+  constructor(private now: () => number = Date.now, private prices: TokenPrices | null = DEFAULT_TOKEN_PRICES) {
+    this.startedAt = now();
+  }
+
+  recordFrameSent(data: string): void {
+    this.framesSent++;
+    this.frameBytes += base64Bytes(data);
+    // The model answers a scene it has had since the last turn ended; later frames only refine it.
+    if (this.awaitingAudio && this.turnFrameSentAt === null) this.turnFrameSentAt = this.now();
+  }
+
+  recordFrameDropped(reason: FrameDropReason): void {
+    this.framesDropped[reason]++;
+  }
+
+  recordAudioSent(data: string): void {
+    this.audioChunksSent++;
+    this.audioBytes += base64Bytes(data);
+  }
+
+  recordAudioStreamEnd(): void {
+    this.audioStreamEnds++;
+  }
+
+  /** A chunk of narration audio arrived. Only the first of each turn counts towards latency. */
+  recordNarrationAudio(): void {
+    this.narrationChunks++;
+    if (!this.awaitingAudio) return;
+    this.awaitingAudio = false;
+    if (this.turnFrameSentAt !== null) pushSample(this.frameToAudio, this.now() - this.turnFrameSentAt);
+    this.turnFrameSentAt = null;
+  }
+
+  /** The model finished or was interrupted; the next audio starts a new turn. */
+  recordTurnEnd(): void {
+    this.awaitingAudio = true;
+    this.turnFrameSentAt = null;
+  }
+
+  recordDecodeFailure(): void {
+    this.decodeFailures++;
+  }
+
+  recordToolCall(name: string, durationMs: number, failed: boolean): void {
+    let tool = this.tools.get(name);
+    if (!tool) this.tools.set(name, tool = { samples: [], failures: 0 });
+    pushSample(tool.samples, durationMs);
+    if (failed) tool.failures++;
+  }
+
+  recordConnected(): void {
+    this.connects++;
+  }
+
+  recordReconnectAttempt(): void {
+    this.reconnectAttempts++;
+  }
+
+  recordReconnected(): void {
+    this.reconnects++;
+  }
+
+  recordReducedMode(): void {
+    this.reducedModeEntries++;
+  }
+
+  recordError(error: unknown): void {
+    const message = error instanceof Error ? error.message
+      : error instanceof Event ? `${error.type} event`
+      : String(error);
+    this.errors.push({ at: this.now(), message });
+    if (this.errors.length > MAX_ERRORS) this.errors.shift();
+  }
+
+  recordUsage(usage: UsageMetadata): void {
+    this.tokens.prompt += usage.promptTokenCount ?? 0;
+    this.tokens.response += usage.responseTokenCount ?? 0;
+    this.tokens.toolUsePrompt += usage.toolUsePromptTokenCount ?? 0;
+    this.tokens.thoughts += usage.thoughtsTokenCount ?? 0;
+    this.tokens.total += usage.totalTokenCount ?? 0;
+    const tally = (into: Record<string, number>, details: ModalityTokenCount[] = []) => {
+      for (const detail of details) {
+        const modality = String(detail.modality ?? 'UNSPECIFIED');
+        into[modality] = (into[modality] ?? 0) + (detail.tokenCount ?? 0);
+      }
+    };
+    tally(this.promptByModality, usage.promptTokensDetails);
+    tally(this.responseByModality, usage.responseTokensDetails);
+  }
+
+  private estimateCost(): MetricsReport['cost'] {
+    if (!this.prices) return null;
+    let usd = 0;
+    let unpricedTokens = 0;
+    const add = (rates: Record<string, number>, modality: string, tokens: number) => {
+      const rate = rates[modality];
+      if (rate === undefined) unpricedTokens += tokens;
+      else usd += tokens * rate / 1e6;
+    };
+    Object.entries(this.promptByModality).forEach(([modality, tokens]) => add(this.prices!.input, modality, tokens));
+    Object.entries(this.responseByModality).forEach(([modality, tokens]) => add(this.prices!.output, modality, tokens));
+    // Tool results and thinking are billed as text input and output respectively.
+    add(this.prices.input, 'TEXT', this.tokens.toolUsePrompt);
+    add(this.prices.output, 'TEXT', this.tokens.thoughts);
+    return { estimatedUsd: usd, unpricedTokens };
+  }
+
+  report(): MetricsReport {
+    const tools: MetricsReport['tools'] = {};
+    this.tools.forEach((tool, name) => {
+      tools[name] = { ...summarizeLatency(tool.samples), failures: tool.failures };
+    });
+    return {
+      startedAt: new Date(this.startedAt).toISOString(),
+      durationMs: this.now() - this.startedAt,
+      frames: { sent: this.framesSent, bytes: this.frameBytes, dropped: { ...this.framesDropped } },
+      audio: { chunksSent: this.audioChunksSent, bytes: this.audioBytes, streamEnds: this.audioStreamEnds },
+      narration: {
+        audioChunks: this.narrationChunks,
+        decodeFailures: this.decodeFailures,
+        frameToAudio: summarizeLatency(this.frameToAudio),
+      },
+      tools,
+      link: {
+        connects: this.connects,
+        reconnectAttempts: this.reconnectAttempts,
+        reconnects: this.reconnects,
+        reducedModeEntries: this.reducedModeEntries,
+        errors: this.errors.map(e => ({ at: new Date(e.at).toISOString(), message: e.message })),
+      },
+      tokens: { ...this.tokens, byModality: { prompt: { ...this.promptByModality }, response: { ...this.responseByModality } } },
+      cost: this.estimateCost(),
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FRAME_CADENCE, MotionAnalysis, PixelFrame, analyzeMotion, shouldSendFrame } from './motion';
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+/** A grey frame with a white box, the stand-in for something in front of the camera. */
+function frame(box?: { x: number; y: number; w: number; h: number }): PixelFrame {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const inside = box && x >= box.x && x < box.x + box.w && y >= box.y && y < box.y + box.h;
+      data.fill(inside ? 255 : 90, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3);
+      data[(y * WIDTH + x) * 4 + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+/** A box of the given size centred at `cx`, so it can grow in place. */
+const centred = (cx: number, w: number, h: number) => ({ x: cx - w / 2, y: (HEIGHT - h) / 2, w, h });
+
+describe('analyzeMotion', () => {
+  it('sees nothing in a static scene', () => {
+    const analysis = analyzeMotion(frame(centred(80, 40, 40)), frame(centred(80, 40, 40)));
+    expect(analysis).toMatchObject({ level: 'static', changedFraction: 0, approaching: false });
+  });
+
+  it('has nothing to compare on the first frame or after a resize', () => {
+    expect(analyzeMotion(null, frame()).level).toBe('static');
+    expect(analyzeMotion({ ...frame(), width: 80 }, frame(centred(80, 40, 40))).level).toBe('static');
+  });
+
+  it('reads a small moving object as moving, and where it is', () => {
+    const analysis = analyzeMotion(frame(), frame({ x: 120, y: 40, w: 24, h: 24 }));
+    expect(analysis.level).toBe('moving');
+    expect(analysis.approaching).toBe(false);
+    expect(analysis.centerX).toBeGreaterThan(0.75);
+  });
+
+  it('reads a sudden change over much of the frame as a spike', () => {
+    const analysis = analyzeMotion(frame(), frame({ x: 0, y: 0, w: WIDTH, h: HEIGHT / 2 }));
+    expect(analysis.level).toBe('spike');
+    expect(analysis.changedFraction).toBeCloseTo(0.5, 1);
+  });
+
+  it('flags a region that keeps growing as approaching', () => {
+    const sizes = [32, 44, 60, 80];
+    let previous = frame();
+    let regionArea = 0;
+    const results: MotionAnalysis[] = [];
+    for (const size of sizes) {
+      const current = frame(centred(40, size, size));
+      const analysis = analyzeMotion(previous, current, regionArea);
+      results.push(analysis);
+      previous = current;
+      regionArea = analysis.regionArea;
+    }
+    // The first box appears out of nothing; after that each frame's changed region is ~1.8x the last.
+    expect(results[0].approaching).toBe(false);
+    expect(results.slice(1).map(r => r.approaching)).toEqual([true, true, true]);
+    expect(results[3].centerX).toBeCloseTo(0.25, 1);
+  });
+
+  it('does not call something approaching when it only moves sideways', () => {
+    const first = frame({ x: 20, y: 40, w: 30, h: 30 });
+    const second = frame({ x: 50, y: 40, w: 30, h: 30 });
+    const third = frame({ x: 80, y: 40, w: 30, h: 30 });
+    const a = analyzeMotion(first, second);
+    const b = analyzeMotion(second, third, a.regionArea);
+    expect(b.level).not.toBe('static');
+    expect(b.approaching).toBe(false);
+  });
+});
+
+describe('shouldSendFrame', () => {
+  const still: MotionAnalysis = { changedFraction: 0, regionArea: 0, growth: 1, centerX: 0.5, level: 'static', approaching: false };
+  const moving: MotionAnalysis = { ...still, level: 'moving', changedFraction: 0.05 };
+  const spike: MotionAnalysis = { ...still, level: 'spike', changedFraction: 0.4 };
+  const approaching: MotionAnalysis = { ...moving, approaching: true, growth: 1.5 };
+
+  it('paces frames by how much is going on', () => {
+    expect(shouldSendFrame(still, 1000)).toBe(false);
+    expect(shouldSendFrame(still, DEFAULT_FRAME_CADENCE.staticIntervalMs)).toBe(true);
+    expect(shouldSendFrame(moving, 500)).toBe(false);
+    expect(shouldSendFrame(moving, DEFAULT_FRAME_CADENCE.movingIntervalMs)).toBe(true);
+  });
+
+  it('sends spikes and approaching objects sooner, but never faster than the floor', () => {
+    for (const urgent of [spike, approaching]) {
+      expect(shouldSendFrame(urgent, 200)).toBe(false);
+      expect(shouldSendFrame(urgent, DEFAULT_FRAME_CADENCE.urgentIntervalMs)).toBe(true);
+    }
+    expect(shouldSendFrame(moving, DEFAULT_FRAME_CADENCE.urgentIntervalMs)).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+
+/** Just the parts of ImageData the detector reads, so tests can pass plain objects. */
+export type PixelFrame = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+export interface MotionOptions {
+  /** Sample every Nth pixel in both directions. */
+  step: number;
+  /** Luma difference (0-255) above which a sampled pixel counts as changed. */
+  pixelThreshold: number;
+  /** Changed fraction below which the scene is treated as static. */
+  staticBelow: number;
+  /** Changed fraction at or above which motion counts as a spike. */
+  spikeAt: number;
+  /** Moving region must cover at least this fraction of the frame to judge growth. */
+  minRegionArea: number;
+  /** Region area ratio between consecutive frames that reads as approaching. */
+  approachGrowth: number;
+}
+
+export const DEFAULT_MOTION_OPTIONS: MotionOptions = {
+  step: 4,
+  pixelThreshold: 28,
+  staticBelow: 0.01,
+  spikeAt: 0.18,
+  minRegionArea: 0.04,
+  approachGrowth: 1.3,
+};
+
+export type MotionLevel = 'static' | 'moving' | 'spike';
+
+export interface MotionAnalysis {
+  /** Fraction of sampled pixels whose luma changed. */
+  changedFraction: number;
+  /** Bounding box of the changed pixels as a fraction of the frame area. */
+  regionArea: number;
+  /** regionArea relative to the previous frame's, 1 when there is nothing to compare. */
+  growth: number;
+  /** Horizontal centre of the moving region, 0 (left edge) to 1 (right edge). */
+  centerX: number;
+  level: MotionLevel;
+  approaching: boolean;
+}
+
+const STILL: MotionAnalysis = { changedFraction: 0, regionArea: 0, growth: 1, centerX: 0.5, level: 'static', approaching: false };
+
+export const luma = (d: Uint8ClampedArray, i: number) => (d[i] * 77 + d[i + 1] * 150 + d[i + 2] * 29) >> 8;
+
+/**
+ * Compares two frames of the same size. `previousRegionArea` is the `regionArea`
+ * from the last call, which is how growth across frames is tracked without
+ * keeping any state in here.
+ */
+export function analyzeMotion(
+  previous: PixelFrame | null,
+  current: PixelFrame,
+  previousRegionArea = 0,
+  options: MotionOptions = DEFAULT_MOTION_OPTIONS,
+): MotionAnalysis {
+  if (!previous || previous.width !== current.width || previous.height !== current.height) return STILL;
+
+  const { width, height } = current;
+  let sampled = 0;
+  let changed = 0;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let y = 0; y < height; y += options.step) {
+    for (let x = 0; x < width; x += options.step) {
+      const i = (y * width + x) * 4;
+      sampled++;
+      if (Math.abs(luma(current.data, i) - luma(previous.data, i)) <= options.pixelThreshold) continue;
+      changed++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (sampled === 0 || changed === 0) return STILL;
+
+  const changedFraction = changed / sampled;
+  const regionArea = ((maxX - minX + options.step) * (maxY - minY + options.step)) / (width * height);
+  const growth = previousRegionArea >= options.minRegionArea ? regionArea / previousRegionArea : 1;
+  const level: MotionLevel =
+    changedFraction >= options.spikeAt ? 'spike' :
+    changedFraction < options.staticBelow ? 'static' : 'moving';
+  const approaching = level !== 'static' && regionArea >= options.minRegionArea && growth >= options.approachGrowth;
+
+  const centerX = (minX + maxX) / 2 / width;
+
+  return { changedFraction, regionArea: Math.min(1, regionArea), growth, centerX, level, approaching };
+}
+
+export interface FrameCadence {
+  /** How often to send a frame when the scene is static. */
+  staticIntervalMs: number;
+  /** How often to send a frame while things are moving. */
+  movingIntervalMs: number;
+  /** The floor for spikes and approaching objects, which otherwise jump the queue. */
+  urgentIntervalMs: number;
+}
+
+export const DEFAULT_FRAME_CADENCE: FrameCadence = {
+  staticIntervalMs: 2000,
+  movingIntervalMs: 600,
+  urgentIntervalMs: 400,
+};
+
+/** Whether a frame should go out now, given the motion just measured and the time since the last send. */
+export function shouldSendFrame(analysis: MotionAnalysis, msSinceLastSend: number, cadence: FrameCadence = DEFAULT_FRAME_CADENCE): boolean {
+  const interval =
+    analysis.level === 'spike' || analysis.approaching ? cadence.urgentIntervalMs :
+    analysis.level === 'static' ? cadence.staticIntervalMs : cadence.movingIntervalMs;
+  return msSinceLastSend >= interval;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { GeoFix, SavedPlace } from '../types';
+import { GeofenceTracker } from './places';
+
+const home: SavedPlace = { id: 'home', label: 'Home', latitude: 51.5, longitude: -0.1, radiusMeters: 25, createdAt: 0 };
+// About 1.1 km north of home.
+const away = { latitude: 51.51, longitude: -0.1 };
+
+const fix = (at: Pick<GeoFix, 'latitude' | 'longitude'>, accuracy = 10): GeoFix =>
+  ({ ...at, accuracy, heading: null, speed: null, timestamp: 0 });
+
+describe('GeofenceTracker', () => {
+  it('does not announce the place the walk starts from', () => {
+    const tracker = new GeofenceTracker();
+    expect(tracker.update(fix(home), [home])).toEqual([]);
+    expect(tracker.update(fix(home), [home])).toEqual([]);
+  });
+
+  it('announces arriving after starting somewhere else', () => {
+    const tracker = new GeofenceTracker();
+    expect(tracker.update(fix(away), [home])).toEqual([]);
+    expect(tracker.update(fix(home), [home])).toEqual([home]);
+  });
+
+  it('waits for a fix good enough to judge a place before taking it as the start', () => {
+    const tracker = new GeofenceTracker();
+    // Too coarse for a 25 m fence, so this says nothing about where the walk starts.
+    expect(tracker.update(fix(away, 500), [home])).toEqual([]);
+    expect(tracker.update(fix(home), [home])).toEqual([]);
+  });
+
+  it('seeds a place saved mid-walk on its own first fix', () => {
+    const tracker = new GeofenceTracker();
+    const shop: SavedPlace = { ...home, id: 'shop', label: 'Shop', latitude: 51.52 };
+    tracker.update(fix(away), [home]);
+    expect(tracker.update(fix(home), [home, shop])).toEqual([home]);
+    expect(tracker.update(fix(shop), [home, shop])).toEqual([shop]);
+  });
+});
@@ -0,0 +1,165 @@
+
+import { GeoFix, SavedPlace } from '../types';
+import { toGeoFix } from './location';
+
+const STORAGE_KEY = 'deja-vu-places';
+const DEFAULT_RADIUS_METERS = 25;
+// Leaving requires moving this much further out than arriving, so GPS jitter at
+// the edge of a fence doesn't announce the same arrival over and over.
+const EXIT_FACTOR = 1.6;
+
+export function loadPlaces(): SavedPlace[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+function storePlaces(places: SavedPlace[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(places));
+}
+
+export function addPlace(label: string, fix: Pick<GeoFix, 'latitude' | 'longitude'>, radiusMeters = DEFAULT_RADIUS_METERS): SavedPlace {
+  const place: SavedPlace = {
+    id: crypto.randomUUID(),
+    label: label.trim(),
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    radiusMeters,
+    createdAt: Date.now(),
+  };
+  // Saving under an existing label moves that place rather than adding a twin.
+  storePlaces([...loadPlaces().filter(p => p.label.toLowerCase() !== place.label.toLowerCase()), place]);
+  return place;
+}
+
+export function removePlace(id: string): void {
+  storePlaces(loadPlaces().filter(p => p.id !== id));
+}
+
+/** Exact label match first, then the shortest label containing the query. */
+export function findPlace(places: SavedPlace[], query: string): SavedPlace | null {
+  const q = query.trim().toLowerCase();
+  if (!q) return null;
+  const exact = places.find(p => p.label.toLowerCase() === q);
+  if (exact) return exact;
+  const partial = places
+    .filter(p => p.label.toLowerCase().includes(q) || q.includes(p.label.toLowerCase()))
+    .sort((a, b) => a.label.length - b.label.length);
+  return partial[0] ?? null;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+type LatLon = Pick<GeoFix, 'latitude' | 'longitude'>;
+
+export function distanceMeters(a: LatLon, b: LatLon): number {
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Initial great-circle bearing from a to b, 0-360 with 0 = north. */
+export function bearingDegrees(a: LatLon, b: LatLon): number {
+  const y = Math.sin(toRad(b.longitude - a.longitude)) * Math.cos(toRad(b.latitude));
+  const x = Math.cos(toRad(a.latitude)) * Math.sin(toRad(b.latitude)) -
+    Math.sin(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.cos(toRad(b.longitude - a.longitude));
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+const COMPASS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+/** `names` lists the eight points clockwise from north, for callers speaking another language. */
+export function compassPoint(bearing: number, names: readonly string[] = COMPASS): string {
+  return names[Math.round(bearing / 45) % 8];
+}
+
+/** Clock-face hour, 1-12, relative to the way the user is moving. */
+export function clockHour(bearing: number, heading: number): number {
+  const hour = Math.round((((bearing - heading) % 360) + 360) % 360 / 30) % 12;
+  return hour === 0 ? 12 : hour;
+}
+
+/** Clock-face direction relative to the way the user is moving, e.g. "2 o'clock". */
+export function clockDirection(bearing: number, heading: number): string {
+  return `${clockHour(bearing, heading)} o'clock`;
+}
+
+export interface PlaceDirections {
+  place: string;
+  distanceMeters: number;
+  bearingDegrees: number;
+  compass: string;
+  /** Only known while the user is moving and the device reports a heading. */
+  clock: string | null;
+  clockHour: number | null;
+}
+
+export function directionsTo(place: SavedPlace, fix: GeoFix): PlaceDirections {
+  const bearing = bearingDegrees(fix, place);
+  const moving = fix.heading !== null && !isNaN(fix.heading);
+  return {
+    place: place.label,
+    distanceMeters: Math.round(distanceMeters(fix, place)),
+    bearingDegrees: Math.round(bearing),
+    compass: compassPoint(bearing),
+    clock: moving ? clockDirection(bearing, fix.heading!) : null,
+    clockHour: moving ? clockHour(bearing, fix.heading!) : null,
+  };
+}
+
+/**
+ * Tracks which saved places the user is inside. `update` returns the places
+ * just entered. The first fix good enough to judge a place only establishes
+ * where the user starts, so starting a walk at home doesn't announce
+ * "arriving at home".
+ */
+export class GeofenceTracker {
+  private inside = new Set<string>();
+  // Places that have been judged at least once; a fix too poor for a place doesn't count.
+  private seeded = new Set<string>();
+
+  update(fix: GeoFix, places: SavedPlace[]): SavedPlace[] {
+    const arrivals: SavedPlace[] = [];
+    const known = new Set(places.map(p => p.id));
+    for (const id of this.inside) if (!known.has(id)) this.inside.delete(id);
+    for (const id of this.seeded) if (!known.has(id)) this.seeded.delete(id);
+
+    for (const place of places) {
+      // Don't let a poor fix trigger or clear a small fence.
+      if (fix.accuracy > place.radiusMeters * 4) continue;
+      const seeding = !this.seeded.has(place.id);
+      this.seeded.add(place.id);
+      const d = distanceMeters(fix, place);
+      if (!this.inside.has(place.id) && d <= place.radiusMeters) {
+        this.inside.add(place.id);
+        if (!seeding) arrivals.push(place);
+      } else if (this.inside.has(place.id) && d > place.radiusMeters * EXIT_FACTOR) {
+        this.inside.delete(place.id);
+      }
+    }
+    return arrivals;
+  }
+
+  reset(): void {
+    this.inside.clear();
+    this.seeded.clear();
+  }
+}
+
+/** Watches the device position and reports arrivals at saved places. Returns a stop function. */
+export function watchGeofences(onArrive: (place: SavedPlace) => void, geolocation: Geolocation | undefined = navigator.geolocation): () => void {
+  if (!geolocation) return () => {};
+  const tracker = new GeofenceTracker();
+  const id = geolocation.watchPosition(
+    (pos) => tracker.update(toGeoFix(pos), loadPlaces()).forEach(onArrive),
+    () => {},
+    { enableHighAccuracy: true, maximumAge: 5000 }
+  );
+  return () => geolocation.clearWatch(id);
+}
@@ -0,0 +1,174 @@
+
+import { GuardianProfile, NarrationVerbosity } from '../types';
+import { en } from '../locales/en';
+import { HAZARD_KINDS } from './hazards';
+import { LOCALES } from './i18n';
+
+const PROFILES_KEY = 'deja-vu-profiles';
+const ACTIVE_KEY = 'deja-vu-active-profile';
+
+export const VOICES = ['Charon', 'Puck', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en-US', name: 'English' },
+  { code: 'es-ES', name: 'Spanish' },
+  { code: 'hi-IN', name: 'Hindi' },
+  { code: 'ar-EG', name: 'Arabic' },
+];
+
+// An empty language or voice follows the app's language and its default voice.
+const base = {
+  builtIn: true,
+  language: '',
+  voice: '',
+  speakingRate: 1,
+  alarmKinds: HAZARD_KINDS,
+  focus: '',
+};
+
+export const BUILT_IN_PROFILES: GuardianProfile[] = [
+  { ...base, id: 'street', name: 'Street walking', verbosity: 'standard', quietUpdateSeconds: 20 },
+  {
+    ...base,
+    id: 'crossing',
+    name: 'Street crossing',
+    verbosity: 'minimal',
+    quietUpdateSeconds: 10,
+    focus: 'The user is about to cross a street. Prioritise traffic, turning vehicles, bicycles, crossing signals and curb edges. Say clearly when it looks clear to cross and when it does not.',
+  },
+  {
+    ...base,
+    id: 'indoor',
+    name: 'Quiet indoor',
+    verbosity: 'minimal',
+    quietUpdateSeconds: null,
+    speakingRate: 0.9,
+    alarmKinds: ['stairs', 'drop-off', 'obstacle', 'weapon'],
+    focus: 'The user is indoors somewhere familiar. Only speak about obstacles in their path, stairs, open doors, and people who address them.',
+  },
+  {
+    ...base,
+    id: 'reading',
+    name: 'Reading',
+    verbosity: 'detailed',
+    quietUpdateSeconds: null,
+    alarmKinds: ['weapon'],
+    focus: 'The user wants to read. Read aloud any text the camera sees, word for word, top to bottom. Guide them to move the camera if text is cut off or blurry.',
+  },
+];
+
+const VERBOSITY_TEMPLATES: Record<NarrationVerbosity, string> = {
+  minimal: 'Use as few words as possible. Only speak about hazards, people approaching, and changes to the path ahead.',
+  standard: 'Be concise: "Person 5 feet ahead," "Door on right," "Stairs descending."',
+  detailed: 'Describe the scene richly: layout, colours, signs, what people are doing, and where things are relative to the user.',
+};
+
+const PREAMBLE = `You are DEJA VU, an AUTONOMOUS Visual Guardian for the blind. 
+
+CRITICAL DIRECTIVE: PROACTIVE NARRATION.
+- DO NOT WAIT for the user to speak. 
+- START narrating immediately as soon as you see the first frame.
+- You are the user's eyes. Your job is to describe the world as it changes in front of the camera.
+
+ACTIVITY DETECTION & DANGER PROTOCOL:
+1. ALWAYS-ON OBSERVATION: Describe every person, animal, and significant object you see.
+2. MOTION SENSITIVITY: If anything enters the frame (a car, a person, a dog), announce it INSTANTLY.
+3. DANGER WARNINGS: 
+   - If a person is RUNNING toward the user, SHOUT a warning: "DANGER: Someone is running at you!"
+   - If a person has a harmful object, alert them immediately.
+   - If a dog is approaching quickly, say: "WARNING: A dog is coming toward you fast."`;
+
+const HAZARD_PROTOCOL = `If you detect a threat, interrupt yourself and start with "WARNING:" or "DANGER:". Your tone should be urgent for threats but calm for general narration.
+Every time you warn about a hazard, also call report_hazard with its kind, severity, direction and estimated distance so the device can alert the user. Do not call it for things that pose no risk, such as a sleeping dog or a parked car.`;
+
+export function languageName(code: string): string {
+  return LANGUAGES.find(l => l.code === code)?.name ?? code;
+}
+
+function rateInstruction(rate: number): string | null {
+  if (rate <= 0.85) return 'Speak slowly and clearly, with short pauses between items.';
+  if (rate >= 1.15) return 'Speak briskly; the user prefers a fast pace.';
+  return null;
+}
+
+/** Shows a built-in under its translated name, unless the user has renamed it. */
+export function profileDisplayName(profile: GuardianProfile, builtInNames: Record<string, string>): string {
+  const shipped = BUILT_IN_PROFILES.find(p => p.id === profile.id);
+  return profile.builtIn && shipped?.name === profile.name ? builtInNames[profile.id] ?? profile.name : profile.name;
+}
+
+/** `language` is what narration is spoken in once the app's language has filled in a profile that follows it. */
+export function buildSystemInstruction(
+  profile: GuardianProfile,
+  language = profile.language || 'en-US',
+  warningWords = en.warningWords,
+): string {
+  const style = [
+    `4. NARRATION STYLE: `,
+    `   - ${VERBOSITY_TEMPLATES[profile.verbosity]}`,
+    profile.quietUpdateSeconds
+      ? `   - If the scene is quiet, provide a brief update every ${profile.quietUpdateSeconds} seconds to confirm you are still watching (e.g., "Path is still clear").`
+      : `   - If the scene is quiet, stay silent until something changes.`,
+  ];
+  const rate = rateInstruction(profile.speakingRate);
+  if (rate) style.push(`   - ${rate}`);
+
+  const sections = [PREAMBLE + '\n' + style.join('\n'), HAZARD_PROTOCOL];
+  const quietKinds = HAZARD_KINDS.filter(k => !profile.alarmKinds.includes(k));
+  if (quietKinds.length) {
+    sections.push(`In this mode, only report these kinds as high or critical: ${profile.alarmKinds.join(', ') || 'none'}. Report ${quietKinds.join(', ')} at low severity at most.`);
+  }
+  if (profile.focus.trim()) sections.push(`CURRENT MODE: ${profile.focus.trim()}`);
+  if (!language.startsWith('en')) {
+    sections.push(`Always speak ${languageName(language)}, whatever language the user uses. ` +
+      `Translate the example phrases above, and start warnings with "${warningWords.warning}:" or "${warningWords.danger}:" instead.`);
+  }
+  return sections.join('\n\n');
+}
+
+/** Built-ins first (with any saved edits applied), then the user's own profiles. */
+export function loadProfiles(): GuardianProfile[] {
+  let saved: GuardianProfile[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+  } catch (e) {}
+  // Narration can only be in a language the app has strings for; anything else follows the app.
+  saved = saved.map(s => s.language && !Object.values(LOCALES).some(l => l.language === s.language) ? { ...s, language: '' } : s);
+  const builtIns = BUILT_IN_PROFILES.map(p => ({ ...p, ...saved.find(s => s.id === p.id), builtIn: true }));
+  return [...builtIns, ...saved.filter(s => !BUILT_IN_PROFILES.some(p => p.id === s.id))];
+}
+
+export function saveProfile(profile: GuardianProfile): GuardianProfile[] {
+  const profiles = loadProfiles();
+  const next = profiles.some(p => p.id === profile.id)
+    ? profiles.map(p => (p.id === profile.id ? profile : p))
+    : [...profiles, profile];
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function deleteProfile(id: string): GuardianProfile[] {
+  const next = loadProfiles().filter(p => p.builtIn || p.id !== id);
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+  return next;
+}
+
+/** Puts a built-in profile back to how it shipped. */
+export function resetProfile(id: string): GuardianProfile[] {
+  const original = BUILT_IN_PROFILES.find(p => p.id === id);
+  return original ? saveProfile(original) : loadProfiles();
+}
+
+export function loadActiveProfile(): GuardianProfile {
+  const profiles = loadProfiles();
+  return profiles.find(p => p.id === localStorage.getItem(ACTIVE_KEY)) ?? profiles[0];
+}
+
+export function setActiveProfile(id: string): void {
+  localStorage.setItem(ACTIVE_KEY, id);
+}
+
+/** A custom copy of a profile, used as the starting point for a new one. */
+export function duplicateProfile(profile: GuardianProfile, name = `${profile.name} (copy)`): GuardianProfile {
+  return { ...profile, id: crypto.randomUUID(), name, builtIn: false };
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { DEFAULT_BACKOFF, ReconnectSupervisor, getBackoffDelay } from './reconnect';
+import { SessionController } from './sessionController';
+
+const options = { ...DEFAULT_BACKOFF, maxAttempts: 6, degradeAfterAttempts: 3 };
+
+/** A supervisor over a connect that fails `failures` times, then succeeds. */
+function supervise(failures: number) {
+  let calls = 0;
+  const handlers = {
+    connect: vi.fn(async (_attempt: number) => {
+      if (++calls <= failures) throw new Error(`failure ${calls}`);
+    }),
+    onReconnecting: vi.fn(),
+    onReconnected: vi.fn(),
+    onDegraded: vi.fn(),
+    onGiveUp: vi.fn(),
+  };
+  return { handlers, supervisor: new ReconnectSupervisor(handlers, options) };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // No jitter, so delays are exact.
+  vi.spyOn(Math, 'random').mockReturnValue(1);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles from the initial delay up to the cap', () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map(a => getBackoffDelay(a, DEFAULT_BACKOFF, 1))).toEqual([500, 1000, 2000, 4000, 8000, 15000, 15000]);
+  });
+
+  it('jitters by up to 20% below the schedule', () => {
+    expect(getBackoffDelay(2, DEFAULT_BACKOFF, 0)).toBe(1600);
+    expect(getBackoffDelay(2, DEFAULT_BACKOFF, 0.5)).toBe(1800);
+  });
+});
+
+describe('ReconnectSupervisor', () => {
+  it('retries on the backoff schedule until the link comes back', async () => {
+    const { handlers, supervisor } = supervise(2);
+    supervisor.connectionLost();
+    expect(supervisor.isReconnecting).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(handlers.connect).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(handlers.connect).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000 + 2000);
+
+    expect(handlers.connect.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+    expect(handlers.onReconnecting.mock.calls).toEqual([[1, 500], [2, 1000], [3, 2000]]);
+    expect(handlers.onReconnected).toHaveBeenCalledWith(3);
+    expect(handlers.onDegraded).not.toHaveBeenCalled();
+    expect(supervisor.isReconnecting).toBe(false);
+  });
+
+  it('ignores further drops while already recovering', async () => {
+    const { handlers, supervisor } = supervise(0);
+    supervisor.connectionLost();
+    supervisor.connectionLost();
+    await vi.runAllTimersAsync();
+    expect(handlers.connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('degrades once after N failed attempts and keeps trying', async () => {
+    const { handlers, supervisor } = supervise(4);
+    supervisor.connectionLost();
+    await vi.runAllTimersAsync();
+
+    expect(handlers.onDegraded).toHaveBeenCalledTimes(1);
+    // Degraded before the fourth attempt was scheduled, not after it.
+    expect(handlers.onDegraded.mock.invocationCallOrder[0]).toBeLessThan(handlers.onReconnecting.mock.invocationCallOrder[3]);
+    expect(handlers.onReconnected).toHaveBeenCalledWith(5);
+
+    // A fresh outage starts counting again.
+    supervisor.connectionLost();
+    await vi.runAllTimersAsync();
+    expect(handlers.onDegraded).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last attempt with the last error', async () => {
+    const { handlers, supervisor } = supervise(Infinity);
+    supervisor.connectionLost();
+    await vi.runAllTimersAsync();
+
+    expect(handlers.connect).toHaveBeenCalledTimes(6);
+    expect(handlers.onGiveUp).toHaveBeenCalledWith(new Error('failure 6'));
+    expect(handlers.onReconnected).not.toHaveBeenCalled();
+    expect(supervisor.isReconnecting).toBe(false);
+  });
+
+  it('stops retrying once disposed', async () => {
+    const { handlers, supervisor } = supervise(Infinity);
+    supervisor.connectionLost();
+    await vi.advanceTimersByTimeAsync(500);
+    supervisor.dispose();
+    await vi.runAllTimersAsync();
+    expect(handlers.connect).toHaveBeenCalledTimes(1);
+    expect(handlers.onGiveUp).not.toHaveBeenCalled();
+  });
+
+  it('hands over quietly to a new link on goAway, resuming from the latest handle', async () => {
+    // Wired as LiveGuardianSession wires them: goAway opens the next link straight
+    // away, and only a link that fails to open is treated as an outage.
+    const resumedWith: (string | null)[] = [];
+    const openLink = async () => { resumedWith.push(controller.resumeHandle); };
+    const onReconnecting = vi.fn();
+    const supervisor = new ReconnectSupervisor({ connect: openLink, onReconnecting }, options);
+    const controller = new SessionController({
+      runTool: vi.fn(),
+      sendToolResponse: vi.fn(),
+      onNarration: vi.fn(),
+      onHazard: vi.fn(),
+      onTurn: vi.fn(),
+      onGoAway: () => { openLink().catch(() => supervisor.connectionLost()); },
+    }, { play: async () => {}, stop: () => {} });
+
+    // Plain objects, as they arrive off the wire; the SDK's class only adds getters.
+    const messages = [
+      { sessionResumptionUpdate: { resumable: true, newHandle: 'handle-1' } },
+      { sessionResumptionUpdate: { resumable: false, newHandle: 'not-yet' } },
+      { sessionResumptionUpdate: { resumable: true, newHandle: 'handle-2' } },
+      { goAway: { timeLeft: '10s' } },
+    ] as LiveServerMessage[];
+    for (const msg of messages) await controller.handleMessage(msg);
+    await vi.runAllTimersAsync();
+
+    expect(resumedWith).toEqual(['handle-2']);
+    expect(onReconnecting).not.toHaveBeenCalled();
+    expect(supervisor.isReconnecting).toBe(false);
+  });
+});
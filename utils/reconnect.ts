@@ -0,0 +1,96 @@
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  maxAttempts: number;
+  /** Failed attempts after which `onDegraded` is called, once per outage, while retries carry on. */
+  degradeAfterAttempts: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 500,
+  maxDelayMs: 15000,
+  multiplier: 2,
+  maxAttempts: 8,
+  degradeAfterAttempts: Infinity,
+};
+
+export function getBackoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF, jitter = Math.random()): number {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * Math.pow(options.multiplier, attempt));
+  // Up to 20% jitter so a flapping network doesn't get hammered in lockstep.
+  return Math.round(base * (0.8 + 0.2 * jitter));
+}
+
+export interface ReconnectHandlers {
+  /** Opens a new link. Must resolve once the link is usable and reject if it fails to open. */
+  connect: (attempt: number) => Promise<void>;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  onReconnected?: (attempts: number) => void;
+  /** The outage has lasted `degradeAfterAttempts` attempts; time to fall back on something local. */
+  onDegraded?: () => void;
+  onGiveUp?: (lastError: unknown) => void;
+}
+
+/**
+ * Drives recovery after a dropped Live link: retries `connect` with exponential
+ * backoff until it succeeds or `maxAttempts` is exhausted. Knows nothing about
+ * the Live API itself, so it can be exercised against a fake `connect`.
+ */
+export class ReconnectSupervisor {
+  private attempt = 0;
+  private recovering = false;
+  private disposed = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private handlers: ReconnectHandlers,
+    private options: BackoffOptions = DEFAULT_BACKOFF,
+  ) {}
+
+  get isReconnecting(): boolean {
+    return this.recovering;
+  }
+
+  /** Reports a dropped link. Reports that arrive while already recovering are ignored. */
+  connectionLost(): void {
+    if (this.disposed || this.recovering) return;
+    this.recovering = true;
+    this.attempt = 0;
+    this.scheduleNext(undefined);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.recovering = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private scheduleNext(lastError: unknown): void {
+    if (this.attempt >= this.options.maxAttempts) {
+      this.recovering = false;
+      this.handlers.onGiveUp?.(lastError);
+      return;
+    }
+    if (this.attempt > 0 && this.attempt === this.options.degradeAfterAttempts) this.handlers.onDegraded?.();
+    const delay = getBackoffDelay(this.attempt, this.options);
+    this.handlers.onReconnecting?.(this.attempt + 1, delay);
+    this.timer = setTimeout(() => this.tryConnect(), delay);
+  }
+
+  private async tryConnect(): Promise<void> {
+    this.timer = null;
+    if (this.disposed) return;
+    this.attempt++;
+    try {
+      await this.handlers.connect(this.attempt);
+      if (this.disposed) return;
+      this.recovering = false;
+      this.handlers.onReconnected?.(this.attempt);
+      this.attempt = 0;
+    } catch (e) {
+      if (!this.disposed) this.scheduleNext(e);
+    }
+  }
+}
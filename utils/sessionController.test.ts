@@ -0,0 +1,191 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FunctionCall, LiveServerMessage } from '@google/genai';
+import { HazardSeverity } from '../types';
+import { SessionController, SessionControllerHost, DEFAULT_CONTROLLER_OPTIONS } from './sessionController';
+import { SessionRecorder } from './sessionRecorder';
+import { createReplayConnect, parseRecording } from './sessionReplay';
+import { ToolRegistry } from './toolRegistry';
+
+const fixture = (name: string) => parseRecording(readFileSync(new URL(`./fixtures/${name}.jsonl`, import.meta.url), 'utf8'));
+
+/** Plays a recorded session through a controller, as LiveGuardianSession would, and returns what came out. */
+async function replay(name: string) {
+  const host = {
+    runTool: vi.fn(async (_fc: FunctionCall): Promise<unknown> => ({ address: '12 High Street' })),
+    sendToolResponse: vi.fn(),
+    onNarration: vi.fn(),
+    onHazard: vi.fn(),
+    onTurn: vi.fn(),
+    onGoAway: vi.fn(),
+    onTurnEnd: vi.fn(),
+    onUsage: vi.fn(),
+  } satisfies SessionControllerHost;
+  const audio = { play: vi.fn(async (_base64: string) => {}), stop: vi.fn() };
+  const controller = new SessionController(host, audio, DEFAULT_CONTROLLER_OPTIONS);
+  const onclose = vi.fn();
+  const connect = createReplayConnect(fixture(name), { speed: 0 });
+  await connect({}, { onmessage: msg => controller.handleMessage(msg), onclose });
+  await vi.runAllTimersAsync();
+  return { host, audio, controller, onclose };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('SessionController replaying recorded sessions', () => {
+  it('runs tools, answers each call by id and keeps the resumption handle', async () => {
+    const { host, controller } = await replay('tool-calls');
+
+    expect(host.runTool).toHaveBeenCalledTimes(1);
+    expect(host.runTool.mock.calls[0][0].name).toBe('get_location_address');
+    expect(host.sendToolResponse.mock.calls.map(([params]) => params.functionResponses)).toEqual([
+      { id: 'call-1', name: 'get_location_address', response: { result: { address: '12 High Street' } } },
+      { id: 'call-2', name: 'report_hazard', response: { result: { acknowledged: true } } },
+    ]);
+    expect(controller.resumeHandle).toBe('handle-1');
+    expect(host.onUsage).toHaveBeenCalledWith(expect.objectContaining({ totalTokenCount: 876 }));
+  });
+
+  it('raises the reported hazard and does not double it with the keyword fallback', async () => {
+    const { host } = await replay('tool-calls');
+
+    expect(host.onHazard).toHaveBeenCalledTimes(1);
+    expect(host.onHazard.mock.calls[0][0]).toMatchObject({
+      kind: 'vehicle',
+      severity: HazardSeverity.HIGH,
+      direction: 'front-left',
+      distance: 4,
+      source: 'tool',
+    });
+    expect(host.onTurn).toHaveBeenCalledWith(expect.objectContaining({ type: 'model', text: 'WARNING: a car is turning in on your left.' }));
+    expect(host.onNarration).toHaveBeenLastCalledWith('WARNING: a car is turning in on your left.');
+    expect(host.onTurnEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('acknowledges a well-formed threat and rejects a malformed one', async () => {
+    const { host } = await replay('threat');
+
+    expect(host.runTool).not.toHaveBeenCalled();
+    expect(host.onHazard).toHaveBeenCalledTimes(1);
+    expect(host.onHazard.mock.calls[0][0]).toMatchObject({ kind: 'weapon', severity: HazardSeverity.CRITICAL, direction: 'ahead', source: 'tool' });
+    expect(host.sendToolResponse.mock.calls.map(([params]) => params.functionResponses)).toEqual([
+      { id: 'call-1', name: 'report_hazard', response: { result: { acknowledged: true } } },
+      { id: 'call-2', name: 'report_hazard', response: { result: { acknowledged: false } } },
+    ]);
+  });
+
+  it('falls back to keywords when the model warns without calling report_hazard', async () => {
+    const { host } = await replay('keyword-fallback');
+
+    // One spoken warning is one hazard, however many of its chunks match; "endangered" later is not a whole word.
+    expect(host.onHazard).toHaveBeenCalledTimes(1);
+    expect(host.onHazard.mock.calls[0][0]).toMatchObject({ severity: HazardSeverity.HIGH, source: 'keyword', direction: 'unknown' });
+    expect(host.onTurn.mock.calls.map(([message]) => message.text)).toEqual([
+      'DANGER: someone is running at you! Get back, step to your right.',
+      'An endangered plant in a pot on the left.',
+    ]);
+  });
+
+  it('stops narration audio on interruption and passes on goAway and close', async () => {
+    const { host, audio, controller, onclose } = await replay('interrupted');
+
+    expect(audio.play).toHaveBeenCalledTimes(2);
+    expect(audio.stop).toHaveBeenCalledTimes(1);
+    // The user's question stays open until the model answers; disposing flushes it.
+    controller.dispose();
+    expect(host.onTurn.mock.calls.map(([message]) => [message.type, message.text])).toEqual([
+      ['model', 'The path is clear ahead and'],
+      ['user', 'Where am I?'],
+    ]);
+    expect(host.onTurnEnd).toHaveBeenCalledTimes(1);
+    expect(host.onGoAway).toHaveBeenCalledTimes(1);
+    expect(onclose).toHaveBeenCalledWith({ code: 1000, reason: 'session ended' });
+  });
+
+  it('ignores messages once disposed', async () => {
+    const host = { runTool: vi.fn(), sendToolResponse: vi.fn(), onNarration: vi.fn(), onHazard: vi.fn(), onTurn: vi.fn(), onGoAway: vi.fn() };
+    const controller = new SessionController(host, { play: vi.fn(async () => {}), stop: vi.fn() });
+    controller.dispose();
+    for (const event of fixture('threat')) {
+      if (event.kind === 'message') await controller.handleMessage(event.data);
+    }
+    expect(host.onHazard).not.toHaveBeenCalled();
+    expect(host.sendToolResponse).not.toHaveBeenCalled();
+  });
+});
+
+describe('SessionController keyword fallback', () => {
+  it('matches a warning split across transcription chunks', async () => {
+    const host = { runTool: vi.fn(), sendToolResponse: vi.fn(), onNarration: vi.fn(), onHazard: vi.fn(), onTurn: vi.fn(), onGoAway: vi.fn() };
+    const controller = new SessionController(host, { play: vi.fn(async () => {}), stop: vi.fn() });
+    for (const text of ['Someone is coming fast, get', ' back', ' now.']) {
+      await controller.handleMessage({ serverContent: { outputTranscription: { text } } } as LiveServerMessage);
+    }
+    expect(host.onHazard).toHaveBeenCalledTimes(1);
+    expect(host.onHazard.mock.calls[0][0]).toMatchObject({ severity: HazardSeverity.HIGH, source: 'keyword' });
+  });
+});
+
+describe('SessionController tool calls', () => {
+  /** A controller whose tools are the given registry, as LiveGuardianSession wires it. */
+  function withTools(tools: ToolRegistry) {
+    const host = { runTool: (fc: FunctionCall) => tools.run(fc), sendToolResponse: vi.fn(), onNarration: vi.fn(), onHazard: vi.fn(), onTurn: vi.fn(), onGoAway: vi.fn() };
+    return { host, controller: new SessionController(host, { play: vi.fn(async () => {}), stop: vi.fn() }) };
+  }
+  // A plain object, as it arrives off the wire.
+  const call = (name: string) => ({ toolCall: { functionCalls: [{ id: 'call-1', name, args: {} }] } }) as LiveServerMessage;
+
+  it('answers a call to a tool that does not exist with an error', async () => {
+    const { host, controller } = withTools(new ToolRegistry());
+    await controller.handleMessage(call('open_pod_bay_doors'));
+    expect(host.sendToolResponse).toHaveBeenCalledWith({
+      functionResponses: { id: 'call-1', name: 'open_pod_bay_doors', response: { error: 'No tool called "open_pod_bay_doors".' } },
+    });
+  });
+
+  it('answers with an error when a tool throws', async () => {
+    const tools = new ToolRegistry([{
+      declaration: { name: 'get_location_address' },
+      run: () => { throw new Error('Location access denied.'); },
+    }]);
+    const { host, controller } = withTools(tools);
+    await controller.handleMessage(call('get_location_address'));
+    expect(host.sendToolResponse).toHaveBeenCalledWith({
+      functionResponses: { id: 'call-1', name: 'get_location_address', response: { error: 'Location access denied.' } },
+    });
+  });
+
+  it('still answers when the host itself fails to run a tool', async () => {
+    const { host, controller } = withTools(new ToolRegistry());
+    host.runTool = () => Promise.reject(new Error('Registry unavailable.'));
+    await expect(controller.handleMessage(call('get_location_address'))).resolves.toBeUndefined();
+    expect(host.sendToolResponse.mock.calls[0][0].functionResponses.response).toEqual({ error: 'Registry unavailable.' });
+  });
+});
+
+describe('SessionRecorder', () => {
+  it('records a replayed session into the same inbound events', async () => {
+    const events = fixture('tool-calls');
+    const recorder = new SessionRecorder(undefined, () => 0);
+    const connect = recorder.wrap(createReplayConnect(events, { speed: 0 }));
+    const transport = await connect({ responseModalities: [] }, { onmessage: () => {} });
+    await vi.runAllTimersAsync();
+    transport.sendRealtimeInput({ media: { data: 'AAAA', mimeType: 'image/jpeg' } });
+    transport.close();
+
+    const recorded = parseRecording(recorder.toJsonl());
+    const inbound = (list: typeof events) => list.filter(e => e.dir === 'in').map(({ kind, ...e }) => [kind, 'data' in e ? e.data : null]);
+    expect(inbound(recorded)).toEqual(inbound(events));
+    // Outbound media is redacted unless asked for.
+    expect(recorded.find(e => e.kind === 'realtime')).toMatchObject({ data: { media: { data: '<omitted 4 chars>' } } });
+    expect(recorded[recorded.length - 1].kind).toBe('closeRequested');
+  });
+});
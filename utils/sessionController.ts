@@ -0,0 +1,190 @@
+import { FunctionCall, LiveServerMessage, LiveSendToolResponseParameters, UsageMetadata } from '@google/genai';
+import { HazardReport, TranscriptionMessage } from '../types';
+import { en } from '../locales/en';
+import { parseHazardArgs, detectKeywordHazard, ThreatKeyword } from './hazards';
+import { TurnAssembler } from './transcript';
+
+/** Where narration audio goes. `AudioScheduler` is the real one; a replay harness can pass a fake. */
+export interface AudioSink {
+  play(base64: string): Promise<void>;
+  stop(): void;
+}
+
+export interface SessionControllerHost {
+  /** Runs a tool other than report_hazard. Returning undefined sends no response; `{ error }` is sent as a failure. */
+  runTool(fc: FunctionCall): Promise<unknown>;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  /** The model's current turn so far, as it streams in. */
+  onNarration(text: string): void;
+  onHazard(report: HazardReport): void;
+  onTurn(message: TranscriptionMessage): void;
+  /** The server is about to drop the link. */
+  onGoAway(): void;
+  /** Diagnostics: a chunk of narration audio arrived. */
+  onNarrationAudio?(): void;
+  /** Diagnostics: a chunk of narration audio couldn't be decoded and was skipped. */
+  onAudioDecodeFailed?(error: unknown): void;
+  /** Diagnostics: the model's turn finished or was interrupted. */
+  onTurnEnd?(): void;
+  /** Diagnostics: token usage the server reported with a response. */
+  onUsage?(usage: UsageMetadata): void;
+}
+
+export interface SessionControllerOptions {
+  /** Keyword matching only kicks in if the model hasn't used report_hazard this recently. */
+  keywordFallbackQuietMs: number;
+  /** Give up waiting for a snapshot answer and resume narration after this long. */
+  snapshotTimeoutMs: number;
+  /** Words in the narration language that the keyword fallback treats as a warning. */
+  threatKeywords: ThreatKeyword[];
+}
+
+export const DEFAULT_CONTROLLER_OPTIONS: SessionControllerOptions = {
+  keywordFallbackQuietMs: 4000,
+  snapshotTimeoutMs: 20000,
+  threatKeywords: en.threatKeywords,
+};
+
+const isToolError = (result: unknown): result is { error: unknown } =>
+  !!result && typeof result === 'object' && 'error' in result;
+
+/**
+ * Everything the guardian does with a message from the Live API, with no React
+ * or network in sight: tool calls, hazard detection, transcripts, narration
+ * audio, interruptions and snapshot answers. Feed it a recording and watch the
+ * host callbacks to check behaviour without a live model.
+ */
+export class SessionController {
+  /** Latest resumption handle from the server, for reopening the link where it left off. */
+  resumeHandle: string | null = null;
+
+  private assembler: TurnAssembler;
+  private lastToolHazardAt = 0;
+  // The fallback rescans the turn with every chunk; one spoken warning is one hazard.
+  private keywordHazardInTurn = false;
+  private pendingSnapshot = false;
+  private snapshotHeard = false;
+  private snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+
+  constructor(
+    private host: SessionControllerHost,
+    private audio: AudioSink,
+    private options: SessionControllerOptions = DEFAULT_CONTROLLER_OPTIONS,
+    private now: () => number = Date.now,
+  ) {
+    this.assembler = new TurnAssembler(message => host.onTurn(message));
+  }
+
+  get snapshotPending(): boolean {
+    return this.pendingSnapshot;
+  }
+
+  async handleMessage(msg: LiveServerMessage): Promise<void> {
+    if (this.disposed) return;
+    const content = msg.serverContent;
+
+    if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+      this.resumeHandle = msg.sessionResumptionUpdate.newHandle;
+    }
+
+    if (msg.goAway) this.host.onGoAway();
+
+    if (msg.usageMetadata) this.host.onUsage?.(msg.usageMetadata);
+
+    if (msg.toolCall) {
+      for (const fc of msg.toolCall.functionCalls ?? []) {
+        let result: unknown;
+        try {
+          result = await this.runTool(fc);
+        } catch (e) {
+          result = { error: e instanceof Error ? e.message : String(e) };
+        }
+        if (result === undefined || this.disposed) continue;
+        const response = isToolError(result) ? result : { result };
+        this.host.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response } });
+      }
+    }
+
+    if (content?.outputTranscription?.text) {
+      const turn = this.assembler.append('model', content.outputTranscription.text, this.now());
+      this.host.onNarration(turn);
+      // The whole turn so far, as a warning like "get back" can be split across chunks.
+      if (!this.keywordHazardInTurn && this.now() - this.lastToolHazardAt > this.options.keywordFallbackQuietMs) {
+        const report = detectKeywordHazard(turn, this.options.threatKeywords, this.now());
+        if (report) {
+          this.keywordHazardInTurn = true;
+          this.host.onHazard(report);
+        }
+      }
+    }
+
+    if (content?.inputTranscription?.text) {
+      this.assembler.append('user', content.inputTranscription.text, this.now());
+    }
+
+    if (content?.turnComplete || content?.interrupted) {
+      this.assembler.complete('model');
+      this.keywordHazardInTurn = false;
+    }
+
+    const audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (audio && !this.disposed) {
+      this.host.onNarrationAudio?.();
+      try {
+        await this.audio.play(audio);
+      } catch (e) {
+        console.warn("Audio decode skipped.");
+        this.host.onAudioDecodeFailed?.(e);
+      }
+    }
+
+    if (content?.turnComplete || content?.interrupted) this.host.onTurnEnd?.();
+
+    if (content?.interrupted) this.audio.stop();
+
+    // A snapshot answer has been spoken once its turn completes; narration can carry on.
+    if (this.pendingSnapshot && (audio || content?.outputTranscription)) this.snapshotHeard = true;
+    if (this.snapshotHeard && content?.turnComplete) this.endSnapshot();
+  }
+
+  /** Swaps the fallback keywords, e.g. when the narration language changes mid-session. */
+  setThreatKeywords(threatKeywords: ThreatKeyword[]): void {
+    this.options = { ...this.options, threatKeywords };
+  }
+
+  /** Marks a snapshot question as in flight. Returns false if one already is. */
+  beginSnapshot(): boolean {
+    if (this.pendingSnapshot || this.disposed) return false;
+    this.pendingSnapshot = true;
+    this.audio.stop();
+    this.snapshotTimer = setTimeout(() => this.endSnapshot(), this.options.snapshotTimeoutMs);
+    return true;
+  }
+
+  endSnapshot(): void {
+    if (this.snapshotTimer) clearTimeout(this.snapshotTimer);
+    this.snapshotTimer = null;
+    this.pendingSnapshot = false;
+    this.snapshotHeard = false;
+  }
+
+  /** Flushes any half-finished turn and ignores everything that arrives afterwards. */
+  dispose(): void {
+    if (this.disposed) return;
+    this.assembler.complete();
+    this.disposed = true;
+    this.audio.stop();
+    this.endSnapshot();
+  }
+
+  private async runTool(fc: FunctionCall): Promise<unknown> {
+    if (fc.name !== 'report_hazard') return this.host.runTool(fc);
+    const report = parseHazardArgs(fc.args, this.now());
+    if (report) {
+      this.lastToolHazardAt = report.timestamp;
+      this.host.onHazard(report);
+    }
+    return { acknowledged: !!report };
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  Content,
+  LiveConnectConfig,
+  LiveServerMessage,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveSendClientContentParameters,
+  Part,
+} from '@google/genai';
+import { ConnectLive, LiveTransport } from './liveTransport';
+
+/** An error or close event, reduced to what survives JSON. */
+export interface RecordedError {
+  message?: string;
+  code?: number;
+  reason?: string;
+}
+
+/** One line of a recording, by what crossed the link. `t` is milliseconds since the recording started. */
+export type RecordedEvent = { t: number } & (
+  | { dir: 'out'; kind: 'connect'; data: LiveConnectConfig }
+  | { dir: 'in'; kind: 'open' }
+  | { dir: 'in'; kind: 'message'; data: LiveServerMessage }
+  | { dir: 'in'; kind: 'error' | 'close'; data: RecordedError }
+  | { dir: 'out'; kind: 'realtime'; data: LiveSendRealtimeInputParameters }
+  | { dir: 'out'; kind: 'toolResponse'; data: LiveSendToolResponseParameters }
+  | { dir: 'out'; kind: 'clientContent'; data: LiveSendClientContentParameters }
+  | { dir: 'out'; kind: 'closeRequested' }
+);
+
+export type RecordedKind = RecordedEvent['kind'];
+
+/** A recorded event before it is stamped with its time. */
+export type UntimedEvent = RecordedEvent extends infer E ? E extends RecordedEvent ? Omit<E, 't'> : never : never;
+
+export interface RecorderOptions {
+  /** Keep camera frames and mic audio sent to the model. Off by default: it is large and private. */
+  includeOutboundMedia: boolean;
+  /** Keep the model's narration audio, so a replay exercises audio scheduling too. */
+  includeInboundAudio: boolean;
+}
+
+export const DEFAULT_RECORDER_OPTIONS: RecorderOptions = {
+  includeOutboundMedia: false,
+  includeInboundAudio: true,
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value ?? null));
+
+const omitted = (data: string | undefined) => `<omitted ${data?.length ?? 0} chars>`;
+
+// Client content can be a single turn, a list of turns, or bare parts; this walks all of them.
+function partsOf(turns: LiveSendClientContentParameters['turns']): Part[] {
+  const items: (Content | Part | string)[] = turns === undefined ? [] : Array.isArray(turns) ? turns : [turns];
+  return items.flatMap(item => typeof item === 'string' ? [] : 'parts' in item ? item.parts ?? [] : [item as Part]);
+}
+
+const describeEvent = (e: unknown): RecordedError => {
+  if (e && typeof e === 'object') {
+    const { message, code, reason } = e as { message?: string; code?: number; reason?: string };
+    return { message, code, reason };
+  }
+  return { message: String(e) };
+};
+
+/**
+ * Logs everything that crosses the Live link, in both directions, so a session
+ * can be saved as JSONL and replayed later with `createReplayConnect`.
+ */
+export class SessionRecorder {
+  private log: RecordedEvent[] = [];
+  private startedAt: number | null = null;
+
+  constructor(
+    private options: RecorderOptions = DEFAULT_RECORDER_OPTIONS,
+    private now: () => number = Date.now,
+  ) {}
+
+  get events(): readonly RecordedEvent[] {
+    return this.log;
+  }
+
+  /** Returns a connect function that behaves like `connect` but records as it goes. */
+  wrap(connect: ConnectLive): ConnectLive {
+    return async (config, callbacks) => {
+      this.record({ dir: 'out', kind: 'connect', data: clone(config) });
+      const transport = await connect(config, {
+        onopen: () => {
+          this.record({ dir: 'in', kind: 'open' });
+          callbacks.onopen?.();
+        },
+        onmessage: (msg) => {
+          this.record({ dir: 'in', kind: 'message', data: this.sanitizeInbound(msg) });
+          callbacks.onmessage(msg);
+        },
+        onerror: (e) => {
+          this.record({ dir: 'in', kind: 'error', data: describeEvent(e) });
+          callbacks.onerror?.(e);
+        },
+        onclose: (e) => {
+          this.record({ dir: 'in', kind: 'close', data: describeEvent(e) });
+          callbacks.onclose?.(e);
+        },
+      });
+      return this.wrapTransport(transport);
+    };
+  }
+
+  toJsonl(): string {
+    return this.log.map(e => JSON.stringify(e)).join('\n') + (this.log.length ? '\n' : '');
+  }
+
+  clear(): void {
+    this.log = [];
+    this.startedAt = null;
+  }
+
+  private wrapTransport(transport: LiveTransport): LiveTransport {
+    return {
+      sendRealtimeInput: (params) => {
+        this.record({ dir: 'out', kind: 'realtime', data: this.sanitizeRealtime(params) });
+        transport.sendRealtimeInput(params);
+      },
+      sendToolResponse: (params) => {
+        this.record({ dir: 'out', kind: 'toolResponse', data: clone(params) });
+        transport.sendToolResponse(params);
+      },
+      sendClientContent: (params) => {
+        const data = clone(params);
+        if (!this.options.includeOutboundMedia) {
+          for (const part of partsOf(data.turns)) {
+            if (part.inlineData) part.inlineData.data = omitted(part.inlineData.data);
+          }
+        }
+        this.record({ dir: 'out', kind: 'clientContent', data });
+        transport.sendClientContent(params);
+      },
+      close: () => {
+        this.record({ dir: 'out', kind: 'closeRequested' });
+        transport.close();
+      },
+      bufferedAmount: () => transport.bufferedAmount?.() ?? 0,
+    };
+  }
+
+  private sanitizeInbound(msg: LiveServerMessage): LiveServerMessage {
+    const data = clone(msg);
+    if (!this.options.includeInboundAudio) {
+      for (const part of data.serverContent?.modelTurn?.parts ?? []) {
+        if (part.inlineData) part.inlineData.data = '';
+      }
+    }
+    return data;
+  }
+
+  private sanitizeRealtime(params: LiveSendRealtimeInputParameters): LiveSendRealtimeInputParameters {
+    const data = clone(params);
+    if (!this.options.includeOutboundMedia) {
+      for (const blob of [data.media, data.audio, data.video]) {
+        if (blob) blob.data = omitted(blob.data);
+      }
+    }
+    return data;
+  }
+
+  private record(event: UntimedEvent): void {
+    const now = this.now();
+    if (this.startedAt === null) this.startedAt = now;
+    this.log.push({ ...event, t: now - this.startedAt } as RecordedEvent);
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveSendClientContentParameters,
+} from '@google/genai';
+import { ConnectLive, LiveTransport, LiveTransportCallbacks } from './liveTransport';
+import { RecordedEvent, UntimedEvent } from './sessionRecorder';
+
+export interface ReplayOptions {
+  /** Playback rate relative to the recording; 0 plays every message as fast as possible. */
+  speed: number;
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = { speed: 1 };
+
+export function parseRecording(jsonl: string): RecordedEvent[] {
+  return jsonl
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as RecordedEvent);
+}
+
+/**
+ * Splits a recording at each `connect`, so the nth link the app opens during a
+ * replay gets what the nth link received when it was recorded.
+ */
+export function splitConnections(events: readonly RecordedEvent[]): RecordedEvent[][] {
+  const connections: RecordedEvent[][] = [];
+  for (const event of events) {
+    if (event.kind === 'connect') connections.push([]);
+    else connections[connections.length - 1]?.push(event);
+  }
+  return connections;
+}
+
+/** Stands in for a Live session: keeps what the app sent so it can be compared with the recording. */
+export class ReplayTransport implements LiveTransport {
+  readonly sent: RecordedEvent[] = [];
+  private isClosed = false;
+
+  constructor(private onClose: () => void, private now: () => number = Date.now, private startedAt = now()) {}
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void {
+    this.push({ dir: 'out', kind: 'realtime', data: params });
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters): void {
+    this.push({ dir: 'out', kind: 'toolResponse', data: params });
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters): void {
+    this.push({ dir: 'out', kind: 'clientContent', data: params });
+  }
+
+  close(): void {
+    if (this.isClosed) return;
+    this.push({ dir: 'out', kind: 'closeRequested' });
+    this.isClosed = true;
+    this.onClose();
+  }
+
+  private push(event: UntimedEvent): void {
+    if (this.isClosed) return;
+    this.sent.push({ ...event, t: this.now() - this.startedAt } as RecordedEvent);
+  }
+}
+
+/**
+ * Plays a recording back through the same callbacks the real API would call,
+ * keeping the original timing (scaled by `speed`). Every transport it hands out
+ * is passed to `onTransport` so a harness can inspect what was sent.
+ */
+export function createReplayConnect(
+  events: readonly RecordedEvent[],
+  options: ReplayOptions = DEFAULT_REPLAY_OPTIONS,
+  onTransport?: (transport: ReplayTransport, index: number) => void,
+): ConnectLive {
+  const connections = splitConnections(events);
+  let next = 0;
+
+  return async (_config, callbacks: LiveTransportCallbacks) => {
+    const index = next++;
+    const inbound = (connections[index] ?? []).filter(e => e.dir === 'in');
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const transport = new ReplayTransport(() => timers.forEach(clearTimeout));
+    onTransport?.(transport, index);
+
+    if (index >= connections.length) {
+      // Ran off the end of the recording: behave like a server that refuses the link.
+      timers.push(setTimeout(() => callbacks.onerror?.({ message: 'Replay has no more recorded connections.' }), 0));
+      return transport;
+    }
+
+    const origin = inbound[0]?.t ?? 0;
+    let last = 0;
+    for (const event of inbound) {
+      // With speed 0 the order still holds: each timer is queued after the one before it.
+      const delay = options.speed > 0 ? (event.t - origin) / options.speed : 0;
+      last = Math.max(last, delay);
+      timers.push(setTimeout(() => {
+        if (transport.closed) return;
+        switch (event.kind) {
+          case 'open':
+            callbacks.onopen?.();
+            break;
+          case 'message':
+            callbacks.onmessage(event.data);
+            break;
+          case 'error':
+            callbacks.onerror?.(event.data);
+            break;
+          case 'close':
+            callbacks.onclose?.(event.data);
+            break;
+        }
+      }, last));
+    }
+    return transport;
+  };
+}
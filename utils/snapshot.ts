@@ -0,0 +1,55 @@
+
+import { blobToBase64 } from './audio';
+
+export type SnapshotMode = 'read-text' | 'currency' | 'colour' | 'describe';
+
+/** Model-facing; the spoken label and confirmation live in the locale catalogues. */
+export interface SnapshotModeInfo {
+  prompt: string;
+}
+
+const SHARED = 'Answer only this request, without repeating the scene narration. When you are done, go back to normal narration.';
+
+export const SNAPSHOT_MODES: Record<SnapshotMode, SnapshotModeInfo> = {
+  'read-text': {
+    prompt: `This is a full-resolution photo. Read aloud, word for word, all text you can see, top to bottom. For labels and packaging, start with the product name, then dosage or instructions. If text is cut off or blurry, say which way to move the camera. ${SHARED}`,
+  },
+  'currency': {
+    prompt: `This is a full-resolution photo. Identify any banknotes or coins: currency and denomination of each, then the total. If you are not sure, say so rather than guessing. ${SHARED}`,
+  },
+  'colour': {
+    prompt: `This is a full-resolution photo. Name the main colour of the object in the centre of the frame, with shade (for example "dark navy blue"), and any pattern. ${SHARED}`,
+  },
+  'describe': {
+    prompt: `This is a full-resolution photo. Describe it in detail: layout from near to far, people and what they are doing, objects, signs and anything unusual. ${SHARED}`,
+  },
+};
+
+/**
+ * Grabs a still at the camera's full resolution. Uses ImageCapture where the
+ * browser has it, which can return a sharper photo than the video stream.
+ */
+export async function captureStill(video: HTMLVideoElement, quality = 0.92): Promise<Blob> {
+  const track = (video.srcObject as MediaStream | null)?.getVideoTracks()[0];
+  const ImageCaptureCtor = (window as any).ImageCapture;
+  if (track && ImageCaptureCtor) {
+    try {
+      return await new ImageCaptureCtor(track).takePhoto();
+    } catch (e) {
+      console.warn("ImageCapture failed, using a video frame.", e);
+    }
+  }
+  if (!video.videoWidth) throw new Error('Camera is not ready');
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')?.drawImage(video, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) throw new Error('Could not capture a photo');
+  return blob;
+}
+
+export async function captureStillBase64(video: HTMLVideoElement): Promise<{ data: string; mimeType: string }> {
+  const blob = await captureStill(video);
+  return { data: await blobToBase64(blob), mimeType: blob.type || 'image/jpeg' };
+}
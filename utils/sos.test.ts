@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmergencyContact, HazardReport, HazardSeverity, SosPayload } from '../types';
+import { HazardEscalation, SosHandoff, SosHandoffTransport, SosTransport, SosTransports, StubTransport, UriTransport, WebhookTransport, dispatchSos } from './sos';
+
+const payload: SosPayload = { trigger: 'long-press', triggeredAt: 0, location: null, transcript: [], snapshot: null };
+
+const contact = (channel: EmergencyContact['channel'], address: string): EmergencyContact =>
+  ({ id: address, name: address, channel, address });
+
+const handoffTransport = (name: SosHandoff['channel']): SosHandoffTransport => ({
+  name,
+  prepare: vi.fn(async () => ({ channel: name, open: vi.fn(async () => {}) })),
+});
+
+const transports = (webhook: SosTransport = new StubTransport()): SosTransports => ({
+  webhook,
+  sms: handoffTransport('sms'),
+  email: handoffTransport('email'),
+  share: handoffTransport('share'),
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('dispatchSos', () => {
+  it('counts only webhooks that accepted the message as delivered', async () => {
+    const fetch = vi.fn(async (url: string) => ({ ok: url.endsWith('/ok'), status: url.endsWith('/ok') ? 200 : 500 }));
+    vi.stubGlobal('fetch', fetch);
+    const all = transports(new WebhookTransport());
+
+    const ok = await dispatchSos(payload, [contact('webhook', 'https://a/ok'), contact('webhook', 'https://b/fail')], all);
+    expect(ok).toEqual({ delivered: 1, handoffs: [] });
+
+    const failed = await dispatchSos(payload, [contact('webhook', 'https://b/fail')], all);
+    expect(failed).toEqual({ delivered: 0, handoffs: [] });
+  });
+
+  it('prepares SMS and mail for the user to send instead of counting them', async () => {
+    const all = transports(new StubTransport(true));
+    const result = await dispatchSos(payload, [contact('sms', '+441'), contact('sms', '+442'), contact('email', 'a@b.c'), contact('webhook', 'https://a')], all);
+
+    expect(result.delivered).toBe(0);
+    expect(result.handoffs.map(h => h.channel)).toEqual(['sms', 'email']);
+    expect(all.sms.prepare).toHaveBeenCalledWith(payload, [contact('sms', '+441'), contact('sms', '+442')]);
+    expect(all.share.prepare).not.toHaveBeenCalled();
+  });
+
+  it('offers the share sheet when there are no contacts', async () => {
+    const result = await dispatchSos(payload, [], transports());
+    expect(result.delivered).toBe(0);
+    expect(result.handoffs.map(h => h.channel)).toEqual(['share']);
+  });
+
+  it('opens a single SMS to every recipient only when asked', async () => {
+    const navigate = vi.fn();
+    const handoff = await new UriTransport('sms', navigate).prepare(payload, [contact('sms', ' +441 '), contact('sms', '+442')]);
+    expect(navigate).not.toHaveBeenCalled();
+
+    await handoff.open();
+    expect(navigate).toHaveBeenCalledTimes(1);
+    expect(navigate.mock.calls[0][0]).toMatch(/^sms:\+441,\+442\?body=DEJA%20VU%20SOS/);
+  });
+});
+
+describe('HazardEscalation', () => {
+  const hazard = (timestamp: number, overrides: Partial<HazardReport> = {}): HazardReport =>
+    ({ kind: 'vehicle', severity: HazardSeverity.HIGH, direction: 'ahead', source: 'tool', timestamp, ...overrides });
+
+  it('escalates after separate high-severity reports within the window', () => {
+    const escalation = new HazardEscalation();
+    expect(escalation.record(hazard(0))).toBe(false);
+    expect(escalation.record(hazard(1000, { kind: 'cyclist' }))).toBe(false);
+    expect(escalation.record(hazard(2000, { direction: 'left' }))).toBe(true);
+    // The count starts over once it has fired.
+    expect(escalation.record(hazard(3000, { kind: 'person' }))).toBe(false);
+  });
+
+  it('treats repeats of the same hazard as one', () => {
+    const escalation = new HazardEscalation();
+    // Reported, re-reported and re-reported again while it is still there.
+    expect([0, 5000, 10000, 14000].map(t => escalation.record(hazard(t)))).toEqual([false, false, false, false]);
+  });
+
+  it('ignores the keyword fallback, local alerts and lesser hazards', () => {
+    const escalation = new HazardEscalation();
+    expect(escalation.record(hazard(0, { source: 'keyword' }))).toBe(false);
+    expect(escalation.record(hazard(0, { source: 'local', kind: 'obstacle' }))).toBe(false);
+    expect(escalation.record(hazard(0, { severity: HazardSeverity.MEDIUM, kind: 'step' }))).toBe(false);
+    expect(escalation.record(hazard(0))).toBe(false);
+    expect(escalation.record(hazard(1000, { kind: 'cyclist' }))).toBe(false);
+    expect(escalation.record(hazard(2000, { kind: 'person' }))).toBe(true);
+  });
+});
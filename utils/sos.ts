@@ -0,0 +1,216 @@
+
+import { EmergencyContact, HazardReport, HazardSeverity, SosPayload } from '../types';
+import { compareSeverity } from './hazards';
+
+const STORAGE_KEY = 'deja-vu-contacts';
+
+export function loadContacts(): EmergencyContact[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveContacts(contacts: EmergencyContact[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(contacts));
+}
+
+export function formatSosMessage(payload: SosPayload): string {
+  const lines = [`DEJA VU SOS: the user needs help (${payload.trigger}) at ${new Date(payload.triggeredAt).toLocaleString()}.`];
+  const loc = payload.location;
+  if (loc) {
+    if (loc.address) lines.push(`Near: ${loc.address}`);
+    lines.push(`Map: https://maps.google.com/?q=${loc.latitude},${loc.longitude} (accurate to ~${loc.accuracyMeters} m)`);
+  } else {
+    lines.push('Location unavailable.');
+  }
+  if (payload.transcript.length) {
+    lines.push('', 'Recent narration:');
+    payload.transcript.forEach(m => lines.push(`- ${m.type === 'model' ? 'Guardian' : 'User'}: ${m.text}`));
+  }
+  return lines.join('\n');
+}
+
+/** A channel that can confirm delivery itself, without the user's help. */
+export interface SosTransport {
+  readonly name: string;
+  /** Resolves only once the message was accepted; rejects otherwise. */
+  send(payload: SosPayload, contacts: EmergencyContact[]): Promise<void>;
+}
+
+/**
+ * A message composed in another app (SMS, mail, the share sheet). Nothing is
+ * sent until the user confirms it there, and browsers only allow opening one
+ * from a tap, so `open` must be called from a user gesture.
+ */
+export interface SosHandoff {
+  readonly channel: 'sms' | 'email' | 'share';
+  open(): Promise<void>;
+}
+
+/** A channel that can only prepare a message for the user to send. */
+export interface SosHandoffTransport {
+  readonly name: SosHandoff['channel'];
+  prepare(payload: SosPayload, contacts: EmergencyContact[]): Promise<SosHandoff>;
+}
+
+/** POSTs the payload as JSON to each contact's webhook URL. */
+export class WebhookTransport implements SosTransport {
+  readonly name = 'webhook';
+
+  async send(payload: SosPayload, contacts: EmergencyContact[]): Promise<void> {
+    const results = await Promise.allSettled(contacts.map(async c => {
+      const res = await fetch(c.address, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...payload, contact: c.name, message: formatSosMessage(payload) }),
+      });
+      if (!res.ok) throw new Error(`Webhook for ${c.name} returned ${res.status}`);
+    }));
+    if (results.every(r => r.status === 'rejected')) throw new Error('No webhook accepted the SOS.');
+  }
+}
+
+/** Prefills one SMS or mail to every contact on the channel. The snapshot can't travel this way. */
+export class UriTransport implements SosHandoffTransport {
+  constructor(readonly name: 'sms' | 'email', private navigate: (uri: string) => void = uri => { window.location.href = uri; }) {}
+
+  async prepare(payload: SosPayload, contacts: EmergencyContact[]): Promise<SosHandoff> {
+    const recipients = contacts.map(c => c.address.trim()).join(',');
+    const body = encodeURIComponent(formatSosMessage(payload));
+    const uri = this.name === 'sms'
+      ? `sms:${recipients}?body=${body}`
+      : `mailto:${recipients}?subject=${encodeURIComponent('DEJA VU SOS')}&body=${body}`;
+    return { channel: this.name, open: async () => this.navigate(uri) };
+  }
+}
+
+/** Used when no contacts are configured: lets the user pick who to send to via the share sheet. */
+export class ShareTransport implements SosHandoffTransport {
+  readonly name = 'share';
+
+  async prepare(payload: SosPayload): Promise<SosHandoff> {
+    if (!navigator.share) throw new Error('Sharing is not supported on this device.');
+    // Everything async happens here, so `open` can call share while the tap still counts.
+    const data: ShareData = { title: 'DEJA VU SOS', text: formatSosMessage(payload) };
+    if (payload.snapshot) {
+      const blob = await (await fetch(payload.snapshot)).blob();
+      const file = new File([blob], 'sos.jpg', { type: 'image/jpeg' });
+      if (navigator.canShare?.({ files: [file] })) data.files = [file];
+    }
+    return { channel: 'share', open: () => navigator.share(data) };
+  }
+}
+
+/** Records payloads instead of sending them, for local testing. */
+export class StubTransport implements SosTransport {
+  readonly name = 'stub';
+  sent: { payload: SosPayload; contacts: EmergencyContact[] }[] = [];
+
+  constructor(private fail = false) {}
+
+  async send(payload: SosPayload, contacts: EmergencyContact[]): Promise<void> {
+    if (this.fail) throw new Error('stub transport failure');
+    this.sent.push({ payload, contacts });
+  }
+}
+
+export interface SosTransports {
+  webhook: SosTransport;
+  sms: SosHandoffTransport;
+  email: SosHandoffTransport;
+  share: SosHandoffTransport;
+}
+
+export function createDefaultTransports(): SosTransports {
+  return {
+    webhook: new WebhookTransport(),
+    sms: new UriTransport('sms'),
+    email: new UriTransport('email'),
+    share: new ShareTransport(),
+  };
+}
+
+export interface SosDispatchResult {
+  /** Channels that confirmed the message was sent. */
+  delivered: number;
+  /** Messages ready in another app, in the order to offer them. Each needs a tap, then the user's own send. */
+  handoffs: SosHandoff[];
+}
+
+/**
+ * Sends what can be sent unattended (webhooks) and prepares the rest for the
+ * user to confirm. Only confirmed sends count as delivered.
+ */
+export async function dispatchSos(payload: SosPayload, contacts: EmergencyContact[], transports: SosTransports): Promise<SosDispatchResult> {
+  const result: SosDispatchResult = { delivered: 0, handoffs: [] };
+  const prepare = async (transport: SosHandoffTransport, group: EmergencyContact[]) => {
+    try {
+      result.handoffs.push(await transport.prepare(payload, group));
+    } catch (e) {
+      console.warn(`SOS via ${transport.name} unavailable.`, e);
+    }
+  };
+  if (!contacts.length) {
+    await prepare(transports.share, []);
+    return result;
+  }
+  const webhooks = contacts.filter(c => c.channel === 'webhook');
+  if (webhooks.length) {
+    try {
+      await transports.webhook.send(payload, webhooks);
+      result.delivered++;
+    } catch (e) {
+      console.warn('SOS via webhook failed.', e);
+    }
+  }
+  for (const channel of ['sms', 'email'] as const) {
+    const group = contacts.filter(c => c.channel === channel);
+    if (group.length) await prepare(transports[channel], group);
+  }
+  return result;
+}
+
+export interface EscalationOptions {
+  /** How many separate high-or-worse hazards within the window trigger an SOS. */
+  threshold: number;
+  windowMs: number;
+  /** The same kind in the same direction reported again within this long is the same hazard. */
+  repeatMs: number;
+}
+
+const DEFAULT_ESCALATION: EscalationOptions = { threshold: 3, windowMs: 60000, repeatMs: 15000 };
+
+/**
+ * Watches the hazard stream for repeated high-severity reports. Only the
+ * model's report_hazard calls count: the keyword fallback and the on-device
+ * alerts echo the same hazard and are too coarse to call for help on.
+ */
+export class HazardEscalation {
+  private recent: number[] = [];
+  private lastSeen = new Map<string, number>();
+
+  constructor(private options: EscalationOptions = DEFAULT_ESCALATION) {}
+
+  /** Returns true when this report tips the count over the threshold; the count then starts over. */
+  record(report: HazardReport): boolean {
+    if (report.source !== 'tool' || compareSeverity(report.severity, HazardSeverity.HIGH) < 0) return false;
+    const key = `${report.kind}/${report.direction}`;
+    const seenAt = this.lastSeen.get(key);
+    this.lastSeen.set(key, report.timestamp);
+    if (seenAt !== undefined && report.timestamp - seenAt < this.options.repeatMs) return false;
+
+    this.recent = this.recent.filter(t => report.timestamp - t < this.options.windowMs);
+    this.recent.push(report.timestamp);
+    if (this.recent.length < this.options.threshold) return false;
+    this.recent = [];
+    return true;
+  }
+
+  reset(): void {
+    this.recent = [];
+    this.lastSeen.clear();
+  }
+}
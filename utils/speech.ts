@@ -0,0 +1,37 @@
+let speechLanguage = 'en-US';
+
+/** Sets the language for on-device speech from now on, e.g. when the user changes the app language. */
+export function setSpeechLanguage(language: string): void {
+  speechLanguage = language;
+}
+
+/**
+ * The installed voice that best matches a BCP-47 tag: the exact language and
+ * region first, then any region of the language. On-device voices are
+ * preferred because they keep working without a connection.
+ */
+export function pickVoice(language: string, voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice | null {
+  const tag = language.toLowerCase();
+  const primary = tag.split('-')[0];
+  const rank = (v: SpeechSynthesisVoice) => {
+    const lang = v.lang.toLowerCase().replace('_', '-');
+    const match = lang === tag ? 2 : lang.split('-')[0] === primary ? 1 : 0;
+    return match === 0 ? 0 : match * 2 + (v.localService ? 1 : 0);
+  };
+  let best: SpeechSynthesisVoice | null = null;
+  for (const voice of voices) {
+    if (rank(voice) > (best ? rank(best) : 0)) best = voice;
+  }
+  return best;
+}
+
+export function speak(text: string, rate = 0.95, language = speechLanguage): void {
+  if (!('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = rate;
+  utterance.lang = language;
+  const voice = pickVoice(language, window.speechSynthesis.getVoices());
+  if (voice) utterance.voice = voice;
+  window.speechSynthesis.speak(utterance);
+}
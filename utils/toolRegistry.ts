@@ -0,0 +1,49 @@
+import { FunctionCall, FunctionDeclaration } from '@google/genai';
+
+export interface GuardianTool {
+  declaration: FunctionDeclaration;
+  /** Returns the tool's result for the model, or undefined to send no response. */
+  run(args: Record<string, unknown>, call: FunctionCall): Promise<unknown> | unknown;
+}
+
+/**
+ * The tools offered to the model, looked up by name when it calls one. Shells
+ * add or replace tools here instead of editing the session.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, GuardianTool>();
+
+  constructor(tools: GuardianTool[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  /** Adds a tool, replacing any existing tool with the same name. */
+  register(tool: GuardianTool): this {
+    if (!tool.declaration.name) throw new Error('A tool needs a name.');
+    this.tools.set(tool.declaration.name, tool);
+    return this;
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get declarations(): FunctionDeclaration[] {
+    return [...this.tools.values()].map(tool => tool.declaration);
+  }
+
+  /** Runs the named tool. An unknown tool or one that throws answers with `{ error }`, so the model isn't left waiting. */
+  async run(call: FunctionCall): Promise<unknown> {
+    const tool = call.name ? this.tools.get(call.name) : undefined;
+    if (!tool) return { error: `No tool called "${call.name ?? ''}".` };
+    try {
+      return await tool.run(call.args ?? {}, call);
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }
+}
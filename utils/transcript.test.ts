@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TranscriptionMessage } from '../types';
+import { TurnAssembler } from './transcript';
+
+function collect() {
+  const turns: TranscriptionMessage[] = [];
+  return { turns, assembler: new TurnAssembler(message => turns.push(message)) };
+}
+
+describe('TurnAssembler', () => {
+  it('stitches chunks into one turn, stamped when it started', () => {
+    const { turns, assembler } = collect();
+    expect(assembler.append('model', 'The path ', 100)).toBe('The path');
+    expect(assembler.append('model', 'is clear. ', 250)).toBe('The path is clear.');
+    expect(turns).toEqual([]);
+
+    assembler.complete('model');
+    expect(turns).toEqual([{ text: 'The path is clear.', type: 'model', timestamp: 100 }]);
+  });
+
+  it('ends one speaker\'s turn when the other starts', () => {
+    const { turns, assembler } = collect();
+    assembler.append('model', 'A bench on your', 100);
+    assembler.append('user', 'Where am I?', 200);
+    assembler.append('model', 'You are on High Street.', 300);
+
+    expect(turns.map(t => [t.type, t.text])).toEqual([['model', 'A bench on your'], ['user', 'Where am I?']]);
+  });
+
+  it('leaves the other speaker alone when one turn completes', () => {
+    const { turns, assembler } = collect();
+    assembler.append('user', 'Read this', 100);
+    assembler.complete('model');
+    expect(turns).toEqual([]);
+
+    // With no speaker, both are flushed, as on shutdown.
+    assembler.complete();
+    expect(turns).toEqual([{ text: 'Read this', type: 'user', timestamp: 100 }]);
+  });
+
+  it('drops turns that were only whitespace', () => {
+    const onTurn = vi.fn();
+    const assembler = new TurnAssembler(onTurn);
+    assembler.append('model', '  ', 100);
+    assembler.complete();
+    expect(onTurn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+
+import { TranscriptionMessage } from '../types';
+
+type Speaker = TranscriptionMessage['type'];
+
+interface PendingTurn {
+  text: string;
+  startedAt: number;
+}
+
+/**
+ * Stitches streamed transcription chunks into whole turns. A turn ends when the
+ * caller says so (turnComplete / interrupted) or when the other speaker starts.
+ */
+export class TurnAssembler {
+  private pending: Record<Speaker, PendingTurn | null> = { user: null, model: null };
+
+  constructor(private onTurn: (message: TranscriptionMessage) => void) {}
+
+  /** Adds a chunk and returns the text of that speaker's turn so far. */
+  append(type: Speaker, chunk: string, now = Date.now()): string {
+    const other: Speaker = type === 'model' ? 'user' : 'model';
+    if (this.pending[other]) this.complete(other);
+    const turn = this.pending[type] ?? (this.pending[type] = { text: '', startedAt: now });
+    turn.text += chunk;
+    return turn.text.trim();
+  }
+
+  /** Ends the given speaker's turn, or both when no speaker is given. */
+  complete(type?: Speaker): void {
+    for (const speaker of type ? [type] : (['user', 'model'] as Speaker[])) {
+      const turn = this.pending[speaker];
+      this.pending[speaker] = null;
+      const text = turn?.text.trim();
+      if (text) this.onTurn({ text, type: speaker, timestamp: turn.startedAt });
+    }
+  }
+}
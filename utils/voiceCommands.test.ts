@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { en } from '../locales/en';
+import { es } from '../locales/es';
+import { normalizeUtterance, parseVoiceCommand } from './voiceCommands';
+
+const english = (utterance: string) => parseVoiceCommand(utterance, en.voiceCommands);
+const spanish = (utterance: string) => parseVoiceCommand(utterance, es.voiceCommands);
+
+describe('normalizeUtterance', () => {
+  it('folds case, curly apostrophes and punctuation', () => {
+    expect(normalizeUtterance('  Where’s the CAFÉ?!  ')).toEqual(['where\'s', 'the', 'café']);
+  });
+});
+
+describe('parseVoiceCommand', () => {
+  it('understands every alias of a command', () => {
+    for (const phrase of en.voiceCommands.phrases.sos) expect(english(phrase)).toBe('sos');
+    // "ok" and "okay" are fillers elsewhere, but here they are the command.
+    for (const phrase of en.voiceCommands.phrases.cancel) expect(english(phrase)).toBe('cancel');
+    expect(english('okay, I\'m okay')).toBe('cancel');
+    expect(english('what color is this')).toBe('colour');
+    expect(english('what colour is this')).toBe('colour');
+  });
+
+  it('ignores case, punctuation and filler words around a command', () => {
+    expect(english('Hey guardian, pause please.')).toBe('pause');
+    expect(english('OK, where am I?')).toBe('where-am-i');
+    expect(english('What’s my location')).toBe('where-am-i');
+    expect(english('deja vu read this now')).toBe('read-text');
+  });
+
+  it('keeps the wake word when a phrase needs it', () => {
+    expect(english('stop guardian')).toBe('stop');
+    expect(english('hey guardian stop talking')).toBe('pause');
+  });
+
+  it('prefers the longest phrase that matches', () => {
+    expect(english('cancel emergency')).toBe('cancel');
+    expect(english('describe in detail')).toBe('describe');
+  });
+
+  it('tolerates a stray word from a noisy transcript', () => {
+    expect(english('um repeat that')).toBe('repeat');
+    expect(english('please read the label uh')).toBe('read-text');
+  });
+
+  it('ignores speech that merely contains a command word', () => {
+    expect(english("I'll pause here for a moment and look around")).toBeNull();
+    expect(english('the emergency exit is on the left past the stairs')).toBeNull();
+    expect(english('can you repeat what the sign on the door says')).toBeNull();
+  });
+
+  it('returns nothing for unrelated, empty or filler-only speech', () => {
+    expect(english('what a lovely day')).toBeNull();
+    expect(english('')).toBeNull();
+    expect(english('hey guardian please')).toBeNull();
+  });
+
+  it('matches in the vocabulary of the narration language only', () => {
+    expect(spanish('Oye, ¿dónde estoy?')).toBe('where-am-i');
+    expect(spanish('¡Ayúdame!')).toBe('sos');
+    expect(spanish('cancela la emergencia por favor')).toBe('cancel');
+    expect(spanish('where am i')).toBeNull();
+    expect(english('dónde estoy')).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { foldForMatching } from './i18n';
+
+export type VoiceCommand =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'where-am-i'
+  | 'read-text'
+  | 'currency'
+  | 'colour'
+  | 'describe'
+  | 'quieter'
+  | 'repeat'
+  | 'stop'
+  | 'sos'
+  | 'cancel';
+
+/** One language's command phrases, as found in the locale catalogues. */
+export interface VoiceVocabulary {
+  phrases: Record<VoiceCommand, string[]>;
+  /** Words that may pad a command without counting against it: "hey guardian, pause please". */
+  fillers: string[];
+  /** The app's name for itself; padding too, unless a phrase needs it ("stop guardian"). */
+  wakeWord: string;
+}
+
+// The phrase must make up at least this share of the remaining words, so narration
+// like "I'll pause here for a moment" in the room doesn't trigger anything.
+const MIN_COVERAGE = 0.6;
+
+export function normalizeUtterance(text: string): string[] {
+  return foldForMatching(text)
+    .replace(/[’']/g, '\'')
+    .replace(/[^\p{L}\p{M}\p{N}' ]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function containsSequence(words: string[], phrase: string[]): boolean {
+  outer: for (let i = 0; i + phrase.length <= words.length; i++) {
+    for (let j = 0; j < phrase.length; j++) {
+      if (words[i + j] !== phrase[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+/** Maps a recognised utterance to a command, preferring the longest matching phrase. */
+export function parseVoiceCommand(utterance: string, vocabulary: VoiceVocabulary): VoiceCommand | null {
+  const words = normalizeUtterance(utterance);
+  const fillers = new Set(vocabulary.fillers.flatMap(normalizeUtterance));
+  const [wakeWord] = normalizeUtterance(vocabulary.wakeWord);
+  const padding = (w: string) => fillers.has(w) || w === wakeWord;
+  if (words.every(padding)) return null;
+
+  let best: { command: VoiceCommand; length: number } | null = null;
+  for (const command of Object.keys(vocabulary.phrases) as VoiceCommand[]) {
+    for (const phrase of vocabulary.phrases[command]) {
+      const phraseWords = normalizeUtterance(phrase);
+      // Padding only counts as padding where the phrase doesn't use it: "I'm ok" needs its "ok".
+      const pool = words.filter(w => !padding(w) || phraseWords.includes(w));
+      if (!containsSequence(pool, phraseWords)) continue;
+      if (phraseWords.length / pool.length < MIN_COVERAGE) continue;
+      if (!best || phraseWords.length > best.length) best = { command, length: phraseWords.length };
+    }
+  }
+  return best?.command ?? null;
+}
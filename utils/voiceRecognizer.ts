@@ -0,0 +1,76 @@
+
+export interface VoiceRecognizer {
+  start: () => void;
+  stop: () => void;
+}
+
+// The slice of the Web Speech API used here; TypeScript's DOM library doesn't declare it.
+interface SpeechRecognitionResultEvent {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+}
+
+interface SpeechRecognitionErrorEvent {
+  error: string;
+}
+
+interface SpeechRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  processLocally?: boolean;
+  onresult: ((e: SpeechRecognitionResultEvent) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((e: SpeechRecognitionErrorEvent) => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionWindow = Window & {
+  SpeechRecognition?: new () => SpeechRecognition;
+  webkitSpeechRecognition?: new () => SpeechRecognition;
+};
+
+/**
+ * Thin wrapper over the Web Speech API that keeps listening until stopped.
+ * Returns null where the browser has no speech recognition.
+ */
+export function createVoiceRecognizer(onUtterance: (text: string) => void, lang = 'en-US'): VoiceRecognizer | null {
+  const Recognition = (window as SpeechRecognitionWindow).SpeechRecognition || (window as SpeechRecognitionWindow).webkitSpeechRecognition;
+  if (!Recognition) return null;
+
+  const recognition = new Recognition();
+  recognition.continuous = true;
+  recognition.interimResults = false;
+  recognition.lang = lang;
+  // Prefer on-device recognition where the browser offers it.
+  if ('processLocally' in recognition) recognition.processLocally = true;
+
+  let listening = false;
+  recognition.onresult = (e) => {
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      if (e.results[i].isFinal) onUtterance(e.results[i][0].transcript);
+    }
+  };
+  // Browsers end continuous recognition after silence or errors; keep it going.
+  recognition.onend = () => {
+    if (listening) {
+      try { recognition.start(); } catch (e) {}
+    }
+  };
+  recognition.onerror = (e) => {
+    if (e.error === 'not-allowed' || e.error === 'service-not-allowed') listening = false;
+  };
+
+  return {
+    start: () => {
+      if (listening) return;
+      listening = true;
+      try { recognition.start(); } catch (e) {}
+    },
+    stop: () => {
+      listening = false;
+      try { recognition.stop(); } catch (e) {}
+    },
+  };
+}
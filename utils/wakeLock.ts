@@ -0,0 +1,48 @@
+/**
+ * Keeps the screen on while held. The browser drops a wake lock whenever the
+ * page is hidden, so it is taken again each time the page comes back.
+ */
+export class ScreenWakeLock {
+  private sentinel: WakeLockSentinel | null = null;
+  private wanted = false;
+
+  static get supported(): boolean {
+    return 'wakeLock' in navigator;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.wanted || !ScreenWakeLock.supported) return;
+    this.wanted = true;
+    document.addEventListener('visibilitychange', this.reacquire);
+    await this.request();
+  }
+
+  release(): void {
+    this.wanted = false;
+    document.removeEventListener('visibilitychange', this.reacquire);
+    const sentinel = this.sentinel;
+    this.sentinel = null;
+    sentinel?.release().catch(() => {});
+  }
+
+  private reacquire = () => {
+    if (this.wanted && document.visibilityState === 'visible' && !this.sentinel) this.request();
+  };
+
+  private async request(): Promise<void> {
+    try {
+      const sentinel = await navigator.wakeLock.request('screen');
+      if (!this.wanted) {
+        sentinel.release().catch(() => {});
+        return;
+      }
+      this.sentinel = sentinel;
+      sentinel.addEventListener('release', () => {
+        if (this.sentinel === sentinel) this.sentinel = null;
+      });
+    } catch (e) {
+      // Refused, e.g. in battery saver or while hidden; tried again on the next visibility change.
+      console.warn("Wake lock unavailable.", e);
+    }
+  }
+}
@@ -12,7 +12,18 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEOCODER_URL': JSON.stringify(env.GEOCODER_URL || ''),
+        'process.env.CAREGIVER_RELAY_URL': JSON.stringify(env.CAREGIVER_RELAY_URL || ''),
+        'process.env.TOKEN_PRICES': JSON.stringify(env.TOKEN_PRICES || '')
+      },
+      build: {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            caregiver: path.resolve(__dirname, 'caregiver.html'),
+          }
+        }
       },
       resolve: {
         alias: {